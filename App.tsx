@@ -1,68 +1,327 @@
-import React, { useState } from 'react';
+import React, { useState, useRef, useEffect, useReducer, SetStateAction, DragEvent } from 'react';
 import { Header } from './components/Header';
 import { Sidebar } from './components/Sidebar';
 import { MapPreview } from './components/MapPreview';
 import { TemplateGallery } from './components/TemplateGallery';
-import { 
-  DEFAULT_MAP_STYLE, MapStyle, 
-  DEFAULT_LABEL_SETTINGS, LabelSettings,
-  DEFAULT_TITLE_SETTINGS, TitleSettings,
-  Annotation, MapDataState, MapTemplate
-} from './types';
+import { ImportWizard } from './components/ImportWizard';
+import { ExportDialog } from './components/ExportDialog';
+import { HistoryPanel } from './components/HistoryPanel';
+import { MapStyle, Annotation, MapDataState, MapTemplate } from './types';
+import { ImportSource } from './lib/dataImport';
+import { BoundaryLayer } from './lib/boundaries';
+import { Admin1Layer, loadAdmin1Layer } from './lib/admin1';
+import { VisionSimulation } from './lib/accessibility';
+import { MapExporter, toFileName } from './lib/exportMap';
+import {
+  MapViewControl, ProjectFile, ProjectFileRef, ProjectState, DEFAULT_VIEW,
+  parseProject, serializeProject, saveProjectFile, pickProjectFile, isProjectFileName
+} from './lib/project';
+import { MapDocument, DEFAULT_DOCUMENT, createHistory, historyReducer } from './lib/history';
+import { MissingData, buildShareLink, readShareLink, hasSharedMap } from './lib/shareLink';
+import { addMetrics, getActiveMetric, resolveMetricStyle, pickMetricStyle, setMetricStyle, METRIC_STYLE_KEYS } from './lib/metrics';
 
 const App: React.FC = () => {
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
-  const [mapStyle, setMapStyle] = useState<MapStyle>(DEFAULT_MAP_STYLE);
-  const [mapData, setMapData] = useState<MapDataState | null>(null);
+  // The map document (style, data, text, annotations) lives in the undo history
+  const [history, dispatchHistory] = useReducer(historyReducer, DEFAULT_DOCUMENT, createHistory);
+  const { style: mapStyle, data: mapData, boundaries, admin1, styleScope, labelSettings, titleSettings, annotations } = history.entries[history.index].document;
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  // Names the edits made in the current tick as one step, e.g. a suggestion that sets several things
+  const labelledStep = useRef<{ label: string; key: string } | null>(null);
+  const stepCounter = useRef(0);
+  // Preview-only: never saved with the map or exported
+  const [visionSimulation, setVisionSimulation] = useState<VisionSimulation>('none');
   
-  // Text & Annotation State
-  const [labelSettings, setLabelSettings] = useState<LabelSettings>(DEFAULT_LABEL_SETTINGS);
-  const [titleSettings, setTitleSettings] = useState<TitleSettings>(DEFAULT_TITLE_SETTINGS);
-  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  // Annotation placement mode
   const [isAddingAnnotation, setIsAddingAnnotation] = useState(false);
 
   // Template Gallery State
   const [isGalleryOpen, setIsGalleryOpen] = useState(false);
 
+  // Import Wizard State
+  const [importSource, setImportSource] = useState<ImportSource | null>(null);
+
+  // Export: the map preview supplies the function that captures its drawing
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const mapExporter = useRef<MapExporter | null>(null);
+
+  // Project file: where Save writes, and the preview's projection and zoom to save alongside
+  const [projectFile, setProjectFile] = useState<ProjectFileRef | null>(null);
+  const [projectNotice, setProjectNotice] = useState<{ tone: 'info' | 'error'; text: string } | null>(null);
+  const mapView = useRef<MapViewControl | null>(null);
+  // Set when a share link had to leave the data out; the sidebar asks for it
+  const [missingData, setMissingData] = useState<MissingData | null>(null);
+
   const toggleSidebar = () => {
     setIsSidebarCollapsed(!isSidebarCollapsed);
   };
 
+  // -- History --
+
+  const commit = (change: (document: MapDocument) => MapDocument, label?: string) => {
+    const step = label ? { label } : labelledStep.current;
+    dispatchHistory({ type: 'commit', change, time: Date.now(), ...step });
+  };
+
+  const labelNextEdit = (label: string) => {
+    stepCounter.current += 1;
+    labelledStep.current = { label, key: `step-${stepCounter.current}` };
+    queueMicrotask(() => { labelledStep.current = null; });
+  };
+
+  // Drop-in replacements for the useState setters the panels were written against
+  const documentSetter = <K extends keyof MapDocument>(field: K) => (action: SetStateAction<MapDocument[K]>) =>
+    commit(document => ({
+      ...document,
+      [field]: typeof action === 'function' ? (action as (prev: MapDocument[K]) => MapDocument[K])(document[field]) : action,
+    }));
+  const setMapStyle = documentSetter('style');
+  const setMapData = documentSetter('data');
+  const setAdmin1 = documentSetter('admin1');
+  const setLabelSettings = documentSetter('labelSettings');
+  const setTitleSettings = documentSetter('titleSettings');
+
+  const activeMetric = mapData ? getActiveMetric(mapData) : null;
+  const effectiveStyle = resolveMetricStyle(mapStyle, activeMetric);
+  // A metric that already has overrides keeps editing them
+  const activeStyleScope = activeMetric?.style ? 'metric' : styleScope;
+
+  // Resolved against the latest document so edits made in the same tick build on each other
+  const updateMapStyle = (action: SetStateAction<MapStyle>) => commit(document => {
+    const metric = document.data ? getActiveMetric(document.data) : null;
+    const next = typeof action === 'function' ? action(resolveMetricStyle(document.style, metric)) : action;
+    if ((metric?.style ? 'metric' : document.styleScope) === 'metric' && document.data && metric) {
+      // Borders, background and the rest are never per-metric
+      const shared = { ...next };
+      METRIC_STYLE_KEYS.forEach(key => { delete shared[key]; });
+      return { ...document, data: setMetricStyle(document.data, metric.name, pickMetricStyle(next)), style: { ...document.style, ...shared } };
+    }
+    return { ...document, style: next };
+  });
+
+  // Dropping a metric's overrides puts it back on the map-wide style
+  const changeStyleScope = (scope: 'map' | 'metric') => commit(document => {
+    const metric = document.data ? getActiveMetric(document.data) : null;
+    const data = scope === 'map' && document.data && metric?.style ? setMetricStyle(document.data, metric.name, undefined) : document.data;
+    return { ...document, data, styleScope: scope };
+  });
+
+  // Custom boundaries and admin-1 drill-down are mutually exclusive geographies
+  const applyBoundaries = (layer: BoundaryLayer | null) => {
+    commit(document => ({ ...document, boundaries: layer, admin1: null }));
+  };
+
   const addAnnotation = (newAnnotation: Annotation) => {
-    setAnnotations([...annotations, newAnnotation]);
+    commit(document => ({ ...document, annotations: [...document.annotations, newAnnotation] }));
     setIsAddingAnnotation(false);
   };
 
   const updateAnnotation = (id: string, text: string) => {
-    setAnnotations(annotations.map(a => a.id === id ? { ...a, text } : a));
+    commit(document => ({ ...document, annotations: document.annotations.map(a => a.id === id ? { ...a, text } : a) }));
   };
 
   const deleteAnnotation = (id: string) => {
-    setAnnotations(annotations.filter(a => a.id !== id));
+    commit(document => ({ ...document, annotations: document.annotations.filter(a => a.id !== id) }));
   };
 
-  const moveAnnotation = (id: string, x: number, y: number) => {
-    setAnnotations(annotations.map(a => a.id === id ? { ...a, x, y } : a));
+  const moveAnnotation = (id: string, coordinates: [number, number]) => {
+    commit(document => ({ ...document, annotations: document.annotations.map(a => a.id === id ? { ...a, coordinates } : a) }));
   };
 
   // Template Handler
   const handleLoadTemplate = (template: MapTemplate) => {
-    setMapStyle(template.style);
-    setMapData(template.data);
-    setTitleSettings(template.titleSettings);
-    // Reset annotations on template load? Optional. Let's keep them for now or clear.
-    // setAnnotations([]); 
+    commit(document => ({ ...document, style: template.style, data: template.data, titleSettings: template.titleSettings }), `Load template ${template.name}`);
     setIsGalleryOpen(false);
   };
 
+  const getProjectState = (): ProjectState => ({
+    style: mapStyle,
+    data: mapData,
+    styleScope,
+    boundaries,
+    admin1,
+    labelSettings,
+    titleSettings,
+    annotations,
+    view: mapView.current?.getView() ?? DEFAULT_VIEW,
+  });
+
+  const saveProject = async (saveAs: boolean) => {
+    const contents = serializeProject(getProjectState());
+    try {
+      const saved = await saveProjectFile(contents, saveAs ? null : projectFile, toFileName(titleSettings.title));
+      if (!saved) return;
+      setProjectFile(saved);
+      setProjectNotice({ tone: 'info', text: `Saved ${saved.name}` });
+    } catch (err) {
+      console.error('Project save failed:', err);
+      setProjectNotice({ tone: 'error', text: err instanceof Error ? err.message : 'Could not save the project' });
+    }
+  };
+
+  // Shared by project files and share links
+  const applyProject = (project: ProjectFile, label: string) => {
+    const { style, data, styleScope, boundaries, admin1, labelSettings, titleSettings } = project;
+    // Notes from older files are anchored with the projection they were saved in
+    const anchored = project.screenAnnotations && mapView.current
+      ? mapView.current.anchorAnnotations(project.screenAnnotations, project)
+      : [];
+    const annotations = [...project.annotations, ...anchored];
+    commit(() => ({ style, data, styleScope, boundaries, admin1, labelSettings, titleSettings, annotations }), label);
+    setIsAddingAnnotation(false);
+    setMissingData(null);
+    mapView.current?.setView(project.view);
+  };
+
+  const openProject = async (file: File, ref: ProjectFileRef) => {
+    try {
+      applyProject(parseProject(await file.text()), `Open ${ref.name}`);
+      // An older template or JSON file is never overwritten in place; Save asks for a new file
+      setProjectFile(isProjectFileName(ref.name) ? ref : null);
+      setProjectNotice({ tone: 'info', text: `Opened ${ref.name}` });
+    } catch (err) {
+      console.error('Project open failed:', err);
+      setProjectNotice({ tone: 'error', text: err instanceof Error ? err.message : 'Could not open the project' });
+    }
+  };
+
+  const handleOpenProject = async () => {
+    try {
+      const picked = await pickProjectFile();
+      if (picked) await openProject(picked.file, picked.ref);
+    } catch (err) {
+      console.error('Project open failed:', err);
+      setProjectNotice({ tone: 'error', text: err instanceof Error ? err.message : 'Could not open the project' });
+    }
+  };
+
+  const copyShareLink = async () => {
+    try {
+      const { url, missing } = await buildShareLink(getProjectState(), `${window.location.origin}${window.location.pathname}`);
+      await navigator.clipboard.writeText(url);
+      setProjectNotice({
+        tone: 'info',
+        text: missing ? 'Link copied without the data, which is too large for a URL. Whoever opens it will be asked to upload it.' : 'Link copied',
+      });
+    } catch (err) {
+      console.error('Share link failed:', err);
+      setProjectNotice({ tone: 'error', text: err instanceof Error ? err.message : 'Could not create a link' });
+    }
+  };
+
+  // A link is a snapshot: once its map is open the fragment is cleared so edits do not look shareable
+  const openShareLink = async (hash: string) => {
+    try {
+      const shared = await readShareLink(hash);
+      // Regions ship with the app, so the link only names the country
+      const admin1 = shared.admin1Country ? await loadAdmin1Layer(shared.admin1Country) : null;
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+      applyProject({ ...shared.project, admin1 }, 'Open shared link');
+      setMissingData(shared.missing);
+      if (shared.missing) setIsSidebarCollapsed(false);
+    } catch (err) {
+      console.error('Share link failed to open:', err);
+      setProjectNotice({ tone: 'error', text: err instanceof Error ? err.message : 'Could not open the link' });
+    }
+  };
+
+  useEffect(() => {
+    const onHashChange = () => { if (hasSharedMap(window.location.hash)) openShareLink(window.location.hash); };
+    onHashChange();
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
+
+  // Supplying data by any route answers a link that arrived without it
+  useEffect(() => {
+    if (mapData) setMissingData(null);
+  }, [mapData]);
+
+  // Data files dropped on the upload area are handled there; a project file can land anywhere
+  const handleProjectDrop = (e: DragEvent<HTMLDivElement>) => {
+    const file = e.dataTransfer.files?.[0];
+    if (!file || !isProjectFileName(file.name)) return;
+    e.preventDefault();
+    openProject(file, { name: file.name, handle: null });
+  };
+
+  // Bound on every render so the shortcuts always save the current state
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' || key === 'y') {
+        // Text fields keep their own undo
+        const target = e.target as HTMLElement;
+        const isTextField = target.isContentEditable || target.tagName === 'TEXTAREA' ||
+          (target.tagName === 'INPUT' && !['range', 'checkbox', 'radio', 'color', 'button'].includes((target as HTMLInputElement).type));
+        if (isTextField) return;
+        e.preventDefault();
+        dispatchHistory({ type: key === 'y' || e.shiftKey ? 'redo' : 'undo' });
+      } else if (key === 's') {
+        e.preventDefault();
+        saveProject(e.shiftKey);
+      } else if (key === 'o') {
+        e.preventDefault();
+        handleOpenProject();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  useEffect(() => {
+    if (!projectNotice) return;
+    const timer = setTimeout(() => setProjectNotice(null), 4000);
+    return () => clearTimeout(timer);
+  }, [projectNotice]);
+
+  const handleApplyImport = (data: MapDataState, source: ImportSource, regions: Admin1Layer | null, append: boolean) => {
+    commit(document => ({
+      ...document,
+      data: append && document.data ? addMetrics(document.data, data) : data,
+      admin1: regions ?? document.admin1,
+      // Template files bring their own look along with the data
+      ...(source.template ? { style: source.template.style, titleSettings: source.template.titleSettings } : {}),
+    }), `Import ${source.fileName}`);
+    setImportSource(null);
+  };
+
   return (
-    <div className="flex flex-col h-screen w-full bg-background relative overflow-hidden selection:bg-cyan-500/30">
+    <div
+      className="flex flex-col h-screen w-full bg-background relative overflow-hidden selection:bg-cyan-500/30"
+      onDragOver={(e) => { if (e.dataTransfer.types.includes('Files')) e.preventDefault(); }}
+      onDrop={handleProjectDrop}
+    >
       {/* Ambient background effects */}
       <div className="absolute top-0 left-0 w-[500px] h-[500px] bg-primary/20 rounded-full blur-[120px] -translate-x-1/2 -translate-y-1/2 pointer-events-none" />
       <div className="absolute bottom-0 right-0 w-[500px] h-[500px] bg-accent/10 rounded-full blur-[120px] translate-x-1/3 translate-y-1/3 pointer-events-none" />
 
       {/* Header */}
-      <Header />
+      <Header
+        projectName={projectFile?.name ?? null}
+        onOpenProject={handleOpenProject}
+        onSaveProject={() => saveProject(false)}
+        onSaveProjectAs={() => saveProject(true)}
+        onShare={copyShareLink}
+        canUndo={history.index > 0}
+        canRedo={history.index < history.entries.length - 1}
+        onUndo={() => dispatchHistory({ type: 'undo' })}
+        onRedo={() => dispatchHistory({ type: 'redo' })}
+        isHistoryOpen={isHistoryOpen}
+        onToggleHistory={() => setIsHistoryOpen(!isHistoryOpen)}
+      />
+
+      {isHistoryOpen && (
+        <div className="absolute top-24 right-8 z-[60]">
+          <HistoryPanel
+            entries={history.entries}
+            index={history.index}
+            onJump={(index) => dispatchHistory({ type: 'jump', index })}
+            onClose={() => setIsHistoryOpen(false)}
+          />
+        </div>
+      )}
 
       {/* Main Content Area */}
       <main className="flex-1 flex overflow-hidden relative z-10 pt-4 px-4 pb-4 gap-4">
@@ -71,8 +330,10 @@ const App: React.FC = () => {
         <Sidebar 
           isCollapsed={isSidebarCollapsed} 
           toggleSidebar={toggleSidebar} 
-          mapStyle={mapStyle}
-          setMapStyle={setMapStyle}
+          mapStyle={effectiveStyle}
+          setMapStyle={updateMapStyle}
+          styleScope={activeStyleScope}
+          setStyleScope={changeStyleScope}
           mapData={mapData}
           setMapData={setMapData}
           // Text Props
@@ -84,12 +345,21 @@ const App: React.FC = () => {
           setIsAddingAnnotation={setIsAddingAnnotation}
           // Gallery
           onOpenGallery={() => setIsGalleryOpen(true)}
+          onOpenImport={setImportSource}
+          boundaries={boundaries}
+          setBoundaries={applyBoundaries}
+          admin1={admin1}
+          setAdmin1={setAdmin1}
+          visionSimulation={visionSimulation}
+          setVisionSimulation={setVisionSimulation}
+          missingData={missingData}
+          labelNextEdit={labelNextEdit}
         />
 
         {/* Right Panel - Map */}
         <div className="flex-1 h-full min-w-0 transition-all duration-500 ease-in-out relative">
            <MapPreview 
-             mapStyle={mapStyle} 
+             mapStyle={effectiveStyle} 
              mapData={mapData}
              setMapData={setMapData}
              labelSettings={labelSettings}
@@ -100,6 +370,13 @@ const App: React.FC = () => {
              onUpdateAnnotation={updateAnnotation}
              onDeleteAnnotation={deleteAnnotation}
              onMoveAnnotation={moveAnnotation}
+             boundaries={boundaries}
+             admin1={admin1}
+             onDrillDown={setAdmin1}
+             visionSimulation={visionSimulation}
+             exporterRef={mapExporter}
+             onOpenExport={() => setIsExportOpen(true)}
+             viewRef={mapView}
            />
            
            {/* Annotation Mode Indicator */}
@@ -108,6 +385,13 @@ const App: React.FC = () => {
                Click anywhere on map to add text
              </div>
            )}
+
+           {/* Project save/open feedback */}
+           {projectNotice && (
+             <div className={`absolute top-4 left-1/2 -translate-x-1/2 px-4 py-2 rounded-full shadow-lg text-sm font-bold z-50 pointer-events-none animate-in fade-in ${projectNotice.tone === 'error' ? 'bg-amber-500 text-white shadow-amber-500/20' : 'bg-slate-800 text-white shadow-black/20 border border-white/10'}`}>
+               {projectNotice.text}
+             </div>
+           )}
         </div>
 
       </main>
@@ -123,6 +407,24 @@ const App: React.FC = () => {
           titleSettings: titleSettings
         }}
       />
+
+      {/* Import Wizard Modal */}
+      <ImportWizard
+        isOpen={importSource !== null}
+        source={importSource}
+        onClose={() => setImportSource(null)}
+        onApply={handleApplyImport}
+        boundaries={boundaries}
+        admin1={admin1}
+        canAppend={mapData !== null}
+      />
+
+      {/* Export Dialog */}
+      <ExportDialog
+        isOpen={isExportOpen}
+        onClose={() => setIsExportOpen(false)}
+        onExport={(options) => mapExporter.current ? mapExporter.current(options) : Promise.reject(new Error('The map is not ready'))}
+      />
     </div>
   );
 };
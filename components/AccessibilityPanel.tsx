@@ -0,0 +1,104 @@
+import React, { useMemo } from 'react';
+import { Eye, Check, AlertTriangle } from 'lucide-react';
+import { LabelSettings } from '../types';
+import { NO_DATA_COLOR } from '../lib/classification';
+import {
+  VisionSimulation, VISION_SIMULATIONS, ClassPair, MIN_CLASS_DISTANCE,
+  checkClassSeparation, checkLabelContrast, simulateColor
+} from '../lib/accessibility';
+
+interface AccessibilityPanelProps {
+  colors: string[]; // Class colours as drawn on the map
+  pairs: ClassPair[]; // Which of them need to be told apart
+  labelSettings: LabelSettings;
+  backgroundColor: string;
+  simulation: VisionSimulation;
+  setSimulation: (simulation: VisionSimulation) => void;
+}
+
+const Swatch: React.FC<{ color: string }> = ({ color }) => (
+  <div className="w-3 h-3 rounded-sm border border-white/10" style={{ backgroundColor: color }} />
+);
+
+export const AccessibilityPanel: React.FC<AccessibilityPanelProps> = ({
+  colors, pairs, labelSettings, backgroundColor, simulation, setSimulation
+}) => {
+  const separation = useMemo(() => checkClassSeparation(colors, pairs), [colors, pairs]);
+  const labelContrast = useMemo(
+    () => labelSettings.showLabels
+      ? checkLabelContrast(labelSettings.color, [...colors, NO_DATA_COLOR, backgroundColor], labelSettings.fontSize)
+      : null,
+    [colors, backgroundColor, labelSettings]
+  );
+  const current = separation.find(s => s.simulation === simulation);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-slate-400 text-xs font-bold uppercase tracking-wider">
+        <Eye size={12} />
+        <span>Accessibility</span>
+      </div>
+      <div className="space-y-1.5">
+        <label className="text-[10px] text-slate-500 font-semibold">SIMULATE</label>
+        <div className="grid grid-cols-5 gap-1 p-1 rounded-lg bg-slate-900/50 border border-white/10">
+          {VISION_SIMULATIONS.map(s => (
+            <button key={s.value} onClick={() => setSimulation(s.value)} title={s.description} className={`py-1.5 rounded-md text-[10px] transition-colors ${simulation === s.value ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-slate-200'}`}>{s.label}</button>
+          ))}
+        </div>
+      </div>
+
+      {pairs.length > 0 && (
+        <div className="space-y-1.5">
+          <label className="text-[10px] text-slate-500 font-semibold">CLASS SEPARATION (ΔE)</label>
+          <div className="p-2 rounded-xl bg-slate-900/30 border border-white/5 space-y-1">
+            {separation.map(s => {
+              const ok = s.collapsed.length === 0;
+              return (
+                <button key={s.simulation} onClick={() => setSimulation(s.simulation)} className={`w-full flex items-center gap-2 px-1.5 py-1 rounded-md text-[10px] transition-colors ${simulation === s.simulation ? 'bg-white/5' : 'hover:bg-white/5'}`}>
+                  {ok ? <Check size={10} className="text-emerald-400" /> : <AlertTriangle size={10} className="text-amber-400" />}
+                  <span className="flex-1 text-left text-slate-300">{VISION_SIMULATIONS.find(v => v.value === s.simulation)!.description}</span>
+                  <span className={`font-mono ${ok ? 'text-slate-400' : 'text-amber-400'}`}>{s.minDistance.toFixed(1)}</span>
+                </button>
+              );
+            })}
+          </div>
+          {current && current.collapsed.length > 0 ? (
+            <div className="space-y-1">
+              <p className="text-[10px] text-amber-400">
+                {current.collapsed.length === 1 ? 'These classes look' : `${current.collapsed.length} pairs of classes look`} almost the same here (ΔE under {MIN_CLASS_DISTANCE}):
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {current.collapsed.map(([i, j]) => (
+                  <div key={`${i}-${j}`} className="flex gap-px p-0.5 rounded bg-slate-900/50">
+                    <Swatch color={simulateColor(colors[i], simulation)} />
+                    <Swatch color={simulateColor(colors[j], simulation)} />
+                  </div>
+                ))}
+              </div>
+              <p className="text-[10px] text-slate-500">Try fewer classes or a colorblind-safe palette.</p>
+            </div>
+          ) : null}
+        </div>
+      )}
+
+      {labelContrast && (
+        <div className="space-y-1.5">
+          <label className="text-[10px] text-slate-500 font-semibold">LABEL CONTRAST</label>
+          <div className="flex items-center gap-2 p-2 rounded-xl bg-slate-900/30 border border-white/5 text-[10px]">
+            {labelContrast.failing.length === 0 ? <Check size={10} className="text-emerald-400" /> : <AlertTriangle size={10} className="text-amber-400" />}
+            <span className="flex-1 text-slate-300">Weakest contrast</span>
+            <span className={`font-mono ${labelContrast.failing.length === 0 ? 'text-slate-400' : 'text-amber-400'}`}>
+              {labelContrast.minRatio.toFixed(1)}:1 / {labelContrast.required}:1
+            </span>
+          </div>
+          {labelContrast.failing.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1.5">
+              <span className="text-[10px] text-slate-500">Hard to read on</span>
+              {labelContrast.failing.map(color => (<Swatch key={color} color={color} />))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
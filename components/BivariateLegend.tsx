@@ -0,0 +1,58 @@
+import React from 'react';
+import { BivariateClassification } from '../lib/bivariate';
+import { getClassRangeLabel } from '../lib/classification';
+import { estimateTextWidth } from '../lib/legend';
+import { LegendFrame, LEGEND_TEXT_COLOR, LEGEND_FONT_FAMILY, truncateLabel } from './MapLegend';
+
+interface BivariateLegendProps {
+  classification: BivariateClassification;
+  xLabel: string;
+  yLabel: string;
+}
+
+const CELL = 18;
+const GAP = 1;
+const PAD_X = 16;
+const PAD_Y = 12;
+const FONT = 10;
+const AXIS = 14; // Room for an axis caption beside or below the grid
+const ARROW = '#94a3b8';
+
+export const BivariateLegend: React.FC<BivariateLegendProps> = ({ classification, xLabel, yLabel }) => {
+  const { grid, size, x, y } = classification;
+  const gridSize = size * CELL + (size - 1) * GAP;
+  const gridLeft = PAD_X + AXIS + 4;
+  const xCaption = truncateLabel(xLabel, 90, FONT);
+  const yCaption = truncateLabel(yLabel, gridSize - 10, FONT);
+  const xCaptionWidth = estimateTextWidth(xCaption, FONT);
+  const width = Math.ceil(gridLeft + Math.max(gridSize, xCaptionWidth + 14) + PAD_X);
+  const height = PAD_Y + gridSize + 4 + AXIS + PAD_Y;
+  const labelStyle = { fill: LEGEND_TEXT_COLOR, fontSize: FONT, fontWeight: 700, fontFamily: LEGEND_FONT_FAMILY };
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} xmlns="http://www.w3.org/2000/svg" className="drop-shadow-xl" data-export-layer="legend">
+      <LegendFrame width={width} height={height} />
+
+      {/* Y axis: caption reads bottom to top, arrow points up */}
+      <g transform={`translate(${PAD_X + AXIS / 2}, ${PAD_Y + 5 + gridSize / 2}) rotate(-90)`}>
+        <text x={0} y={0} dy=".35em" textAnchor="middle" {...labelStyle}><title>{yLabel}</title>{yCaption}</text>
+      </g>
+      <path d={`M${PAD_X + AXIS / 2} ${PAD_Y - 2} l-3 5 h6 z`} fill={ARROW} />
+
+      {/* Rows run from high y at the top to low y at the bottom */}
+      <g transform={`translate(${gridLeft}, ${PAD_Y})`}>
+        {grid.map((row, yi) => row.map((color, xi) => (
+          <rect key={`${yi}-${xi}`} x={xi * (CELL + GAP)} y={(size - 1 - yi) * (CELL + GAP)} width={CELL} height={CELL} fill={color}>
+            <title>{`${xLabel}: ${getClassRangeLabel(x, xi)}\n${yLabel}: ${getClassRangeLabel(y, yi)}`}</title>
+          </rect>
+        )))}
+      </g>
+
+      {/* X axis: caption then an arrow pointing right */}
+      <g transform={`translate(${gridLeft}, ${PAD_Y + gridSize + 4 + AXIS / 2})`}>
+        <text x={0} y={0} dy=".35em" {...labelStyle}><title>{xLabel}</title>{xCaption}</text>
+        <path d={`M${xCaptionWidth + 10} 0 l-5 -3 v6 z`} fill={ARROW} />
+      </g>
+    </svg>
+  );
+};
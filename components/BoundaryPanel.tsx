@@ -0,0 +1,137 @@
+import React, { useState, useRef, ChangeEvent } from 'react';
+import { Map as MapIcon, Upload, X, AlertTriangle, Check, Globe } from 'lucide-react';
+import {
+  BoundaryLayer, BoundaryFile,
+  parseBoundaryFile, getFeatureProperties, suggestBoundaryProperties, buildBoundaryLayer
+} from '../lib/boundaries';
+
+interface BoundaryPanelProps {
+  boundaries: BoundaryLayer | null;
+  onApply: (layer: BoundaryLayer | null) => void;
+}
+
+export const BoundaryPanel: React.FC<BoundaryPanelProps> = ({ boundaries, onApply }) => {
+  const [pending, setPending] = useState<BoundaryFile | null>(null);
+  const [objectName, setObjectName] = useState('');
+  const [idProperty, setIdProperty] = useState('');
+  const [nameProperty, setNameProperty] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const selectObject = (file: BoundaryFile, name: string) => {
+    const suggested = suggestBoundaryProperties(file.objects[name] || []);
+    setObjectName(name);
+    setIdProperty(suggested.idProperty);
+    setNameProperty(suggested.nameProperty);
+  };
+
+  const handleFile = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (ev) => {
+      try {
+        const parsed = parseBoundaryFile(file.name, ev.target?.result as string);
+        const [firstObject] = Object.keys(parsed.objects);
+        if (!firstObject) throw new Error("No boundary objects found");
+        setPending(parsed);
+        selectObject(parsed, firstObject);
+        setError(null);
+      } catch (err) {
+        console.error("Boundary Parse Error:", err);
+        setError(err instanceof Error ? err.message : "Failed to read boundaries");
+      }
+    };
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  const handleApply = () => {
+    if (!pending) return;
+    try {
+      const layer = buildBoundaryLayer(objectName || pending.fileName, pending.objects[objectName] || [], idProperty, nameProperty);
+      onApply(layer);
+      setPending(null);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to build boundaries");
+    }
+  };
+
+  const properties = pending ? getFeatureProperties(pending.objects[objectName] || []) : [];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-slate-400 text-xs font-bold uppercase tracking-wider">
+        <MapIcon size={12} />
+        <span>Boundaries</span>
+      </div>
+
+      {/* Active Layer */}
+      <div className="p-3 rounded-xl bg-slate-900/40 border border-white/5 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          {boundaries ? <MapIcon size={14} className="text-accent" /> : <Globe size={14} className="text-accent" />}
+          <div>
+            <p className="text-xs text-slate-200">{boundaries ? boundaries.name : 'World Countries'}</p>
+            <p className="text-[10px] text-slate-500">
+              {boundaries ? `${boundaries.features.length} features · joined on "${boundaries.idProperty}"` : 'Joined on ISO numeric codes'}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-1.5">
+          {boundaries && (
+            <button onClick={() => onApply(null)} className="px-2 py-1 rounded-lg bg-white/5 hover:bg-white/10 text-[10px] text-slate-300 border border-white/5 transition-colors">
+              Use World
+            </button>
+          )}
+          <button onClick={() => fileInputRef.current?.click()} className="px-2 py-1 rounded-lg bg-white/5 hover:bg-white/10 text-[10px] text-slate-300 border border-white/5 transition-colors flex items-center gap-1">
+            <Upload size={10} /> {boundaries ? 'Replace' : 'Custom'}
+          </button>
+        </div>
+        <input type="file" ref={fileInputRef} className="hidden" accept=".geojson,.topojson,.json" onChange={handleFile} />
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-xl bg-red-500/10 border border-red-500/20 flex gap-3">
+          <AlertTriangle size={16} className="text-red-500 shrink-0 mt-0.5" />
+          <p className="text-[10px] text-red-400 leading-relaxed">{error}</p>
+        </div>
+      )}
+
+      {/* Property Selection */}
+      {pending && (
+        <div className="p-3 rounded-xl bg-slate-900/60 border border-accent/30 space-y-3 animate-in fade-in slide-in-from-top-2">
+          <div className="flex items-center justify-between">
+            <p className="text-xs font-semibold text-white">{pending.fileName}</p>
+            <button onClick={() => setPending(null)} className="p-1 hover:bg-white/10 rounded-full text-slate-400 hover:text-white transition-colors">
+              <X size={12} />
+            </button>
+          </div>
+          {Object.keys(pending.objects).length > 1 && (
+            <div className="space-y-1.5">
+              <label className="text-[10px] text-slate-500 font-semibold">OBJECT</label>
+              <select value={objectName} onChange={(e) => selectObject(pending, e.target.value)} className="w-full bg-slate-900/50 border border-white/10 rounded-lg py-2 px-3 text-xs text-slate-200 outline-none">
+                {Object.keys(pending.objects).map(name => (<option key={name} value={name}>{name} ({pending.objects[name].length})</option>))}
+              </select>
+            </div>
+          )}
+          <div className="space-y-1.5">
+            <label className="text-[10px] text-slate-500 font-semibold">JOIN KEY PROPERTY</label>
+            <select value={idProperty} onChange={(e) => setIdProperty(e.target.value)} className="w-full bg-slate-900/50 border border-white/10 rounded-lg py-2 px-3 text-xs text-slate-200 outline-none">
+              {properties.map(p => (<option key={p} value={p}>{p}</option>))}
+            </select>
+          </div>
+          <div className="space-y-1.5">
+            <label className="text-[10px] text-slate-500 font-semibold">DISPLAY NAME PROPERTY</label>
+            <select value={nameProperty} onChange={(e) => setNameProperty(e.target.value)} className="w-full bg-slate-900/50 border border-white/10 rounded-lg py-2 px-3 text-xs text-slate-200 outline-none">
+              {properties.map(p => (<option key={p} value={p}>{p}</option>))}
+            </select>
+          </div>
+          <button onClick={handleApply} className="w-full flex items-center justify-center gap-2 py-2 rounded-lg bg-accent hover:bg-cyan-400 text-xs font-bold text-white transition-colors">
+            <Check size={14} /> Use These Boundaries
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
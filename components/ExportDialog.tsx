@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { X, Download, RotateCcw, AlertTriangle, CheckCircle, Copy } from 'lucide-react';
+import { GlassPanel } from './GlassPanel';
+import { ExportOptions, PageSize, DEFAULT_EXPORT_OPTIONS, EXPORT_FORMATS, PAGE_SIZES, PIXEL_WIDTH_RANGE, clampPixelWidth } from '../lib/exportMap';
+
+interface ExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onExport: (options: ExportOptions) => Promise<string | null>;
+}
+
+const DPI_OPTIONS = [72, 150, 300, 600];
+const WIDTH_PRESETS = [1200, 2400, 4800];
+const HTML_OUTPUTS: { value: ExportOptions['htmlOutput']; label: string }[] = [
+  { value: 'file', label: 'HTML file' },
+  { value: 'iframe', label: 'iframe' },
+  { value: 'script', label: 'Script' },
+];
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ isOpen, onClose, onExport }) => {
+  const [options, setOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const update = <K extends keyof ExportOptions>(key: K, value: ExportOptions[K]) => {
+    setOptions(prev => ({ ...prev, [key]: value }));
+    setNotice(null);
+  };
+
+  const isSnippet = options.format === 'html' && options.htmlOutput !== 'file';
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    setNotice(null);
+    try {
+      // A copied snippet keeps the dialog open so the confirmation can be read
+      const message = await onExport(options);
+      if (message) setNotice(message);
+      else onClose();
+    } catch (err) {
+      console.error('Export failed:', err);
+      setError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const toggleClass = (active: boolean) =>
+    `py-1.5 rounded-md text-xs transition-colors ${active ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-slate-200'}`;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 md:p-8 bg-black/60 backdrop-blur-sm animate-in fade-in duration-200">
+      <GlassPanel className="w-full max-w-md flex flex-col relative overflow-hidden bg-[#0b1121]/90">
+
+        {/* Header */}
+        <div className="p-6 border-b border-white/5 flex items-center justify-between shrink-0">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-accent/10 rounded-lg text-accent">
+              <Download size={24} />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-white">Export Map</h2>
+              <p className="text-xs text-slate-400">Map, title, legend, annotations and source</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full transition-colors">
+            <X size={20} className="text-slate-400" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5">
+          <div className="grid grid-cols-2 gap-2">
+            {EXPORT_FORMATS.map(f => (
+              <button key={f.value} onClick={() => update('format', f.value)} className={`p-3 rounded-xl border text-left transition-all ${options.format === f.value ? 'bg-slate-800 border-accent/50' : 'bg-slate-900/30 border-white/5 hover:border-white/20'}`}>
+                <span className="block text-sm font-bold text-white">{f.label}</span>
+                <span className="block text-[10px] text-slate-500 leading-tight mt-1">{f.description}</span>
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-1.5">
+            <label className="text-[10px] text-slate-500 font-semibold">EXTENT</label>
+            <div className="grid grid-cols-2 gap-1 p-1 rounded-lg bg-slate-900/50 border border-white/10">
+              <button onClick={() => update('resetExtent', false)} className={toggleClass(!options.resetExtent)}>Current view</button>
+              <button onClick={() => update('resetExtent', true)} className={toggleClass(options.resetExtent)}>Full extent</button>
+            </div>
+          </div>
+
+          {options.format === 'png' && (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <label className="text-[10px] text-slate-500 font-semibold">WIDTH (PX)</label>
+                <input type="number" min={PIXEL_WIDTH_RANGE[0]} max={PIXEL_WIDTH_RANGE[1]} step={100} value={options.pixelWidth} onChange={(e) => { const width = parseInt(e.target.value, 10); if (!isNaN(width)) update('pixelWidth', width); }} onBlur={() => update('pixelWidth', clampPixelWidth(options.pixelWidth))} className="w-full bg-slate-900/50 border border-white/10 rounded-lg py-2 px-3 text-xs text-slate-200 font-mono outline-none" />
+                <div className="flex gap-1">
+                  {WIDTH_PRESETS.map(w => (
+                    <button key={w} onClick={() => update('pixelWidth', w)} className={`px-2 py-0.5 rounded-full text-[10px] font-semibold border transition-colors ${options.pixelWidth === w ? 'bg-accent/20 border-accent/50 text-accent' : 'border-white/10 text-slate-400 hover:text-slate-200'}`}>{w}</button>
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-1.5">
+                <label className="text-[10px] text-slate-500 font-semibold">DPI</label>
+                <select value={options.dpi} onChange={(e) => update('dpi', parseInt(e.target.value, 10))} className="w-full bg-slate-900/50 border border-white/10 rounded-lg py-2 px-3 text-xs text-slate-200 outline-none">
+                  {DPI_OPTIONS.map(dpi => (<option key={dpi} value={dpi}>{dpi}</option>))}
+                </select>
+                <p className="text-[10px] text-slate-500">Prints {(options.pixelWidth / options.dpi).toFixed(1)} in wide</p>
+              </div>
+            </div>
+          )}
+
+          {options.format === 'pdf' && (
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1.5">
+                  <label className="text-[10px] text-slate-500 font-semibold">PAGE</label>
+                  <select value={options.pageSize} onChange={(e) => update('pageSize', e.target.value as PageSize)} className="w-full bg-slate-900/50 border border-white/10 rounded-lg py-2 px-3 text-xs text-slate-200 outline-none">
+                    {(Object.keys(PAGE_SIZES) as PageSize[]).map(size => (<option key={size} value={size}>{PAGE_SIZES[size].label}</option>))}
+                  </select>
+                </div>
+                <div className="space-y-1.5">
+                  <label className="text-[10px] text-slate-500 font-semibold">DPI</label>
+                  <select value={options.dpi} onChange={(e) => update('dpi', parseInt(e.target.value, 10))} className="w-full bg-slate-900/50 border border-white/10 rounded-lg py-2 px-3 text-xs text-slate-200 outline-none">
+                    {DPI_OPTIONS.map(dpi => (<option key={dpi} value={dpi}>{dpi}</option>))}
+                  </select>
+                </div>
+              </div>
+              <div className="space-y-1.5">
+                <label className="text-[10px] text-slate-500 font-semibold">ORIENTATION</label>
+                <div className="grid grid-cols-2 gap-1 p-1 rounded-lg bg-slate-900/50 border border-white/10">
+                  <button onClick={() => update('orientation', 'landscape')} className={toggleClass(options.orientation === 'landscape')}>Landscape</button>
+                  <button onClick={() => update('orientation', 'portrait')} className={toggleClass(options.orientation === 'portrait')}>Portrait</button>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {options.format === 'html' && (
+            <div className="space-y-1.5">
+              <label className="text-[10px] text-slate-500 font-semibold">OUTPUT</label>
+              <div className="grid grid-cols-3 gap-1 p-1 rounded-lg bg-slate-900/50 border border-white/10">
+                {HTML_OUTPUTS.map(o => (
+                  <button key={o.value} onClick={() => update('htmlOutput', o.value)} className={toggleClass(options.htmlOutput === o.value)}>{o.label}</button>
+                ))}
+              </div>
+              <p className="text-[10px] text-slate-500">
+                {isSnippet
+                  ? 'Copies an embed snippet with the whole map inline, so there is nothing to host.'
+                  : 'One file with the geometry, data, labels and tooltips. Opens offline in any browser.'}
+              </p>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-white/5 flex items-center justify-between gap-4 bg-slate-900/50 shrink-0">
+          <div className="text-xs min-w-0">
+            {error && <span className="text-amber-500 flex items-center gap-1.5"><AlertTriangle size={14} className="shrink-0" /> <span className="truncate">{error}</span></span>}
+            {notice && <span className="text-emerald-400 flex items-center gap-1.5"><CheckCircle size={14} className="shrink-0" /> <span className="truncate">{notice}</span></span>}
+          </div>
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="px-6 py-2 bg-accent hover:bg-cyan-400 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold rounded-lg transition-colors flex items-center gap-2 shrink-0"
+          >
+            {isExporting ? <RotateCcw size={16} className="animate-spin" /> : isSnippet ? <Copy size={16} /> : <Download size={16} />} {isSnippet ? 'Copy' : 'Export'}
+          </button>
+        </div>
+
+      </GlassPanel>
+    </div>
+  );
+};
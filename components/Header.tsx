@@ -1,8 +1,25 @@
 import React from 'react';
-import { Settings, Activity, Map as MapIcon } from 'lucide-react';
+import { Settings, Activity, Map as MapIcon, FolderOpen, Save, SaveAll, Link2, Undo2, Redo2, History } from 'lucide-react';
 import { GlassPanel } from './GlassPanel';
 
-export const Header: React.FC = () => {
+interface HeaderProps {
+  projectName: string | null;
+  onOpenProject: () => void;
+  onSaveProject: () => void;
+  onSaveProjectAs: () => void;
+  onShare: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  isHistoryOpen: boolean;
+  onToggleHistory: () => void;
+}
+
+export const Header: React.FC<HeaderProps> = ({
+  projectName, onOpenProject, onSaveProject, onSaveProjectAs, onShare,
+  canUndo, canRedo, onUndo, onRedo, isHistoryOpen, onToggleHistory
+}) => {
   return (
     <header className="px-4 pt-4 z-50">
       <GlassPanel className="h-16 flex items-center justify-between px-6">
@@ -42,6 +59,33 @@ export const Header: React.FC = () => {
 
         {/* Right Actions */}
         <div className="flex items-center gap-4">
+          <div className="flex items-center gap-1">
+            <button onClick={onUndo} disabled={!canUndo} className="p-2 rounded-full hover:bg-white/10 transition-colors text-slate-300 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent" title="Undo (Ctrl+Z)">
+              <Undo2 className="w-5 h-5" />
+            </button>
+            <button onClick={onRedo} disabled={!canRedo} className="p-2 rounded-full hover:bg-white/10 transition-colors text-slate-300 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent" title="Redo (Ctrl+Shift+Z)">
+              <Redo2 className="w-5 h-5" />
+            </button>
+            <button onClick={onToggleHistory} className={`p-2 rounded-full transition-colors ${isHistoryOpen ? 'bg-white/10 text-white' : 'text-slate-300 hover:bg-white/10 hover:text-white'}`} title="History">
+              <History className="w-5 h-5" />
+            </button>
+          </div>
+          <div className="h-6 w-px bg-white/10" />
+          <div className="flex items-center gap-1">
+            <span className="hidden lg:block mr-2 text-xs font-mono text-slate-400 truncate max-w-[200px]" title={projectName || undefined}>{projectName || 'Untitled project'}</span>
+            <button onClick={onOpenProject} className="p-2 rounded-full hover:bg-white/10 transition-colors text-slate-300 hover:text-white" title="Open project (Ctrl+O)">
+              <FolderOpen className="w-5 h-5" />
+            </button>
+            <button onClick={onSaveProject} className="p-2 rounded-full hover:bg-white/10 transition-colors text-slate-300 hover:text-white" title="Save project (Ctrl+S)">
+              <Save className="w-5 h-5" />
+            </button>
+            <button onClick={onSaveProjectAs} className="p-2 rounded-full hover:bg-white/10 transition-colors text-slate-300 hover:text-white" title="Save project as (Ctrl+Shift+S)">
+              <SaveAll className="w-5 h-5" />
+            </button>
+            <button onClick={onShare} className="p-2 rounded-full hover:bg-white/10 transition-colors text-slate-300 hover:text-white" title="Copy a link to this map">
+              <Link2 className="w-5 h-5" />
+            </button>
+          </div>
           <button className="p-2 rounded-full hover:bg-white/10 transition-colors text-slate-300 hover:text-white group">
             <Settings className="w-5 h-5 group-hover:rotate-90 transition-transform duration-500" />
           </button>
@@ -0,0 +1,43 @@
+import React from 'react';
+import { History, X } from 'lucide-react';
+import { GlassPanel } from './GlassPanel';
+import { HistoryEntry } from '../lib/history';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  index: number;
+  onJump: (index: number) => void;
+  onClose: () => void;
+}
+
+const formatTime = (time: number) =>
+  time ? new Date(time).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit', second: '2-digit' }) : '';
+
+// Newest first; steps after the current one are undone and can still be redone by clicking them
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ entries, index, onJump, onClose }) => (
+  <GlassPanel className="w-72 max-h-[60vh] flex flex-col overflow-hidden bg-[#0b1121]/90 animate-in fade-in slide-in-from-top-2 duration-200">
+    <div className="px-4 py-3 border-b border-white/5 flex items-center justify-between shrink-0">
+      <div className="flex items-center gap-2 text-slate-400 text-xs font-bold uppercase tracking-wider">
+        <History size={12} />
+        <span>History</span>
+      </div>
+      <button onClick={onClose} className="p-1 hover:bg-white/10 rounded-full transition-colors">
+        <X size={14} className="text-slate-400" />
+      </button>
+    </div>
+    <div className="overflow-y-auto custom-scrollbar p-2 space-y-0.5">
+      {entries.map((entry, i) => ({ entry, i })).reverse().map(({ entry, i }) => (
+        <button
+          key={`${i}-${entry.time}`}
+          onClick={() => onJump(i)}
+          className={`w-full flex items-center justify-between gap-3 px-3 py-2 rounded-lg text-left transition-colors ${
+            i === index ? 'bg-accent/15 text-white' : i > index ? 'text-slate-600 hover:bg-white/5' : 'text-slate-300 hover:bg-white/5'
+          }`}
+        >
+          <span className={`text-xs truncate ${i > index ? 'line-through decoration-slate-700' : ''}`}>{entry.label}</span>
+          <span className="text-[10px] font-mono text-slate-500 shrink-0">{formatTime(entry.time)}</span>
+        </button>
+      ))}
+    </div>
+  </GlassPanel>
+);
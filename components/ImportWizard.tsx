@@ -0,0 +1,441 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, Table, Columns, CheckCircle, AlertTriangle, FileText, HelpCircle, RotateCcw } from 'lucide-react';
+import { GlassPanel } from './GlassPanel';
+import { MapDataState } from '../types';
+import { getCountryOptions } from '../lib/countryMapping';
+import { BoundaryLayer, getRegionName } from '../lib/boundaries';
+import { Admin1Layer, loadAdmin1Layer, detectSubdivisionCountry } from '../lib/admin1';
+import {
+  ImportSource, ParsedTable, ColumnMapping, ValueColumnMapping, MatchIssue, ImportCodeType, Delimiter, DecimalSeparator, TimeLayout,
+  DELIMITERS, CODE_TYPES, TIME_LAYOUTS,
+  detectDelimiter, detectDecimalSeparator, parseDelimited, suggestMapping,
+  detectCodeType, detectHeaderRow, tableFromRows, isNumericColumn, applyMapping,
+  detectTimeColumn, getPeriodColumns
+} from '../lib/dataImport';
+import { formatPeriod, normalizePeriod } from '../lib/timeSeries';
+
+interface ImportWizardProps {
+  isOpen: boolean;
+  source: ImportSource | null;
+  onClose: () => void;
+  onApply: (data: MapDataState, source: ImportSource, regions: Admin1Layer | null, append: boolean) => void;
+  boundaries: BoundaryLayer | null;
+  admin1: Admin1Layer | null;
+  canAppend: boolean; // There is a dataset the imported metrics can be added to
+}
+
+const PREVIEW_ROWS = 8;
+const COUNTRY_OPTIONS = getCountryOptions();
+
+const ISSUE_LABELS: Record<MatchIssue['kind'], string> = {
+  unmatched: 'No match',
+  ambiguous: 'Ambiguous',
+  partial: 'Partial match',
+};
+
+export const ImportWizard: React.FC<ImportWizardProps> = ({ isOpen, source, onClose, onApply, boundaries, admin1, canAppend }) => {
+  const [delimiter, setDelimiter] = useState<Delimiter>(',');
+  const [sheetIndex, setSheetIndex] = useState(0);
+  const [headerRow, setHeaderRow] = useState(0);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [append, setAppend] = useState(true);
+
+  // Admin-1 target: '' imports countries, otherwise the states/provinces of that country
+  const [regionCountryId, setRegionCountryId] = useState('');
+  const [regionLayer, setRegionLayer] = useState<Admin1Layer | null>(null);
+  const [regionError, setRegionError] = useState<string | null>(null);
+  const layer: BoundaryLayer | null = boundaries || regionLayer;
+  const regionLoading = !!regionCountryId && !regionLayer && !regionError;
+
+  const buildTable = (src: ImportSource, delim: Delimiter, sheet: number, header: number): ParsedTable => {
+    if (src.sheets && src.sheets[sheet]) return tableFromRows(src.sheets[sheet].rows, header);
+    if (src.table) return src.table;
+    return parseDelimited(src.text || '', delim);
+  };
+
+  // Re-detect format whenever a new file comes in
+  useEffect(() => {
+    if (!source) return;
+    const detected = source.text !== undefined ? detectDelimiter(source.text) : ',';
+    const header = source.sheets?.[0] ? detectHeaderRow(source.sheets[0].rows) : 0;
+    setDelimiter(detected);
+    setSheetIndex(0);
+    setHeaderRow(header);
+    // Templates bring a complete dataset, so they replace rather than extend
+    setAppend(!source.template);
+    const table = buildTable(source, detected, 0, header);
+    const suggested = suggestMapping(table, detectDecimalSeparator(table), source.valueMeta, boundaries);
+    setMapping(suggested);
+    // ISO 3166-2 codes pick their country; otherwise a drilled-down map suggests its own country
+    setRegionCountryId(boundaries ? '' : detectSubdivisionCountry(table.rows.map(r => r[suggested.geoColumn])) || admin1?.countryId || '');
+  }, [source]);
+
+  useEffect(() => {
+    setRegionError(null);
+    setRegionLayer(null);
+    if (!regionCountryId) return;
+    let cancelled = false;
+    loadAdmin1Layer(regionCountryId)
+      .then(loaded => { if (!cancelled) setRegionLayer(loaded); })
+      .catch(error => {
+        if (!cancelled) setRegionError(error instanceof Error ? error.message : 'Failed to load regions');
+      });
+    return () => { cancelled = true; };
+  }, [regionCountryId]);
+
+  const table: ParsedTable | null = useMemo(() => {
+    if (!source) return null;
+    return buildTable(source, delimiter, sheetIndex, headerRow);
+  }, [source, delimiter, sheetIndex, headerRow]);
+
+  // Switching between countries and regions changes what the geography column is matched against
+  useEffect(() => {
+    setMapping(prev => {
+      if (!prev || !table || (prev.codeType === 'boundary') === !!layer) return prev;
+      return {
+        ...prev,
+        codeType: layer ? 'boundary' : detectCodeType(table.rows.map(r => r[prev.geoColumn])),
+        overrides: {},
+      };
+    });
+  }, [regionLayer, table]);
+
+  const result = useMemo(() => {
+    if (!table || !mapping || !mapping.geoColumn || mapping.valueColumns.length === 0) return null;
+    return applyMapping(table, mapping, layer);
+  }, [table, mapping, layer]);
+
+  if (!isOpen || !source || !table || !mapping) return null;
+
+  // Changing how the table is read invalidates the column choices, so re-suggest them
+  const remap = (delim: Delimiter, sheet: number, header: number) => {
+    const reparsed = buildTable(source, delim, sheet, header);
+    setMapping(suggestMapping(reparsed, detectDecimalSeparator(reparsed), source.valueMeta, layer));
+  };
+
+  const handleDelimiterChange = (value: Delimiter) => {
+    setDelimiter(value);
+    remap(value, sheetIndex, headerRow);
+  };
+
+  const handleSheetChange = (index: number) => {
+    const header = detectHeaderRow(source.sheets?.[index]?.rows || []);
+    setSheetIndex(index);
+    setHeaderRow(header);
+    remap(delimiter, index, header);
+  };
+
+  const handleHeaderRowChange = (row: number) => {
+    const maxRow = Math.max(0, (source.sheets?.[sheetIndex]?.rows.length || 1) - 1);
+    const clamped = Math.min(maxRow, Math.max(0, row));
+    setHeaderRow(clamped);
+    remap(delimiter, sheetIndex, clamped);
+  };
+
+  const handleGeoColumnChange = (column: string) => {
+    setMapping({
+      ...mapping,
+      geoColumn: column,
+      codeType: layer ? 'boundary' : detectCodeType(table.rows.map(r => r[column])),
+      valueColumns: mapping.valueColumns.filter(v => v.column !== column),
+    });
+  };
+
+  const handleTimeLayoutChange = (timeLayout: TimeLayout) => {
+    if (timeLayout === 'wide') {
+      const first = mapping.valueColumns[0];
+      setMapping({
+        ...mapping,
+        timeLayout,
+        timeColumn: undefined,
+        valueColumns: getPeriodColumns(table)
+          .filter(c => c !== mapping.geoColumn && isNumericColumn(table, c, mapping.decimalSeparator))
+          .map(c => ({ column: c, metric: c, unit: '' })),
+        seriesMetric: mapping.seriesMetric || { metric: first?.metric || 'Value', unit: first?.unit || '' },
+      });
+      return;
+    }
+    const timeColumn = timeLayout === 'long'
+      ? detectTimeColumn(table) || table.columns.find(c => c !== mapping.geoColumn)
+      : undefined;
+    setMapping({
+      ...mapping,
+      timeLayout,
+      timeColumn,
+      // Period columns picked for the wide layout are not metrics of their own
+      valueColumns: mapping.timeLayout === 'wide' ? [] : mapping.valueColumns.filter(v => v.column !== timeColumn),
+    });
+  };
+
+  const handleTimeColumnChange = (column: string) => {
+    setMapping({ ...mapping, timeColumn: column, valueColumns: mapping.valueColumns.filter(v => v.column !== column) });
+  };
+
+  const toggleValueColumn = (column: string) => {
+    const exists = mapping.valueColumns.some(v => v.column === column);
+    setMapping({
+      ...mapping,
+      valueColumns: exists
+        ? mapping.valueColumns.filter(v => v.column !== column)
+        // Text columns would lose every row to number parsing, so they start out categorical
+        : [...mapping.valueColumns, { column, metric: column, unit: '', categorical: mapping.timeLayout !== 'wide' && !isNumericColumn(table, column, mapping.decimalSeparator) }],
+    });
+  };
+
+  const updateValueColumn = <K extends 'metric' | 'unit' | 'categorical'>(column: string, key: K, value: ValueColumnMapping[K]) => {
+    setMapping({
+      ...mapping,
+      valueColumns: mapping.valueColumns.map(v => v.column === column ? { ...v, [key]: value } : v),
+    });
+  };
+
+  const setOverride = (raw: string, id: string) => {
+    setMapping({ ...mapping, overrides: { ...mapping.overrides, [raw]: id } });
+  };
+
+  const issueValue = (issue: MatchIssue) =>
+    mapping.overrides && issue.raw in mapping.overrides ? mapping.overrides[issue.raw] : issue.suggestedId || '';
+
+  const handleApply = () => {
+    if (!result?.data || regionLoading) return;
+    onApply(result.data, source, regionLayer, canAppend && append);
+  };
+
+  const isWide = mapping.timeLayout === 'wide';
+  const candidateColumns = table.columns.filter(c => c !== mapping.geoColumn && !(mapping.timeLayout === 'long' && c === mapping.timeColumn));
+  const regionOptions = mapping.codeType === 'boundary' && layer
+    ? layer.features.map(f => ({ id: f.id, name: f.properties.name })).sort((a, b) => a.name.localeCompare(b.name))
+    : COUNTRY_OPTIONS;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 md:p-8 bg-black/60 backdrop-blur-sm animate-in fade-in duration-200">
+      <GlassPanel className="w-full max-w-5xl h-[85vh] flex flex-col relative overflow-hidden bg-[#0b1121]/90">
+
+        {/* Header */}
+        <div className="p-6 border-b border-white/5 flex items-center justify-between shrink-0">
+          <div className="flex items-center gap-3">
+             <div className="p-2 bg-accent/10 rounded-lg text-accent">
+               <Table size={24} />
+             </div>
+             <div>
+               <h2 className="text-xl font-bold text-white">Import Data</h2>
+               <p className="text-xs text-slate-400 flex items-center gap-1.5"><FileText size={12} /> {source.fileName} · {table.rows.length} rows</p>
+             </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full transition-colors">
+            <X size={20} className="text-slate-400" />
+          </button>
+        </div>
+
+        {/* Format Options */}
+        <div className="p-4 border-b border-white/5 flex flex-wrap gap-4 bg-slate-900/50 shrink-0">
+          {source.sheets && source.sheets.length > 0 && (
+            <>
+              <div className="space-y-1.5">
+                 <label className="text-[10px] text-slate-500 font-semibold">SHEET</label>
+                 <select value={sheetIndex} onChange={(e) => handleSheetChange(parseInt(e.target.value, 10))} className="block bg-slate-900 border border-white/10 rounded-lg py-2 px-3 text-xs text-slate-200 outline-none">
+                   {source.sheets.map((sheet, i) => (<option key={sheet.name} value={i}>{sheet.name}</option>))}
+                 </select>
+              </div>
+              <div className="space-y-1.5">
+                 <label className="text-[10px] text-slate-500 font-semibold">HEADER ROW</label>
+                 <input type="number" min={1} value={headerRow + 1} onChange={(e) => handleHeaderRowChange(parseInt(e.target.value, 10) - 1 || 0)} className="block w-20 bg-slate-900 border border-white/10 rounded-lg py-2 px-3 text-xs text-slate-200 outline-none" />
+              </div>
+            </>
+          )}
+          {source.text !== undefined && (
+            <div className="space-y-1.5">
+               <label className="text-[10px] text-slate-500 font-semibold">DELIMITER</label>
+               <select value={delimiter} onChange={(e) => handleDelimiterChange(e.target.value as Delimiter)} className="block bg-slate-900 border border-white/10 rounded-lg py-2 px-3 text-xs text-slate-200 outline-none">
+                 {DELIMITERS.map(d => (<option key={d.label} value={d.value}>{d.label}</option>))}
+               </select>
+            </div>
+          )}
+          <div className="space-y-1.5">
+             <label className="text-[10px] text-slate-500 font-semibold">DECIMAL SEPARATOR</label>
+             <select value={mapping.decimalSeparator} onChange={(e) => setMapping({ ...mapping, decimalSeparator: e.target.value as DecimalSeparator })} className="block bg-slate-900 border border-white/10 rounded-lg py-2 px-3 text-xs text-slate-200 outline-none">
+               <option value=".">Dot (1,234.5)</option>
+               <option value=",">Comma (1.234,5)</option>
+             </select>
+          </div>
+          {!boundaries && (
+            <div className="space-y-1.5">
+               <label className="text-[10px] text-slate-500 font-semibold">LEVEL</label>
+               <select value={regionCountryId} onChange={(e) => setRegionCountryId(e.target.value)} className="block max-w-[220px] bg-slate-900 border border-white/10 rounded-lg py-2 px-3 text-xs text-slate-200 outline-none">
+                 <option value="">Countries</option>
+                 <optgroup label="States / provinces of">
+                   {COUNTRY_OPTIONS.map(c => (<option key={c.id} value={c.id}>{c.name}</option>))}
+                 </optgroup>
+               </select>
+            </div>
+          )}
+          <div className="space-y-1.5">
+             <label className="text-[10px] text-slate-500 font-semibold">GEOGRAPHY COLUMN</label>
+             <select value={mapping.geoColumn} onChange={(e) => handleGeoColumnChange(e.target.value)} className="block bg-slate-900 border border-white/10 rounded-lg py-2 px-3 text-xs text-slate-200 outline-none">
+               {table.columns.map(c => (<option key={c} value={c}>{c}</option>))}
+             </select>
+          </div>
+          <div className="space-y-1.5">
+             <label className="text-[10px] text-slate-500 font-semibold">CODE TYPE</label>
+             <select value={mapping.codeType} onChange={(e) => setMapping({ ...mapping, codeType: e.target.value as ImportCodeType })} className="block bg-slate-900 border border-white/10 rounded-lg py-2 px-3 text-xs text-slate-200 outline-none">
+               {CODE_TYPES.filter(t => t.value !== 'boundary' || layer).map(t => (<option key={t.value} value={t.value}>{t.label}</option>))}
+             </select>
+          </div>
+          <div className="space-y-1.5">
+             <label className="text-[10px] text-slate-500 font-semibold">TIME</label>
+             <select value={mapping.timeLayout} onChange={(e) => handleTimeLayoutChange(e.target.value as TimeLayout)} className="block bg-slate-900 border border-white/10 rounded-lg py-2 px-3 text-xs text-slate-200 outline-none">
+               {TIME_LAYOUTS.map(t => (<option key={t.value} value={t.value}>{t.label}</option>))}
+             </select>
+          </div>
+          {mapping.timeLayout === 'long' && (
+            <div className="space-y-1.5">
+               <label className="text-[10px] text-slate-500 font-semibold">TIME COLUMN</label>
+               <select value={mapping.timeColumn || ''} onChange={(e) => handleTimeColumnChange(e.target.value)} className="block bg-slate-900 border border-white/10 rounded-lg py-2 px-3 text-xs text-slate-200 outline-none">
+                 {table.columns.filter(c => c !== mapping.geoColumn).map(c => (<option key={c} value={c}>{c}</option>))}
+               </select>
+            </div>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-6 space-y-6">
+
+          {regionError && (
+            <div className="p-3 rounded-xl bg-red-500/10 border border-red-500/20 flex gap-3">
+              <AlertTriangle size={16} className="text-red-500 shrink-0 mt-0.5" />
+              <p className="text-[10px] text-red-400 leading-relaxed">{regionError}</p>
+            </div>
+          )}
+
+          {/* Table Preview */}
+          <div className="rounded-xl border border-white/5 overflow-x-auto">
+             <table className="w-full text-xs">
+               <thead className="bg-slate-900/80">
+                 <tr>
+                   {table.columns.map(c => (
+                     <th key={c} className={`text-left px-3 py-2 font-semibold whitespace-nowrap ${c === mapping.geoColumn ? 'text-accent' : mapping.valueColumns.some(v => v.column === c) ? 'text-emerald-400' : 'text-slate-400'}`}>{c}</th>
+                   ))}
+                 </tr>
+               </thead>
+               <tbody>
+                 {table.rows.slice(0, PREVIEW_ROWS).map((row, i) => (
+                   <tr key={i} className="border-t border-white/5">
+                     {table.columns.map(c => (<td key={c} className="px-3 py-1.5 text-slate-300 font-mono whitespace-nowrap">{row[c]}</td>))}
+                   </tr>
+                 ))}
+               </tbody>
+             </table>
+          </div>
+
+          {/* Value Columns */}
+          <div className="space-y-3">
+             <div className="flex items-center gap-2 text-slate-400 text-xs font-bold uppercase tracking-wider">
+               <Columns size={12} />
+               <span>{isWide ? 'Period Columns' : 'Value Columns'}</span>
+             </div>
+             {isWide && (
+               <div className="flex flex-wrap gap-3">
+                 <input type="text" placeholder="Metric name" value={mapping.seriesMetric?.metric || ''} onChange={(e) => setMapping({ ...mapping, seriesMetric: { metric: e.target.value, unit: mapping.seriesMetric?.unit || '' } })} className="flex-1 min-w-[140px] bg-slate-900/50 border border-white/10 rounded-lg p-2 text-xs text-slate-200 outline-none" />
+                 <input type="text" placeholder="Unit (e.g. %, USD)" value={mapping.seriesMetric?.unit || ''} onChange={(e) => setMapping({ ...mapping, seriesMetric: { metric: mapping.seriesMetric?.metric || '', unit: e.target.value } })} className="w-32 bg-slate-900/50 border border-white/10 rounded-lg p-2 text-xs text-slate-200 outline-none" />
+               </div>
+             )}
+             <div className="grid gap-2">
+               {candidateColumns.map(column => {
+                 const selected = mapping.valueColumns.find(v => v.column === column);
+                 const numeric = isNumericColumn(table, column, mapping.decimalSeparator);
+                 return (
+                   <div key={column} className={`flex flex-wrap items-center gap-3 p-3 rounded-lg border transition-all ${selected ? 'bg-slate-800 border-accent/30' : 'bg-slate-900/40 border-white/5'}`}>
+                     <label className="flex items-center gap-2 min-w-[160px] cursor-pointer">
+                       <input type="checkbox" checked={!!selected} onChange={() => toggleValueColumn(column)} className="accent-cyan-500" />
+                       <span className="text-xs text-slate-200">{column}</span>
+                       {!numeric && <span className={`text-[10px] ${selected?.categorical ? 'text-slate-500' : 'text-amber-500'}`}>text</span>}
+                       {isWide && selected && <span className="text-[10px] text-slate-500">{formatPeriod(normalizePeriod(column) || '') || 'not a period'}</span>}
+                     </label>
+                     {selected && !isWide && (
+                       <>
+                         <input type="text" placeholder="Metric name" value={selected.metric} onChange={(e) => updateValueColumn(column, 'metric', e.target.value)} className="flex-1 min-w-[140px] bg-slate-900/50 border border-white/10 rounded-lg p-2 text-xs text-slate-200 outline-none" />
+                         {!selected.categorical && <input type="text" placeholder="Unit (e.g. %, USD)" value={selected.unit} onChange={(e) => updateValueColumn(column, 'unit', e.target.value)} className="w-32 bg-slate-900/50 border border-white/10 rounded-lg p-2 text-xs text-slate-200 outline-none" />}
+                         <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer" title="Color each distinct value instead of classing numbers">
+                           <input type="checkbox" checked={!!selected.categorical} onChange={(e) => updateValueColumn(column, 'categorical', e.target.checked)} className="accent-cyan-500" />
+                           Categorical
+                         </label>
+                       </>
+                     )}
+                   </div>
+                 );
+               })}
+             </div>
+          </div>
+
+          {/* Match Review */}
+          {result && result.issues.length > 0 && (
+            <div className="space-y-3">
+               <div className="flex items-center gap-2 text-slate-400 text-xs font-bold uppercase tracking-wider">
+                 <HelpCircle size={12} />
+                 <span>Review Matches</span>
+                 <span className="text-amber-500 normal-case font-normal">{result.issues.length} values need attention</span>
+               </div>
+               <div className="grid gap-2">
+                 {result.issues.map(issue => (
+                   <div key={issue.raw} className="flex flex-wrap items-center gap-3 p-3 rounded-lg bg-slate-900/40 border border-white/5">
+                     <div className="min-w-[180px] flex-1">
+                       <span className="text-xs font-mono text-slate-200">{issue.raw}</span>
+                       <span className={`ml-2 text-[10px] ${issue.kind === 'unmatched' ? 'text-red-400' : 'text-amber-500'}`}>
+                         {ISSUE_LABELS[issue.kind]}{issue.kind === 'partial' ? ` · ${Math.round(issue.confidence * 100)}%` : ''}
+                       </span>
+                       {issue.rowCount > 1 && <span className="ml-2 text-[10px] text-slate-500">{issue.rowCount} rows</span>}
+                     </div>
+                     <select value={issueValue(issue)} onChange={(e) => setOverride(issue.raw, e.target.value)} className="w-64 bg-slate-900 border border-white/10 rounded-lg py-2 px-3 text-xs text-slate-200 outline-none">
+                       <option value="">— Skip row —</option>
+                       {issue.candidates.length > 0 && (
+                         <optgroup label="Candidates">
+                           {issue.candidates.map(id => (<option key={id} value={id}>{getRegionName(id, mapping.codeType === 'boundary' ? layer : null) || id}</option>))}
+                         </optgroup>
+                       )}
+                       <optgroup label={mapping.codeType === 'boundary' ? (regionLayer ? 'All regions' : 'All features') : 'All countries'}>
+                         {regionOptions.map(c => (<option key={c.id} value={c.id}>{c.name}</option>))}
+                       </optgroup>
+                     </select>
+                   </div>
+                 ))}
+               </div>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-white/5 flex items-center justify-between gap-4 bg-slate-900/50 shrink-0">
+          <div className="text-xs">
+            {regionLoading ? (
+              <span className="text-slate-400 flex items-center gap-1.5"><RotateCcw size={14} className="animate-spin" /> Loading regions...</span>
+            ) : result && result.matchedCount > 0 ? (
+              <span className="text-emerald-400 flex items-center gap-1.5"><CheckCircle size={14} /> {result.matchedCount} {mapping.codeType === 'boundary' ? (regionLayer ? 'regions' : 'features') : 'countries'} matched{result.data?.series ? ` across ${result.data.series.periods.length} periods` : ''}{result.data?.categories ? ` in ${new Set(Object.values(result.data.categories)).size} categories` : ''}</span>
+            ) : (
+              <span className="text-amber-500 flex items-center gap-1.5"><AlertTriangle size={14} /> Select a geography column and at least one value column</span>
+            )}
+            {result && result.issues.length > 0 && (
+              <span className="block text-[10px] text-slate-500 mt-1">
+                {result.issues.filter(i => !issueValue(i)).length} unresolved values will be skipped
+              </span>
+            )}
+          </div>
+          <div className="flex items-center gap-4">
+            {canAppend && (
+              <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+                <input type="checkbox" checked={append} onChange={(e) => setAppend(e.target.checked)} className="accent-cyan-500" />
+                Add to current metrics
+              </label>
+            )}
+            <button
+              onClick={handleApply}
+              disabled={!result?.data || regionLoading}
+              className="px-6 py-2 bg-accent hover:bg-cyan-400 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold rounded-lg transition-colors flex items-center gap-2"
+            >
+              <CheckCircle size={16} /> Import
+            </button>
+          </div>
+        </div>
+
+      </GlassPanel>
+    </div>
+  );
+};
@@ -0,0 +1,216 @@
+import React, { ReactNode, useId } from 'react';
+import { LegendSettings } from '../types';
+import { formatBreak } from '../lib/classification';
+import { LegendModel, LegendEntry, estimateTextWidth } from '../lib/legend';
+
+interface MapLegendProps {
+  model: LegendModel;
+  settings: LegendSettings;
+}
+
+// Laid-out piece of the legend, drawn from its own top-left corner
+interface Block {
+  node: ReactNode;
+  width: number;
+  height: number;
+}
+
+const FONT = 9;
+const TITLE_FONT = 10;
+const PAD = 10;
+const GAP = 8;
+const BAR = 10; // Thickness of the colour bar
+const SWATCH = 10;
+export const LEGEND_TEXT_COLOR = '#64748b';
+export const LEGEND_FONT_FAMILY = 'Inter, sans-serif';
+const TEXT_COLOR = LEGEND_TEXT_COLOR;
+const TITLE_COLOR = '#334155';
+const MAX_ROW_WIDTH = 460;
+
+const Label: React.FC<{ x: number; y: number; anchor?: 'start' | 'middle' | 'end'; children: ReactNode }> = ({ x, y, anchor = 'start', children }) => (
+  <text x={x} y={y} dy=".35em" textAnchor={anchor} fill={TEXT_COLOR} fontSize={FONT} fontWeight={700} fontFamily={LEGEND_FONT_FAMILY}>{children}</text>
+);
+
+const Swatch: React.FC<{ x: number; y: number; entry: LegendEntry }> = ({ x, y, entry }) => (
+  <rect x={x} y={y} width={SWATCH} height={SWATCH} rx={2} fill={entry.color}>
+    <title>{entry.detail || entry.label}</title>
+  </rect>
+);
+
+const valuePosition = (breaks: number[]) => {
+  const min = breaks[0];
+  const span = breaks[breaks.length - 1] - min || 1;
+  return (value: number) => (value - min) / span;
+};
+
+// Stops at each class's midpoint so the ramp passes through the colours the map actually uses
+const RampGradient: React.FC<{ id: string; model: LegendModel; vertical: boolean }> = ({ id, model, vertical }) => {
+  const breaks = model.breaks!;
+  const position = valuePosition(breaks);
+  return (
+    <linearGradient id={id} x1="0" y1={vertical ? 1 : 0} x2={vertical ? 0 : 1} y2="0">
+      <stop offset={0} stopColor={model.entries[0].color} />
+      {model.entries.map((entry, i) => (
+        <stop key={i} offset={position((breaks[i] + breaks[i + 1]) / 2)} stopColor={entry.color} />
+      ))}
+      <stop offset={1} stopColor={model.entries[model.entries.length - 1].color} />
+    </linearGradient>
+  );
+};
+
+// Equal-width classes with the break values under their boundaries; a diverging scale marks its midpoint
+function steppedBar(model: LegendModel): Block {
+  const breaks = model.breaks!;
+  const labels = breaks.map(formatBreak);
+  const cell = Math.max(28, ...labels.map(l => estimateTextWidth(l, FONT) + 6));
+  const inset = estimateTextWidth(labels[0], FONT) / 2;
+  const outset = estimateTextWidth(labels[labels.length - 1], FONT) / 2;
+  const width = model.entries.length * cell;
+  return {
+    width: inset + width + outset,
+    height: BAR + 4 + FONT,
+    node: (
+      <g transform={`translate(${inset}, 0)`}>
+        {model.entries.map((entry, i) => (
+          <rect key={i} x={i * cell} y={0} width={cell} height={BAR} fill={entry.color}><title>{entry.label}</title></rect>
+        ))}
+        {labels.map((label, i) => (<Label key={i} x={i * cell} y={BAR + 4 + FONT / 2} anchor="middle">{label}</Label>))}
+        {model.midpointPosition !== undefined && (
+          <line x1={model.midpointPosition * width} x2={model.midpointPosition * width} y1={-3} y2={BAR + 1} stroke={TITLE_COLOR} strokeWidth={1.5} strokeLinecap="round">
+            <title>{`Midpoint: ${formatBreak(model.midpoint!)}`}</title>
+          </line>
+        )}
+      </g>
+    ),
+  };
+}
+
+// One row per class, with its value range
+function steppedColumn(entries: LegendEntry[]): Block {
+  const row = SWATCH + 5;
+  return {
+    width: SWATCH + 6 + Math.max(0, ...entries.map(e => estimateTextWidth(e.label, FONT))),
+    height: entries.length * row - 5,
+    node: entries.map((entry, i) => (
+      <g key={i}>
+        <Swatch x={0} y={i * row} entry={entry} />
+        <Label x={SWATCH + 6} y={i * row + SWATCH / 2}>{entry.label}</Label>
+      </g>
+    )),
+  };
+}
+
+// Categories flow left to right and wrap
+function swatchRow(entries: LegendEntry[]): Block {
+  const row = SWATCH + 6;
+  let x = 0;
+  let y = 0;
+  let width = 0;
+  const items = entries.map((entry, i) => {
+    const itemWidth = SWATCH + 5 + estimateTextWidth(entry.label, FONT);
+    if (x > 0 && x + itemWidth > MAX_ROW_WIDTH) {
+      x = 0;
+      y += row;
+    }
+    const node = (
+      <g key={i}>
+        <Swatch x={x} y={y} entry={entry} />
+        <Label x={x + SWATCH + 5} y={y + SWATCH / 2}>{entry.label}</Label>
+      </g>
+    );
+    width = Math.max(width, x + itemWidth);
+    x += itemWidth + 12;
+    return node;
+  });
+  return { width, height: y + SWATCH, node: items };
+}
+
+function ramp(model: LegendModel, gradientId: string, vertical: boolean): Block {
+  const breaks = model.breaks!;
+  const position = valuePosition(breaks);
+  const length = Math.max(vertical ? 120 : 160, model.entries.length * (vertical ? 20 : 28));
+  const ticks = [breaks[0], ...(model.midpoint !== undefined ? [model.midpoint] : []), breaks[breaks.length - 1]];
+  const labels = ticks.map(formatBreak);
+
+  if (vertical) {
+    const at = (value: number) => length * (1 - position(value));
+    return {
+      width: BAR + 6 + Math.max(...labels.map(l => estimateTextWidth(l, FONT))),
+      height: length,
+      node: (
+        <>
+          <defs><RampGradient id={gradientId} model={model} vertical /></defs>
+          <rect x={0} y={0} width={BAR} height={length} rx={2} fill={`url(#${gradientId})`} />
+          {breaks.slice(1, -1).map((b, i) => (<line key={i} x1={0} x2={BAR} y1={at(b)} y2={at(b)} stroke="#fff" strokeOpacity={0.6} />))}
+          {ticks.map((t, i) => (<Label key={i} x={BAR + 6} y={at(t)}>{labels[i]}</Label>))}
+        </>
+      ),
+    };
+  }
+
+  const inset = estimateTextWidth(labels[0], FONT) / 2;
+  const outset = estimateTextWidth(labels[labels.length - 1], FONT) / 2;
+  const at = (value: number) => length * position(value);
+  return {
+    width: inset + length + outset,
+    height: BAR + 4 + FONT,
+    node: (
+      <g transform={`translate(${inset}, 0)`}>
+        <defs><RampGradient id={gradientId} model={model} vertical={false} /></defs>
+        <rect x={0} y={0} width={length} height={BAR} rx={2} fill={`url(#${gradientId})`} />
+        {breaks.slice(1, -1).map((b, i) => (<line key={i} x1={at(b)} x2={at(b)} y1={0} y2={BAR} stroke="#fff" strokeOpacity={0.6} />))}
+        {ticks.map((t, i) => (<Label key={i} x={at(t)} y={BAR + 4 + FONT / 2} anchor="middle">{labels[i]}</Label>))}
+      </g>
+    ),
+  };
+}
+
+// The white card every legend sits on
+export const LegendFrame: React.FC<{ width: number; height: number }> = ({ width, height }) => (
+  <rect x={0.5} y={0.5} width={width - 1} height={height - 1} rx={12} fill="#fff" fillOpacity={0.9} stroke="#fff" />
+);
+
+// SVG text does not truncate itself
+export const truncateLabel = (text: string, maxWidth: number, fontSize: number) => {
+  const maxChars = Math.max(1, Math.floor(maxWidth / (fontSize * 0.6)));
+  return text.length > maxChars ? `${text.slice(0, maxChars - 1)}…` : text;
+};
+
+// A self-contained SVG (inline colours and fonts only), tagged as an export layer so exports place it as drawn
+export const MapLegend: React.FC<MapLegendProps> = ({ model, settings }) => {
+  const gradientId = `legend-ramp-${useId().replace(/[^a-zA-Z0-9]/g, '')}`;
+  const vertical = settings.orientation === 'vertical';
+  const numeric = model.breaks !== undefined && model.entries.length > 0;
+
+  const body = !numeric
+    ? (vertical ? steppedColumn(model.entries) : swatchRow(model.entries))
+    : settings.kind === 'continuous'
+      ? ramp(model, gradientId, vertical)
+      : vertical ? steppedColumn(model.entries) : steppedBar(model);
+
+  // No data sits apart from the scale: to its right, or below it
+  const noData = model.noData ? steppedColumn([model.noData]) : null;
+  const bodyWidth = noData && !vertical ? body.width + 14 + noData.width : Math.max(body.width, noData?.width || 0);
+  const bodyHeight = noData && vertical ? body.height + 10 + noData.height : body.height;
+
+  const unitText = model.unit ? ` (${model.unit})` : '';
+  const titleWidth = estimateTextWidth(model.title + unitText, TITLE_FONT);
+  const width = Math.ceil(Math.max(titleWidth, bodyWidth) + PAD * 2);
+  const height = Math.ceil(PAD + TITLE_FONT + GAP + bodyHeight + PAD);
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} xmlns="http://www.w3.org/2000/svg" className="drop-shadow-xl" data-export-layer="legend">
+      <LegendFrame width={width} height={height} />
+      <text x={PAD} y={PAD + TITLE_FONT / 2} dy=".35em" fontSize={TITLE_FONT} fontWeight={700} fontFamily={LEGEND_FONT_FAMILY} fill={TITLE_COLOR}>
+        {model.title}
+        {unitText && <tspan fill={TEXT_COLOR} fontWeight={500}>{unitText}</tspan>}
+      </text>
+      <g transform={`translate(${PAD}, ${PAD + TITLE_FONT + GAP})`}>
+        {body.node}
+        {noData && (
+          <g transform={vertical ? `translate(0, ${body.height + 10})` : `translate(${body.width + 14}, 0)`}>{noData.node}</g>
+        )}
+      </g>
+    </svg>
+  );
+};
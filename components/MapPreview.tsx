@@ -1,22 +1,32 @@
-import React, { useState, useEffect, useRef, useMemo } from 'react';
+import React, { useState, useEffect, useRef, useMemo, MutableRefObject } from 'react';
 import * as d3 from 'd3';
-import * as topojson from 'topojson-client';
 import { GlassPanel } from './GlassPanel';
 import { 
   Plus, Minus, RotateCcw, Search, X, 
   Map as MapIcon, Globe, Layers, Maximize2, Minimize2,
-  Navigation, Database
+  Navigation, Database, AlertTriangle, ChevronRight, Download
 } from 'lucide-react';
-import { MapStyle, PALETTES, LabelSettings, TitleSettings, Annotation, MapDataState, SAMPLE_DATASET } from '../types';
-
-interface Feature {
-  type: 'Feature';
-  id: string; // ISO 3166-1 numeric code
-  properties: {
-    name: string;
-  };
-  geometry: any;
-}
+import { MapStyle, ProjectionType, LegendPosition, LabelSettings, TitleSettings, Annotation, MapDataState, SAMPLE_DATASET } from '../types';
+import { classify, formatBreak, NO_DATA_COLOR, getClassRangeLabel } from '../lib/classification';
+import { GeoFeature, GeometryResolution, WorldGeometry, loadWorldGeometry, resolutionForZoom } from '../lib/geometry';
+import { BoundaryLayer, getBoundaryCollection } from '../lib/boundaries';
+import { Admin1Layer, loadAdmin1Layer } from '../lib/admin1';
+import { getFrameValues, getClassificationValues, formatPeriod } from '../lib/timeSeries';
+import { TimelineControl, BASE_FRAME_DURATION } from './TimelineControl';
+import { getMetrics, getMetricFrame, selectMetric } from '../lib/metrics';
+import { classifyBivariate, resolveBivariateMetrics, getBivariateLevel } from '../lib/bivariate';
+import { BivariateLegend } from './BivariateLegend';
+import { buildSymbolScale, getSymbolAnchor, orderSymbols, resolveSymbolMetric, DEFAULT_SYMBOLS } from '../lib/symbols';
+import { SymbolLegend } from './SymbolLegend';
+import { classifyCategories, isCategorical } from '../lib/categories';
+import { MapLegend } from './MapLegend';
+import { TitleBlock } from './TitleBlock';
+import { CompositionMargins, layoutComposition } from '../lib/composition';
+import { AnnotationLabel, MapExporter, exportMap, toFileName, waitForPaint } from '../lib/exportMap';
+import { FeatureTooltip, TooltipRow } from '../lib/interactiveHtml';
+import { MapView, MapViewControl, ScreenAnnotation } from '../lib/project';
+import { DEFAULT_LEGEND, buildLegendModel } from '../lib/legend';
+import { VisionSimulation, getSimulationFilterValues } from '../lib/accessibility';
 
 interface MapPreviewProps {
   mapStyle: MapStyle;
@@ -27,11 +37,18 @@ interface MapPreviewProps {
   onAddAnnotation: (a: Annotation) => void;
   onUpdateAnnotation: (id: string, text: string) => void;
   onDeleteAnnotation: (id: string) => void;
-  onMoveAnnotation: (id: string, x: number, y: number) => void;
+  onMoveAnnotation: (id: string, coordinates: [number, number]) => void;
   
   // Lifted Data State
   mapData: MapDataState | null;
   setMapData: (data: MapDataState | null) => void;
+  boundaries: BoundaryLayer | null;
+  admin1: Admin1Layer | null;
+  onDrillDown: (layer: Admin1Layer | null) => void;
+  visionSimulation: VisionSimulation;
+  exporterRef: MutableRefObject<MapExporter | null>;
+  onOpenExport: () => void;
+  viewRef: MutableRefObject<MapViewControl | null>;
 }
 
 // ... (Keep existing helpers like ID_TO_ISO, getFlagEmoji) ...
@@ -51,7 +68,34 @@ const getFlagEmoji = (numericId: string) => {
   return String.fromCodePoint(...codePoints);
 }
 
-type ProjectionType = 'mercator' | 'orthographic' | 'equalEarth';
+// The title starts below the search card and projection controls
+const PREVIEW_MARGINS: CompositionMargins = { top: 76, bottom: 16, side: 24 };
+
+// World maps frame the whole sphere; custom boundaries frame their own extent
+function buildProjection(type: ProjectionType, extent: [[number, number], [number, number]], boundaryCollection: any): d3.GeoProjection {
+  const extentObject: any = boundaryCollection || { type: "Sphere" };
+  switch (type) {
+    case 'orthographic': {
+      const proj = d3.geoOrthographic();
+      if (boundaryCollection) {
+        const [lon, lat] = d3.geoCentroid(boundaryCollection as any);
+        proj.rotate([-lon, -lat]);
+      }
+      return proj.fitExtent(extent, extentObject);
+    }
+    case 'equalEarth':
+      return d3.geoEqualEarth().fitExtent(extent, extentObject);
+    case 'mercator':
+    default:
+      return d3.geoMercator().fitExtent(extent, extentObject);
+  }
+}
+
+// Longitude/latitude under a point of the drawing, or null off the edge of the globe
+function invertPoint(projection: d3.GeoProjection, point: [number, number]): [number, number] | null {
+  const coordinates = projection.invert?.(point);
+  return coordinates && Number.isFinite(coordinates[0]) && Number.isFinite(coordinates[1]) ? [coordinates[0], coordinates[1]] : null;
+}
 
 export const MapPreview: React.FC<MapPreviewProps> = ({ 
   mapStyle, 
@@ -64,17 +108,24 @@ export const MapPreview: React.FC<MapPreviewProps> = ({
   onDeleteAnnotation,
   onMoveAnnotation,
   mapData, 
-  setMapData
+  setMapData,
+  boundaries,
+  admin1,
+  onDrillDown,
+  visionSimulation,
+  exporterRef,
+  onOpenExport,
+  viewRef
 }) => {
   // -- State --
-  const [geoData, setGeoData] = useState<Feature[]>([]);
-  const [meshData, setMeshData] = useState<any>(null); 
-  const [loading, setLoading] = useState(true);
+  const [geometry, setGeometry] = useState<Partial<Record<GeometryResolution, WorldGeometry>>>({});
+  const [geometryError, setGeometryError] = useState<string | null>(null);
+  const [reloadToken, setReloadToken] = useState(0);
   const [projectionType, setProjectionType] = useState<ProjectionType>('mercator');
   
   // Search
   const [searchQuery, setSearchQuery] = useState('');
-  const [searchResults, setSearchResults] = useState<Feature[]>([]);
+  const [searchResults, setSearchResults] = useState<GeoFeature[]>([]);
   const [isSearchActive, setIsSearchActive] = useState(false);
   
   // View State
@@ -82,6 +133,8 @@ export const MapPreview: React.FC<MapPreviewProps> = ({
   const containerRef = useRef<HTMLDivElement>(null);
   const [dimensions, setDimensions] = useState({ width: 800, height: 600 });
   const [transform, setTransform] = useState({ k: 1, x: 0, y: 0 }); 
+  // A view restored from a project file, applied once the new state has rendered
+  const [pendingView, setPendingView] = useState<MapView | null>(null);
   
   // D3 Refs
   const svgRef = useRef<SVGSVGElement>(null);
@@ -89,10 +142,19 @@ export const MapPreview: React.FC<MapPreviewProps> = ({
   const zoomBehavior = useRef<d3.ZoomBehavior<SVGSVGElement, unknown> | null>(null);
 
   // Interaction State
-  const [hoveredFeature, setHoveredFeature] = useState<Feature | null>(null);
+  const [hoveredFeature, setHoveredFeature] = useState<GeoFeature | null>(null);
   const [selectedFeatureId, setSelectedFeatureId] = useState<string | null>(null);
   const [tooltip, setTooltip] = useState({ visible: false, x: 0, y: 0, content: '' });
 
+  // Timeline
+  const [periodIndex, setPeriodIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [playbackSpeed, setPlaybackSpeed] = useState(1);
+
+  // Drill-down
+  const [drillingId, setDrillingId] = useState<string | null>(null);
+  const [drillError, setDrillError] = useState<string | null>(null);
+
   // Annotation Editing
   const [editingAnnotationId, setEditingAnnotationId] = useState<string | null>(null);
   const [draggingAnnotationId, setDraggingAnnotationId] = useState<string | null>(null);
@@ -112,72 +174,58 @@ export const MapPreview: React.FC<MapPreviewProps> = ({
     }
   }, []);
 
+  // Load the detailed topology only once the user zooms in; the coarse one stays as a fallback
+  const desiredResolution = resolutionForZoom(transform.k);
+
   useEffect(() => {
-    const fetchTopology = async () => {
-      try {
-        const response = await fetch('https://cdn.jsdelivr.net/npm/world-atlas@2/countries-110m.json');
-        const topology = await response.json();
-        // @ts-ignore
-        const allFeatures = topojson.feature(topology, topology.objects.countries).features;
-        
-        const seenIds = new Set<string>();
-        const features = allFeatures
-          .filter((f: any) => f.id !== undefined && f.id !== null)
-          .map((f: any) => ({
-            ...f,
-            id: String(f.id).padStart(3, '0')
-          }))
-          .filter((f: any) => {
-            if (seenIds.has(f.id)) return false;
-            seenIds.add(f.id);
-            return true;
-          });
-        
-        // @ts-ignore
-        const mesh = topojson.mesh(topology, topology.objects.countries);
-        const filteredFeatures = features.filter((f: Feature) => f.id !== '010');
-        
-        setGeoData(filteredFeatures);
-        setMeshData(mesh);
-        setLoading(false);
-      } catch (error) {
+    if (geometry[desiredResolution]) return;
+    let cancelled = false;
+    setGeometryError(null);
+    loadWorldGeometry(desiredResolution)
+      .then(loaded => {
+        if (!cancelled) setGeometry(prev => ({ ...prev, [desiredResolution]: loaded }));
+      })
+      .catch(error => {
         console.error("Failed to load map data", error);
-        setLoading(false);
-      }
-    };
-    fetchTopology();
-  }, []);
+        if (!cancelled) setGeometryError(error instanceof Error ? error.message : 'Unknown error');
+      });
+    return () => { cancelled = true; };
+  }, [desiredResolution, reloadToken]);
+
+  const activeGeometry = geometry[desiredResolution] || geometry['110m'] || geometry['50m'];
+  // Custom boundaries replace the world countries everywhere: paths, labels, search and minimap
+  const boundaryCollection = useMemo(() => boundaries ? getBoundaryCollection(boundaries) : null, [boundaries]);
+  // A drilled-down country is swapped for its states or provinces; its neighbours stay as they are
+  const worldFeatures: GeoFeature[] = activeGeometry?.features || [];
+  const geoData: GeoFeature[] = boundaries
+    ? boundaries.features
+    : admin1
+      ? [...worldFeatures.filter(f => f.id !== admin1.countryId), ...admin1.features]
+      : worldFeatures;
+  const isCountryFeature = (feature: GeoFeature) => !boundaries && !(admin1 && admin1.features.includes(feature));
+  const meshData = boundaryCollection || (geometry['110m'] || activeGeometry)?.mesh || null;
+  const loading = !boundaries && !activeGeometry;
 
   // -- D3 Logic --
 
-  const { pathGenerator } = useMemo(() => {
-    let proj: d3.GeoProjection;
-    const w = dimensions.width;
-    const h = dimensions.height;
-
-    switch (projectionType) {
-      case 'orthographic':
-        proj = d3.geoOrthographic().fitExtent([[20, 20], [w - 20, h - 20]], { type: "Sphere" });
-        break;
-      case 'equalEarth':
-        proj = d3.geoEqualEarth().fitExtent([[20, 20], [w - 20, h - 20]], { type: "Sphere" });
-        break;
-      case 'mercator':
-      default:
-        proj = d3.geoMercator().fitExtent([[20, 20], [w - 20, h - 20]], { type: "Sphere" });
-    }
+  const composition = useMemo(
+    () => layoutComposition(dimensions.width, dimensions.height, titleSettings, PREVIEW_MARGINS),
+    [dimensions, titleSettings]
+  );
 
+  const { projection, pathGenerator } = useMemo(() => {
+    const proj = buildProjection(projectionType, composition.mapExtent, boundaryCollection);
     const pathGen = d3.geoPath().projection(proj);
     return { projection: proj, pathGenerator: pathGen };
-  }, [projectionType, dimensions]);
+  }, [projectionType, composition, boundaryCollection]);
 
   // Minimap Projection
   const minimapProps = useMemo(() => {
     const size = 120;
-    const proj = d3.geoMercator().fitSize([size, size], { type: "Sphere" });
+    const proj = d3.geoMercator().fitSize([size, size], (boundaryCollection || { type: "Sphere" }) as any);
     const path = d3.geoPath().projection(proj);
     return { proj, path, size };
-  }, []);
+  }, [boundaryCollection]);
 
   // Zoom Behavior
   useEffect(() => {
@@ -186,6 +234,9 @@ export const MapPreview: React.FC<MapPreviewProps> = ({
     zoomBehavior.current = d3.zoom<SVGSVGElement, unknown>()
       .scaleExtent([1, 8])
       .extent([[0, 0], [dimensions.width, dimensions.height]])
+      // d3's default filter, except that pressing on a note drags the note instead of the map
+      .filter((event: any) => (!event.ctrlKey || event.type === 'wheel') && !event.button
+        && (event.type === 'wheel' || !(event.target as Element).closest?.('foreignObject')))
       .on('zoom', (event) => {
         if (gRef.current) {
           d3.select(gRef.current).attr('transform', event.transform.toString());
@@ -196,23 +247,93 @@ export const MapPreview: React.FC<MapPreviewProps> = ({
     const svg = d3.select(svgRef.current);
     svg.call(zoomBehavior.current);
     svg.on("dblclick.zoom", null);
-  }, [dimensions]);
+  }, [dimensions, loading]);
+
+  // Time series: the classification spans every period, the fill shows the current one
+  const periods: string[] = mapData?.series?.periods || [];
+  const currentPeriod = periods.length > 0 ? periods[Math.min(periodIndex, periods.length - 1)] : null;
+  const frameValues: Record<string, number> = mapData ? getFrameValues(mapData, currentPeriod) : {};
+  const frameDuration = BASE_FRAME_DURATION / playbackSpeed;
+
+  // New data opens on its latest period
+  useEffect(() => {
+    setPeriodIndex(Math.max(0, periods.length - 1));
+    setIsPlaying(false);
+  }, [mapData?.series]);
+
+  const metrics = mapData ? getMetrics(mapData) : [];
+  // Bivariate and symbol layers need numbers to scale
+  const numericMetrics = metrics.filter(m => !isCategorical(m));
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const timer = setInterval(() => {
+      setPeriodIndex(i => {
+        if (i >= periods.length - 1) {
+          setIsPlaying(false);
+          return i;
+        }
+        return i + 1;
+      });
+    }, frameDuration);
+    return () => clearInterval(timer);
+  }, [isPlaying, frameDuration, periods.length]);
+
+  const togglePlayback = () => {
+    // Playing from the last frame starts the series over
+    if (!isPlaying && periodIndex >= periods.length - 1) setPeriodIndex(0);
+    setIsPlaying(!isPlaying);
+  };
+
+  const scrubTo = (index: number) => {
+    setIsPlaying(false);
+    setPeriodIndex(index);
+  };
 
   // Color Scale
-  const colorScale = useMemo(() => {
+  const classification = useMemo(() => {
     if (!mapData) return null;
-    const values = Object.values(mapData.values).filter(v => typeof v === 'number' && !isNaN(v));
+    const values = getClassificationValues(mapData);
     if (values.length === 0) return null;
-
-    const paletteColors = PALETTES[mapStyle.palette];
-    
-    // Create an interpolator or range
-    const rangeColors = d3.quantize(d3.interpolateRgbBasis(paletteColors), Math.max(2, mapStyle.classesCount));
-    
-    // Fallback for simple quantile
-    return d3.scaleQuantile<string>().domain(values).range(rangeColors);
+    return classify(values, mapStyle);
   }, [mapData, mapStyle]);
 
+  // Categorical data maps each label to a qualitative colour instead
+  const categorical = useMemo(
+    () => mapData?.categories ? classifyCategories(mapData.categories, mapStyle) : null,
+    [mapData, mapStyle]
+  );
+
+  // Bivariate mode crosses two independently classified metrics
+  const bivariateMetrics = mapData ? resolveBivariateMetrics(mapStyle, numericMetrics) : null;
+  const bivariate = useMemo(() => {
+    if (!bivariateMetrics || !mapStyle.bivariate) return null;
+    return classifyBivariate(
+      getClassificationValues(bivariateMetrics.x),
+      getClassificationValues(bivariateMetrics.y),
+      mapStyle,
+      mapStyle.bivariate
+    );
+  }, [bivariateMetrics?.x, bivariateMetrics?.y, mapStyle]);
+  const bivariateFrames = bivariateMetrics && bivariate
+    ? { x: getMetricFrame(bivariateMetrics.x, currentPeriod) || {}, y: getMetricFrame(bivariateMetrics.y, currentPeriod) || {} }
+    : null;
+
+  // Proportional symbols: sized over every period, like the fill classes
+  const symbolMetric = mapData ? resolveSymbolMetric(mapStyle, numericMetrics, mapData.metric) : null;
+  const symbolSettings = { ...DEFAULT_SYMBOLS, ...mapStyle.symbols };
+  const symbolScale = useMemo(
+    () => symbolMetric ? buildSymbolScale(getClassificationValues(symbolMetric), symbolSettings.maxRadius) : null,
+    [symbolMetric, symbolSettings.maxRadius]
+  );
+  const showFill = mapStyle.showFill !== false;
+
+  const legendSettings = { ...DEFAULT_LEGEND, ...mapStyle.legend };
+  const legendModel = useMemo(
+    () => mapData ? buildLegendModel(legendSettings, mapData, classification, categorical) : null,
+    [mapData, classification, categorical, mapStyle.legend]
+  );
+
   // -- Interaction --
 
   const handleZoom = (factor: number) => {
@@ -226,9 +347,17 @@ export const MapPreview: React.FC<MapPreviewProps> = ({
     setSelectedFeatureId(null);
   };
 
-  const focusOnFeature = (feature: Feature) => {
-    setSelectedFeatureId(feature.id);
-    const bounds = pathGenerator.bounds(feature);
+  // A new boundary layer has a different extent, so start from the full view
+  useEffect(() => {
+    setSelectedFeatureId(null);
+    setSearchQuery('');
+    if (svgRef.current && zoomBehavior.current) {
+      d3.select(svgRef.current).call(zoomBehavior.current.transform, d3.zoomIdentity);
+    }
+  }, [boundaries]);
+
+  const zoomToObject = (object: any) => {
+    const bounds = pathGenerator.bounds(object);
     const dx = bounds[1][0] - bounds[0][0];
     const dy = bounds[1][1] - bounds[0][1];
     const x = (bounds[0][0] + bounds[1][0]) / 2;
@@ -241,6 +370,67 @@ export const MapPreview: React.FC<MapPreviewProps> = ({
     }
   };
 
+  const focusOnFeature = (feature: GeoFeature) => {
+    setSelectedFeatureId(feature.id);
+    zoomToObject(feature);
+  };
+
+  const drillInto = (feature: GeoFeature) => {
+    if (drillingId) return;
+    setDrillingId(feature.id);
+    setDrillError(null);
+    loadAdmin1Layer(feature.id)
+      .then(layer => onDrillDown(layer))
+      .catch(error => {
+        console.error("Failed to load admin-1 regions", error);
+        setDrillError(error instanceof Error ? error.message : 'Failed to load regions');
+        focusOnFeature(feature);
+      })
+      .finally(() => setDrillingId(null));
+  };
+
+  const drillUp = () => {
+    setDrillError(null);
+    onDrillDown(null);
+  };
+
+  // Entering a country frames its regions; leaving it goes back to the full world
+  useEffect(() => {
+    setSelectedFeatureId(null);
+    if (admin1) {
+      zoomToObject(getBoundaryCollection(admin1));
+    } else {
+      resetView();
+    }
+  }, [admin1]);
+
+  // Declared after the effects that reset the zoom and period for new data, so it runs last.
+  // A link opened on startup waits here until the geometry has loaded and the map can zoom.
+  useEffect(() => {
+    if (!pendingView || !svgRef.current || !zoomBehavior.current) return;
+    setProjectionType(pendingView.projection);
+    const index = pendingView.period ? periods.indexOf(pendingView.period) : -1;
+    if (index >= 0) setPeriodIndex(index);
+    const { k, x, y } = pendingView.transform;
+    d3.select(svgRef.current).interrupt().call(zoomBehavior.current.transform, d3.zoomIdentity.translate(x, y).scale(k));
+    setPendingView(null);
+  }, [pendingView, loading]);
+
+  useEffect(() => {
+    viewRef.current = {
+      getView: () => ({ projection: projectionType, transform, period: currentPeriod }),
+      setView: setPendingView,
+      anchorAnnotations: (notes: ScreenAnnotation[], project) => {
+        const layout = layoutComposition(dimensions.width, dimensions.height, project.titleSettings, PREVIEW_MARGINS);
+        const proj = buildProjection(project.view.projection, layout.mapExtent, project.boundaries ? getBoundaryCollection(project.boundaries) : null);
+        return notes.flatMap(note => {
+          const coordinates = invertPoint(proj, [note.x, note.y]);
+          return coordinates ? [{ id: note.id, coordinates, text: note.text }] : [];
+        });
+      },
+    };
+  });
+
   const handleSearchInput = (e: React.ChangeEvent<HTMLInputElement>) => {
     const val = e.target.value;
     setSearchQuery(val);
@@ -254,7 +444,7 @@ export const MapPreview: React.FC<MapPreviewProps> = ({
     }
   };
 
-  const selectSearchResult = (feature: Feature) => {
+  const selectSearchResult = (feature: GeoFeature) => {
     setSearchQuery(feature.properties.name);
     setIsSearchActive(false);
     focusOnFeature(feature);
@@ -273,26 +463,81 @@ export const MapPreview: React.FC<MapPreviewProps> = ({
 
   // -- Visual Helpers --
 
-  const getFill = (feature: Feature) => {
+  const getFill = (feature: GeoFeature) => {
     if (selectedFeatureId === feature.id) return '#06b6d4';
-    if (mapData && colorScale) {
-      const val = mapData.values[feature.id];
-      if (val !== undefined) return colorScale(val);
+    if (!showFill) return NO_DATA_COLOR;
+    if (bivariate && bivariateFrames) {
+      return bivariate.colorFor(bivariateFrames.x[feature.id], bivariateFrames.y[feature.id]) || NO_DATA_COLOR;
+    }
+    if (mapData?.categories && categorical) {
+      return categorical.colorFor(mapData.categories[feature.id]) || NO_DATA_COLOR;
     }
-    return '#1e293b';
+    if (mapData && classification) {
+      const val = frameValues[feature.id];
+      if (val !== undefined) return classification.colorFor(val);
+    }
+    return NO_DATA_COLOR;
   };
 
-  const getOpacity = (feature: Feature) => {
+  const getOpacity = (feature: GeoFeature) => {
     if (selectedFeatureId && selectedFeatureId !== feature.id) return 0.4;
     return 1;
   };
 
+  // Hover, selection and drill-down behave the same on a country path and on its symbol
+  const featureHandlers = (feature: GeoFeature) => ({
+    onMouseEnter: (e: React.MouseEvent) => {
+      setHoveredFeature(feature);
+      const rect = containerRef.current?.getBoundingClientRect();
+      if (rect) {
+        setTooltip({ visible: true, x: e.clientX - rect.left, y: e.clientY - rect.top, content: '' });
+      }
+    },
+    onMouseMove: (e: React.MouseEvent) => {
+      const rect = containerRef.current?.getBoundingClientRect();
+      if (rect) {
+        setTooltip(prev => ({ ...prev, x: e.clientX - rect.left, y: e.clientY - rect.top }));
+      }
+    },
+    onDoubleClick: (e: React.MouseEvent) => {
+      e.stopPropagation();
+      if (isCountryFeature(feature)) drillInto(feature);
+      else focusOnFeature(feature);
+    },
+    onClick: (e: React.MouseEvent) => {
+      if (!isAddingAnnotation) {
+        e.stopPropagation();
+        focusOnFeature(feature);
+      }
+    },
+  });
+
+  const getSymbols = () => {
+    if (!symbolMetric || !symbolScale) return [];
+    const values = getMetricFrame(symbolMetric, currentPeriod) || {};
+    const symbols = geoData.flatMap(feature => {
+      const value = values[feature.id];
+      const anchor = value > 0 ? getSymbolAnchor(feature) : null;
+      if (!anchor) return [];
+      // Projecting a Point through the path generator respects the globe's clipping
+      const [x, y] = pathGenerator.centroid({ type: 'Point', coordinates: anchor } as any);
+      return isNaN(x) || isNaN(y) ? [] : [{ feature, value, x, y, r: symbolScale.radius(value) }];
+    });
+    return orderSymbols(symbols);
+  };
+
+  // Where the pointer is on the globe, through the current zoom and projection
+  const pointerCoordinates = (e: React.MouseEvent): [number, number] | null => {
+    if (!svgRef.current) return null;
+    const rect = svgRef.current.getBoundingClientRect();
+    const point = d3.zoomTransform(svgRef.current).invert([e.clientX - rect.left, e.clientY - rect.top]);
+    return invertPoint(projection, point);
+  };
+
   const handleMapClick = (e: React.MouseEvent) => {
     if (isAddingAnnotation && svgRef.current) {
-      const t = d3.zoomTransform(svgRef.current);
-      const rect = svgRef.current.getBoundingClientRect();
-      const [x, y] = t.invert([e.clientX - rect.left, e.clientY - rect.top]);
-      onAddAnnotation({ id: Date.now().toString(), x, y, text: 'New Annotation' });
+      const coordinates = pointerCoordinates(e);
+      if (coordinates) onAddAnnotation({ id: Date.now().toString(), coordinates, text: 'New Annotation' });
     } else {
       if (selectedFeatureId) {
         setSelectedFeatureId(null);
@@ -301,13 +546,115 @@ export const MapPreview: React.FC<MapPreviewProps> = ({
     }
   };
 
+  const handleMouseMove = (e: React.MouseEvent) => {
+    if (!draggingAnnotationId) return;
+    const coordinates = pointerCoordinates(e);
+    if (coordinates) onMoveAnnotation(draggingAnnotationId, coordinates);
+  };
+
+  // Notes are reprojected on every render; those on the far side of the globe are hidden
+  const placedAnnotations = annotations.flatMap(annotation => {
+    const [x, y] = pathGenerator.centroid({ type: 'Point', coordinates: annotation.coordinates } as any);
+    return isNaN(x) || isNaN(y) ? [] : [{ annotation, x, y }];
+  });
+
+  // The hover tooltip as plain rows, for exports that keep it interactive
+  const describeFeature = (id: string): FeatureTooltip | null => {
+    const feature = geoData.find(f => f.id === id);
+    if (!feature) return null;
+    const flag = isCountryFeature(feature) ? getFlagEmoji(feature.id) : '';
+    const rows: TooltipRow[] = [];
+    if (bivariate && bivariateFrames && bivariateMetrics) {
+      ([['x', bivariateMetrics.x], ['y', bivariateMetrics.y]] as const).forEach(([axis, metric]) => {
+        const value = bivariateFrames[axis][id];
+        rows.push({
+          label: metric.name,
+          value: value !== undefined ? String(value) : '—',
+          note: value !== undefined ? getBivariateLevel(bivariate[axis].classIndex(value), bivariate.size) : undefined,
+        });
+      });
+    } else if (mapData?.categories && categorical) {
+      const category = mapData.categories[id];
+      if (category !== undefined) rows.push({ label: mapData.metric, value: category, color: categorical.colorFor(category) || undefined });
+    } else if (mapData && frameValues[id] !== undefined) {
+      const value = frameValues[id];
+      const classIndex = classification?.classIndex(value);
+      rows.push({
+        label: `${mapData.metric}${currentPeriod ? ` (${formatPeriod(currentPeriod)})` : ''}`,
+        value: String(value),
+        color: classification?.colorFor(value),
+        note: classification && classIndex !== undefined ? `Class ${classIndex + 1}: ${getClassRangeLabel(classification, classIndex)}` : undefined,
+      });
+    }
+    if (metrics.length > 1) {
+      metrics.filter(m => m.name !== mapData?.metric).forEach(m => {
+        const value = getMetricFrame(m, currentPeriod)?.[id];
+        const category = m.categories?.[id];
+        rows.push({ label: m.name, value: category ?? (value !== undefined ? `${value}${m.unit ? ` ${m.unit}` : ''}` : '—'), secondary: true });
+      });
+    }
+    return { title: flag ? `${flag} ${feature.properties.name}` : feature.properties.name, rows };
+  };
+
+  // Exports read the live drawing back, optionally zoomed out to the full extent for the duration
+  useEffect(() => {
+    exporterRef.current = async (options) => {
+      const svg = svgRef.current;
+      const container = containerRef.current;
+      if (!svg || !container || !zoomBehavior.current) throw new Error('The map has not finished loading');
+      const saved = d3.zoomTransform(svg);
+      const reset = options.resetExtent && (saved.k !== 1 || saved.x !== 0 || saved.y !== 0);
+      if (reset) {
+        d3.select(svg).call(zoomBehavior.current.transform, d3.zoomIdentity);
+        await waitForPaint();
+      }
+      try {
+        return await exportMap({
+          container,
+          map: svg,
+          zoomScale: d3.zoomTransform(svg).k,
+          backgroundColor: mapStyle.backgroundColor,
+          annotations: placedAnnotations.map(({ annotation, x, y }): AnnotationLabel => ({ text: annotation.text, x, y })),
+          title: titleSettings.title,
+          describeFeature,
+        }, options, toFileName(titleSettings.title));
+      } finally {
+        if (reset) d3.select(svg).call(zoomBehavior.current.transform, saved);
+      }
+    };
+  });
+
   // -- Render --
 
+  // The fill legend travels with the size legend to wherever the user anchored it
+  const legendsAt = (position: LegendPosition) => legendSettings.visible && legendSettings.position === position && (
+    <div className={`flex gap-3 ${position.startsWith('top') ? 'items-start' : 'items-end'}`}>
+      {showFill && (bivariate && bivariateMetrics ? (
+         <BivariateLegend classification={bivariate} xLabel={bivariateMetrics.x.name} yLabel={bivariateMetrics.y.name} />
+      ) : legendModel && (
+         <MapLegend model={legendModel} settings={legendSettings} />
+      ))}
+      {symbolScale && symbolMetric && (
+         <SymbolLegend scale={symbolScale} color={symbolSettings.color} label={symbolMetric.unit ? `${symbolMetric.name} (${symbolMetric.unit})` : symbolMetric.name} />
+      )}
+    </div>
+  );
+
+  const simulationFilter = getSimulationFilterValues(visionSimulation);
+
   return (
     <GlassPanel 
       className={`h-full w-full relative flex flex-col group overflow-hidden transition-colors duration-500`}
-      style={{ backgroundColor: mapStyle.backgroundColor }} 
+      style={{ backgroundColor: mapStyle.backgroundColor, filter: simulationFilter ? 'url(#vision-simulation)' : undefined }} 
     >
+      {/* Colour-vision simulation, applied to the whole preview */}
+      {simulationFilter && (
+        <svg className="absolute w-0 h-0" aria-hidden="true">
+          <filter id="vision-simulation" colorInterpolationFilters="linearRGB">
+            <feColorMatrix type="matrix" values={simulationFilter} />
+          </filter>
+        </svg>
+      )}
       <div 
         ref={containerRef} 
         className="relative w-full h-full overflow-hidden bg-transparent"
@@ -344,12 +691,32 @@ export const MapPreview: React.FC<MapPreviewProps> = ({
                     onClick={() => selectSearchResult(feature)}
                     className="w-full text-left px-4 py-3 hover:bg-slate-50 flex items-center gap-3 text-sm text-slate-700 transition-colors"
                   >
-                    <span className="text-lg">{getFlagEmoji(feature.id) || '🏳️'}</span>
+                    {isCountryFeature(feature) && <span className="text-lg">{getFlagEmoji(feature.id) || '🏳️'}</span>}
                     {feature.properties.name}
                   </button>
                 ))}
              </div>
            )}
+
+           {/* Drill-down Breadcrumbs */}
+           {!boundaries && (admin1 || drillingId || drillError) && (
+             <div className="mt-2 bg-white rounded-lg shadow-lg px-3 py-2 flex items-center gap-1.5 text-xs animate-in fade-in slide-in-from-top-2">
+               <button
+                 onClick={drillUp}
+                 className={`flex items-center gap-1 font-semibold transition-colors ${admin1 ? 'text-primary hover:text-accent' : 'text-slate-700'}`}
+               >
+                 <Globe size={12} /> World
+               </button>
+               {admin1 && (
+                 <>
+                   <ChevronRight size={12} className="text-slate-300" />
+                   <span className="font-semibold text-slate-700">{admin1.name}</span>
+                 </>
+               )}
+               {drillingId && <RotateCcw size={12} className="ml-1 text-slate-400 animate-spin" />}
+               {drillError && <span className="ml-1 text-[10px] text-red-500">{drillError}</span>}
+             </div>
+           )}
         </div>
 
         {/* --- Top Right: Projection & Data --- */}
@@ -373,7 +740,17 @@ export const MapPreview: React.FC<MapPreviewProps> = ({
               <div className="bg-white rounded-lg shadow-lg px-3 py-2 flex items-center gap-3 animate-in fade-in slide-in-from-right-4">
                  <div className="text-xs font-bold text-slate-700 uppercase tracking-wider flex items-center gap-2">
                     <div className="w-2 h-2 rounded-full bg-accent animate-pulse" />
-                    {mapData.metric}
+                    {metrics.length > 1 ? (
+                      <select
+                        value={mapData.metric}
+                        onChange={(e) => setMapData(selectMetric(mapData, e.target.value))}
+                        className="bg-transparent uppercase tracking-wider font-bold text-slate-700 outline-none cursor-pointer max-w-[180px]"
+                        title="Switch metric"
+                      >
+                        {metrics.map(m => (<option key={m.name} value={m.name}>{m.name}</option>))}
+                      </select>
+                    ) : mapData.metric}
+                    {currentPeriod && <span className="font-mono text-slate-400 normal-case">{formatPeriod(currentPeriod)}</span>}
                  </div>
                  <button onClick={() => setMapData(null)} className="text-slate-400 hover:text-red-500 transition-colors">
                    <X size={14} />
@@ -389,16 +766,39 @@ export const MapPreview: React.FC<MapPreviewProps> = ({
                <Database size={14} /> Load Demo Data
              </button>
            )}
+
+           {legendsAt('top-right')}
+        </div>
+
+        {/* --- Top Left: Legend, below the search card and any title --- */}
+        <div className="absolute left-4 z-20" style={{ top: Math.max(80, composition.mapExtent[0][1]) }}>
+           {legendsAt('top-left')}
         </div>
 
 
         {/* --- Main SVG Map --- */}
         {loading ? (
            <div className="absolute inset-0 flex items-center justify-center">
-             <div className="flex flex-col items-center gap-4">
-               <div className="w-16 h-16 border-4 border-slate-700 border-t-accent rounded-full animate-spin" />
-               <span className="text-slate-500 font-mono text-sm animate-pulse">LOADING WORLD GEOMETRY...</span>
-             </div>
+             {geometryError ? (
+               <div className="flex flex-col items-center gap-4 text-center">
+                 <div className="p-3 rounded-full bg-red-500/10 text-red-400"><AlertTriangle size={28} /></div>
+                 <div>
+                   <p className="text-slate-300 font-mono text-sm">WORLD GEOMETRY FAILED TO LOAD</p>
+                   <p className="text-slate-500 text-xs mt-1">{geometryError}</p>
+                 </div>
+                 <button
+                   onClick={() => setReloadToken(t => t + 1)}
+                   className="bg-white hover:bg-slate-50 text-primary font-semibold text-xs py-2 px-4 rounded-lg shadow-lg flex items-center gap-2 transition-all"
+                 >
+                   <RotateCcw size={14} /> Retry
+                 </button>
+               </div>
+             ) : (
+               <div className="flex flex-col items-center gap-4">
+                 <div className="w-16 h-16 border-4 border-slate-700 border-t-accent rounded-full animate-spin" />
+                 <span className="text-slate-500 font-mono text-sm animate-pulse">LOADING WORLD GEOMETRY...</span>
+               </div>
+             )}
            </div>
         ) : (
           <svg 
@@ -406,7 +806,9 @@ export const MapPreview: React.FC<MapPreviewProps> = ({
             width="100%" height="100%"
             className={`w-full h-full ${isAddingAnnotation ? 'cursor-crosshair' : 'cursor-grab active:cursor-grabbing'} outline-none`}
             onClick={handleMapClick}
-            onMouseLeave={() => { setTooltip(prev => ({ ...prev, visible: false })); setHoveredFeature(null); }}
+            onMouseMove={handleMouseMove}
+            onMouseUp={() => setDraggingAnnotationId(null)}
+            onMouseLeave={() => { setTooltip(prev => ({ ...prev, visible: false })); setHoveredFeature(null); setDraggingAnnotationId(null); }}
           >
              <defs>
                <filter id="shadow" x="-50%" y="-50%" width="200%" height="200%">
@@ -414,12 +816,13 @@ export const MapPreview: React.FC<MapPreviewProps> = ({
                </filter>
              </defs>
 
-             <g ref={gRef}>
+             <g ref={gRef} data-zoom-layer>
                 {geoData.map((feature) => {
                   const isSelected = selectedFeatureId === feature.id;
                   return (
                     <path
                       key={feature.id}
+                      data-id={feature.id}
                       d={pathGenerator(feature) || ''}
                       fill={getFill(feature)}
                       fillOpacity={getOpacity(feature)}
@@ -427,34 +830,42 @@ export const MapPreview: React.FC<MapPreviewProps> = ({
                       strokeWidth={isSelected ? 1.5 : mapStyle.showBorders ? mapStyle.borderWidth : 0}
                       vectorEffect="non-scaling-stroke" 
                       className="transition-all duration-300 ease-out"
-                      style={{ filter: isSelected || hoveredFeature?.id === feature.id ? 'url(#shadow)' : 'none' }}
-                      onMouseEnter={(e) => {
-                         setHoveredFeature(feature);
-                         const rect = containerRef.current?.getBoundingClientRect();
-                         if (rect) {
-                           setTooltip({ visible: true, x: e.clientX - rect.left, y: e.clientY - rect.top, content: '' });
-                         }
-                      }}
-                      onMouseMove={(e) => {
-                        const rect = containerRef.current?.getBoundingClientRect();
-                         if (rect) {
-                           setTooltip(prev => ({ ...prev, x: e.clientX - rect.left, y: e.clientY - rect.top }));
-                         }
-                      }}
-                      onDoubleClick={(e) => {
-                        e.stopPropagation();
-                        focusOnFeature(feature);
-                      }}
-                      onClick={(e) => {
-                        if (!isAddingAnnotation) {
-                          e.stopPropagation();
-                          focusOnFeature(feature);
-                        }
+                      style={{
+                        filter: isSelected || hoveredFeature?.id === feature.id ? 'url(#shadow)' : 'none',
+                        // Colours cross-fade between periods instead of snapping
+                        transitionDuration: isPlaying ? `${Math.min(frameDuration * 0.6, 800)}ms` : undefined
                       }}
+                      {...featureHandlers(feature)}
                     />
                   );
                 })}
 
+                {/* Proportional Symbols (radius stays constant on screen while zooming) */}
+                {symbolScale && (
+                  <g>
+                    {getSymbols().map(({ feature, x, y, r }) => {
+                      const isSelected = selectedFeatureId === feature.id;
+                      return (
+                        <circle
+                          key={`symbol-${feature.id}`}
+                          data-id={feature.id}
+                          cx={x}
+                          cy={y}
+                          r={r / transform.k}
+                          fill={isSelected ? '#06b6d4' : symbolSettings.color}
+                          fillOpacity={selectedFeatureId && !isSelected ? 0.25 : 0.65}
+                          stroke={isSelected || hoveredFeature?.id === feature.id ? '#fff' : symbolSettings.color}
+                          strokeWidth={1}
+                          vectorEffect="non-scaling-stroke"
+                          className="cursor-pointer"
+                          style={{ transition: `r ${isPlaying ? Math.min(frameDuration * 0.6, 800) : 300}ms ease-out` }}
+                          {...featureHandlers(feature)}
+                        />
+                      );
+                    })}
+                  </g>
+                )}
+
                 {/* Labels */}
                 {labelSettings.showLabels && geoData.map(feature => {
                    const centroid = pathGenerator.centroid(feature);
@@ -464,6 +875,7 @@ export const MapPreview: React.FC<MapPreviewProps> = ({
                    return (
                      <text
                         key={`label-${feature.id}`}
+                        data-area={area}
                         x={centroid[0]}
                         y={centroid[1]}
                         textAnchor="middle"
@@ -482,11 +894,11 @@ export const MapPreview: React.FC<MapPreviewProps> = ({
                 })}
 
                 {/* Annotations */}
-                {annotations.map((ann) => (
+                {placedAnnotations.map(({ annotation: ann, x, y }) => (
                     <foreignObject
                       key={ann.id}
-                      x={ann.x}
-                      y={ann.y}
+                      x={x}
+                      y={y}
                       width={1} height={1} 
                       className="overflow-visible"
                     >
@@ -524,6 +936,8 @@ export const MapPreview: React.FC<MapPreviewProps> = ({
                     </foreignObject>
                 ))}
              </g>
+
+             <TitleBlock settings={titleSettings} layout={composition} />
           </svg>
         )}
 
@@ -539,24 +953,79 @@ export const MapPreview: React.FC<MapPreviewProps> = ({
           {hoveredFeature && (
             <div className="bg-white rounded shadow-2xl p-3 min-w-[140px] text-slate-800 relative">
                <div className="flex items-center gap-2 mb-1 pb-1 border-b border-slate-100">
-                  <span className="text-xl leading-none">{getFlagEmoji(hoveredFeature.id) || '🏳️'}</span>
+                  {isCountryFeature(hoveredFeature) && <span className="text-xl leading-none">{getFlagEmoji(hoveredFeature.id) || '🏳️'}</span>}
                   <span className="font-bold text-sm">{hoveredFeature.properties.name}</span>
                </div>
                
-               {mapData && mapData.values[hoveredFeature.id] !== undefined ? (
-                  <div className="flex justify-between items-center text-xs">
-                     <span className="text-slate-500">{mapData.metric}:</span>
-                     <span className="font-mono font-bold text-primary">{mapData.values[hoveredFeature.id]}</span>
+               {bivariate && bivariateFrames && bivariateMetrics ? (
+                  <div className="space-y-0.5">
+                    {([['x', bivariateMetrics.x], ['y', bivariateMetrics.y]] as const).map(([axis, metric]) => {
+                      const value = bivariateFrames[axis][hoveredFeature.id];
+                      const axisClass = bivariate[axis];
+                      return (
+                        <div key={axis} className="flex justify-between items-center gap-3 text-xs">
+                          <span className="text-slate-500">{metric.name}:</span>
+                          <span className="font-mono font-bold text-primary">
+                            {value !== undefined ? value : '—'}
+                            {value !== undefined && <span className="ml-1 font-sans font-normal text-[10px] text-slate-400">{getBivariateLevel(axisClass.classIndex(value), bivariate.size)}</span>}
+                          </span>
+                        </div>
+                      );
+                    })}
                   </div>
+               ) : mapData?.categories && categorical ? (
+                  mapData.categories[hoveredFeature.id] !== undefined ? (
+                    <div className="flex justify-between items-center gap-3 text-xs">
+                       <span className="text-slate-500">{mapData.metric}:</span>
+                       <span className="flex items-center gap-1.5 font-bold text-primary">
+                         <div className="w-2 h-2 rounded-sm" style={{ backgroundColor: categorical.colorFor(mapData.categories[hoveredFeature.id]) || undefined }} />
+                         {mapData.categories[hoveredFeature.id]}
+                       </span>
+                    </div>
+                  ) : (
+                    <div className="text-[10px] text-slate-400 italic">No data available</div>
+                  )
+               ) : mapData && frameValues[hoveredFeature.id] !== undefined ? (
+                  <>
+                    <div className="flex justify-between items-center text-xs">
+                       <span className="text-slate-500">{mapData.metric}{currentPeriod ? ` (${formatPeriod(currentPeriod)})` : ''}:</span>
+                       <span className="font-mono font-bold text-primary">{frameValues[hoveredFeature.id]}</span>
+                    </div>
+                    {classification && (
+                      <div className="flex items-center gap-1.5 mt-1 text-[10px] text-slate-400">
+                         <div className="w-2 h-2 rounded-sm" style={{ backgroundColor: classification.colorFor(frameValues[hoveredFeature.id]) }} />
+                         Class {classification.classIndex(frameValues[hoveredFeature.id]) + 1}: {getClassRangeLabel(classification, classification.classIndex(frameValues[hoveredFeature.id]))}
+                      </div>
+                    )}
+                  </>
                ) : (
                   <div className="text-[10px] text-slate-400 italic">No data available</div>
                )}
+               {metrics.length > 1 && (
+                 <div className="mt-2 pt-1.5 border-t border-slate-100 space-y-0.5">
+                   {metrics.filter(m => m.name !== mapData?.metric).map(m => {
+                     const value = getMetricFrame(m, currentPeriod)?.[hoveredFeature.id];
+                     const category = m.categories?.[hoveredFeature.id];
+                     return (
+                       <div key={m.name} className="flex justify-between items-center gap-3 text-[10px]">
+                         <span className="text-slate-400">{m.name}</span>
+                         <span className="font-mono text-slate-600">{category ?? (value !== undefined ? `${value}${m.unit ? ` ${m.unit}` : ''}` : '—')}</span>
+                       </div>
+                     );
+                   })}
+                 </div>
+               )}
 
                <div className="absolute bottom-[-6px] left-1/2 -translate-x-1/2 w-3 h-3 bg-white rotate-45 shadow-sm" />
             </div>
           )}
         </div>
 
+        {/* --- Bottom Right: Legend, beside the map controls --- */}
+        <div className="absolute bottom-6 right-24 z-20">
+           {legendsAt('bottom-right')}
+        </div>
+
         {/* --- Bottom Right: Google-style Controls --- */}
         <div className="absolute bottom-6 right-6 flex flex-col gap-2 z-30">
            <div className="flex flex-col bg-white rounded-lg shadow-xl overflow-hidden">
@@ -573,11 +1042,15 @@ export const MapPreview: React.FC<MapPreviewProps> = ({
            <button onClick={toggleFullscreen} className="bg-white p-3 rounded-lg shadow-xl hover:bg-slate-50 active:bg-slate-100 text-slate-600 transition-colors">
              {isFullscreen ? <Minimize2 size={20} /> : <Maximize2 size={20} />}
            </button>
+           <button onClick={onOpenExport} className="bg-white p-3 rounded-lg shadow-xl hover:bg-slate-50 active:bg-slate-100 text-slate-600 transition-colors" title="Export">
+             <Download size={20} />
+           </button>
         </div>
 
-        {/* --- Bottom Left: Minimap --- */}
-        <div className="absolute bottom-6 left-6 z-20 hidden md:block">
-           <div className="bg-white/90 backdrop-blur border-4 border-white rounded-lg shadow-2xl overflow-hidden w-[120px] h-[120px] relative transition-transform hover:scale-105 duration-300">
+        {/* --- Bottom Left: Legend & Minimap --- */}
+        <div className="absolute bottom-6 left-6 z-20 flex flex-col items-start gap-3">
+           {legendsAt('bottom-left')}
+           <div className="hidden md:block bg-white/90 backdrop-blur border-4 border-white rounded-lg shadow-2xl overflow-hidden w-[120px] h-[120px] relative transition-transform hover:scale-105 duration-300">
                <svg width="100%" height="100%" viewBox={`0 0 ${minimapProps.size} ${minimapProps.size}`}>
                   <path d={minimapProps.path(meshData) || ''} fill="#cbd5e1" />
                   <rect
@@ -591,14 +1064,22 @@ export const MapPreview: React.FC<MapPreviewProps> = ({
            </div>
         </div>
 
-        {/* --- Bottom Center: Legend --- */}
-        {mapData && (
-           <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-20 bg-white/90 backdrop-blur rounded-full px-4 py-2 shadow-xl flex items-center gap-3 border border-white">
-              <span className="text-[10px] font-bold text-slate-500">{d3.min(Object.values(mapData.values))}</span>
-              <div className="w-32 h-2 rounded-full" style={{ background: `linear-gradient(to right, ${PALETTES[mapStyle.palette].join(', ')})` }} />
-              <span className="text-[10px] font-bold text-slate-500">{d3.max(Object.values(mapData.values))}</span>
-           </div>
-        )}
+        {/* --- Bottom Center: Timeline & Legend --- */}
+        <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-20 flex flex-col items-center gap-3">
+           {periods.length > 1 && (
+              <TimelineControl
+                periods={periods}
+                index={Math.min(periodIndex, periods.length - 1)}
+                onIndexChange={scrubTo}
+                isPlaying={isPlaying}
+                onTogglePlay={togglePlayback}
+                speed={playbackSpeed}
+                onSpeedChange={setPlaybackSpeed}
+              />
+           )}
+
+           {legendsAt('bottom-center')}
+        </div>
 
       </div>
     </GlassPanel>
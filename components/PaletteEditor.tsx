@@ -0,0 +1,117 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, X, Save, Trash2 } from 'lucide-react';
+import { MapStyle } from '../types';
+import { getPaletteColors } from '../lib/classification';
+import {
+  INTERPOLATION_SPACES, SavedPalette, getInterpolator, loadPaletteLibrary, savePaletteLibrary
+} from '../lib/palettes';
+
+interface PaletteEditorProps {
+  style: MapStyle;
+  onChange: (changes: Partial<MapStyle>) => void;
+}
+
+const PREVIEW_STEPS = 32;
+
+export const PaletteEditor: React.FC<PaletteEditorProps> = ({ style, onChange }) => {
+  const [library, setLibrary] = useState<SavedPalette[]>([]);
+  const [paletteName, setPaletteName] = useState('');
+
+  useEffect(() => {
+    setLibrary(loadPaletteLibrary());
+  }, []);
+
+  // Stops are edited in their stored order; reversing only affects how they are drawn
+  const stops = style.palette === 'custom' && style.customColors && style.customColors.length >= 2
+    ? style.customColors
+    : getPaletteColors({ ...style, reversePalette: false });
+  const interpolation = style.interpolation || 'rgb';
+  const interpolate = getInterpolator(style.reversePalette ? stops.slice().reverse() : stops, interpolation);
+
+  const setStops = (colors: string[]) => onChange({ palette: 'custom', customColors: colors });
+
+  const updateStop = (index: number, color: string) => setStops(stops.map((c, i) => (i === index ? color : c)));
+  const removeStop = (index: number) => setStops(stops.filter((_, i) => i !== index));
+  const addStop = () => setStops([...stops, stops[stops.length - 1]]);
+
+  const updateLibrary = (palettes: SavedPalette[]) => {
+    setLibrary(palettes);
+    savePaletteLibrary(palettes);
+  };
+
+  const handleSave = () => {
+    if (!paletteName.trim()) return;
+    updateLibrary([...library, { id: `palette-${Date.now()}`, name: paletteName.trim(), colors: stops, interpolation }]);
+    setPaletteName('');
+  };
+
+  const applySaved = (palette: SavedPalette) =>
+    onChange({ palette: 'custom', customColors: palette.colors, interpolation: palette.interpolation, reversePalette: false });
+
+  return (
+    <div className="space-y-3 p-3 rounded-xl bg-slate-900/30 border border-white/5">
+      {/* Preview */}
+      <div className="flex h-6 rounded-lg overflow-hidden border border-white/10">
+        {Array.from({ length: PREVIEW_STEPS }, (_, i) => (
+          <div key={i} className="flex-1 h-full" style={{ backgroundColor: interpolate(i / (PREVIEW_STEPS - 1)) }} />
+        ))}
+      </div>
+
+      {/* Stops */}
+      <div className="space-y-1.5">
+        <label className="text-[10px] text-slate-500 font-semibold">COLOR STOPS</label>
+        <div className="flex flex-wrap items-center gap-1.5">
+          {stops.map((color, i) => (
+            <div key={i} className="relative group">
+              <input type="color" value={color} onChange={(e) => updateStop(i, e.target.value)} className="w-7 h-7 bg-transparent border border-white/10 rounded cursor-pointer" />
+              {stops.length > 2 && (
+                <button onClick={() => removeStop(i)} className="absolute -top-1.5 -right-1.5 bg-slate-700 text-slate-300 hover:bg-red-500 hover:text-white rounded-full p-0.5 opacity-0 group-hover:opacity-100 transition-opacity" title="Remove stop">
+                  <X size={8} />
+                </button>
+              )}
+            </div>
+          ))}
+          {stops.length < 9 && (
+            <button onClick={addStop} className="w-7 h-7 flex items-center justify-center rounded border border-dashed border-white/20 text-slate-400 hover:text-white hover:border-white/40 transition-colors" title="Add stop">
+              <Plus size={12} />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Interpolation */}
+      <div className="space-y-1.5">
+        <label className="text-[10px] text-slate-500 font-semibold">INTERPOLATION</label>
+        <div className="grid grid-cols-3 gap-1 p-1 rounded-lg bg-slate-900/50 border border-white/10">
+          {INTERPOLATION_SPACES.map(space => (
+            <button key={space.value} onClick={() => onChange({ interpolation: space.value })} className={`py-1.5 rounded-md text-xs transition-colors ${interpolation === space.value ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-slate-200'}`}>{space.label}</button>
+          ))}
+        </div>
+      </div>
+
+      {/* Library */}
+      <div className="space-y-1.5">
+        <label className="text-[10px] text-slate-500 font-semibold">MY PALETTES</label>
+        <div className="flex gap-2">
+          <input type="text" placeholder="Palette name" value={paletteName} onChange={(e) => setPaletteName(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleSave()} className="flex-1 min-w-0 bg-slate-900/50 border border-white/10 rounded-lg p-2 text-xs text-slate-200 outline-none" />
+          <button onClick={handleSave} disabled={!paletteName.trim()} className="px-3 rounded-lg bg-white/5 hover:bg-accent hover:text-white border border-white/10 text-slate-300 disabled:opacity-50 disabled:cursor-not-allowed transition-all" title="Save to library">
+            <Save size={14} />
+          </button>
+        </div>
+        {library.map(palette => (
+          <div key={palette.id} className="flex items-center gap-2">
+            <button onClick={() => applySaved(palette)} className="flex-1 flex items-center gap-2 p-1.5 rounded-lg hover:bg-white/5 transition-colors min-w-0">
+              <div className="flex h-4 w-20 shrink-0 rounded overflow-hidden border border-white/10">
+                {palette.colors.map((color, i) => (<div key={i} className="flex-1 h-full" style={{ backgroundColor: color }} />))}
+              </div>
+              <span className="text-xs text-slate-300 truncate">{palette.name}</span>
+            </button>
+            <button onClick={() => updateLibrary(library.filter(p => p.id !== palette.id))} className="p-1 text-slate-500 hover:text-red-400 transition-colors" title="Delete palette">
+              <Trash2 size={12} />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
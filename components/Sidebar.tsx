@@ -3,23 +3,43 @@ import {
   ChevronLeft, ChevronRight, Sparkles, Database, Layers, 
   Zap, Upload, FileText, X, AlertCircle, Link as LinkIcon, Palette, RotateCcw, Check,
   Type, MousePointer2, AlignLeft, AlignCenter, AlignRight, LayoutTemplate,
-  BrainCircuit, TrendingUp, AlertTriangle, Lightbulb, Layout
+  BrainCircuit, TrendingUp, AlertTriangle, Lightbulb, Layout, CircleDot, ArrowLeftRight, Pipette, List
 } from 'lucide-react';
 import { GlassPanel } from './GlassPanel';
 import { 
-  MapStyle, PALETTES, DEFAULT_MAP_STYLE, PaletteType, ClassificationMethod,
+  MapStyle, PALETTES, DIVERGING_PALETTES, DEFAULT_MAP_STYLE, PaletteType, ClassificationMethod, MidpointType,
   LabelSettings, TitleSettings, DEFAULT_LABEL_SETTINGS, DEFAULT_TITLE_SETTINGS,
-  MapDataState, Insight, Suggestion, SAMPLE_DATASET
+  MapDataState, Insight, Suggestion, SAMPLE_DATASET, RenderMode, BivariateSettings, BivariatePaletteType,
+  SymbolSettings, LegendSettings, LegendPosition
 } from '../types';
 import { generateMapData } from '../services/geminiService';
-import { getCountryId, getCountryName } from '../lib/countryMapping';
-import * as d3 from 'd3';
+import { ImportSource } from '../lib/dataImport';
+import { BoundaryLayer, getRegionName } from '../lib/boundaries';
+import { Admin1Layer, loadAdmin1Layer } from '../lib/admin1';
+import { getCountryOptions } from '../lib/countryMapping';
+import { BoundaryPanel } from './BoundaryPanel';
+import { getImportFileKind, parseWorkbook, parseJsonImport } from '../lib/fileParsers';
+import { classify, getClassRangeLabel, getPaletteColors, getClassColors, formatBreak, CLASSIFICATION_METHODS, MIDPOINT_TYPES } from '../lib/classification';
+import { getClassificationValues } from '../lib/timeSeries';
+import { addMetrics, getMetrics } from '../lib/metrics';
+import { DEFAULT_SYMBOLS, resolveSymbolMetric } from '../lib/symbols';
+import { DEFAULT_LEGEND, LEGEND_POSITIONS } from '../lib/legend';
+import { NAMED_PALETTES, PALETTE_INFO } from '../lib/palettes';
+import { PaletteEditor } from './PaletteEditor';
+import { AccessibilityPanel } from './AccessibilityPanel';
+import { VisionSimulation, adjacentPairs, allPairs, gridPairs } from '../lib/accessibility';
+import { classifyCategories, isCategorical, DEFAULT_MAX_CATEGORIES, MAX_CATEGORIES, OTHER_CATEGORY } from '../lib/categories';
+import { BIVARIATE_PALETTES, DEFAULT_BIVARIATE, getBivariateColors, resolveBivariateMetrics } from '../lib/bivariate';
+import { isProjectFileName } from '../lib/project';
+import { MissingData } from '../lib/shareLink';
 
 interface SidebarProps {
   isCollapsed: boolean;
   toggleSidebar: () => void;
   mapStyle: MapStyle;
   setMapStyle: Dispatch<SetStateAction<MapStyle>>;
+  styleScope: 'map' | 'metric';
+  setStyleScope: (scope: 'map' | 'metric') => void;
   mapData: MapDataState | null;
   setMapData: (data: MapDataState | null) => void;
   
@@ -30,18 +50,35 @@ interface SidebarProps {
   isAddingAnnotation: boolean;
   setIsAddingAnnotation: (isAdding: boolean) => void;
   onOpenGallery: () => void; // New Prop
+  onOpenImport: (source: ImportSource) => void;
+  boundaries: BoundaryLayer | null;
+  setBoundaries: (layer: BoundaryLayer | null) => void;
+  admin1: Admin1Layer | null;
+  setAdmin1: (layer: Admin1Layer | null) => void;
+  visionSimulation: VisionSimulation;
+  setVisionSimulation: (simulation: VisionSimulation) => void;
+  missingData: MissingData | null; // A share link arrived without its data
+  labelNextEdit: (label: string) => void; // Names the undo step for the edits that follow
 }
 
 type TabType = 'prompt' | 'upload' | 'style' | 'text' | 'analysis';
 
+const COUNTRY_OPTIONS = getCountryOptions();
+
 export const Sidebar: React.FC<SidebarProps> = ({ 
   isCollapsed, toggleSidebar, 
   mapStyle, setMapStyle,
+  styleScope, setStyleScope,
   mapData, setMapData,
   labelSettings, setLabelSettings,
   titleSettings, setTitleSettings,
   isAddingAnnotation, setIsAddingAnnotation,
-  onOpenGallery
+  onOpenGallery,
+  onOpenImport,
+  boundaries, setBoundaries,
+  admin1, setAdmin1,
+  visionSimulation, setVisionSimulation,
+  missingData, labelNextEdit
 }) => {
   // Navigation State
   const [activeTab, setActiveTab] = useState<TabType>('prompt');
@@ -51,6 +88,9 @@ export const Sidebar: React.FC<SidebarProps> = ({
   const [isFocused, setIsFocused] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
   const [autocompleteSuggestions, setAutocompleteSuggestions] = useState<string[]>([]);
+  // '' generates country data; a country id generates data for its states or provinces
+  const [generationCountryId, setGenerationCountryId] = useState(admin1?.countryId || '');
+  const [appendGenerated, setAppendGenerated] = useState(true);
   
   // File Upload State
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
@@ -63,6 +103,10 @@ export const Sidebar: React.FC<SidebarProps> = ({
   const [smartSuggestions, setSmartSuggestions] = useState<Suggestion[]>([]);
   const [dataHealth, setDataHealth] = useState<'good' | 'warning'>('good');
 
+  // Manual break input is kept as raw text so partial entries like "10," don't get eaten
+  const [manualBreaksText, setManualBreaksText] = useState((mapStyle.manualBreaks || []).join(', '));
+  const [paletteFilters, setPaletteFilters] = useState({ colorblindSafe: false, printFriendly: false });
+
   const maxLength = 500;
   
   const examples = [
@@ -74,7 +118,12 @@ export const Sidebar: React.FC<SidebarProps> = ({
 
   // -- Effects --
 
-  // Auto-switch to Analysis tab when data loads
+  // A link that left its data out opens on the upload tab with a note about what to supply
+  useEffect(() => {
+    if (missingData) setActiveTab('upload');
+  }, [missingData]);
+
+  // Auto-switch to Analysis tab when data loads or the metric changes (not on per-metric style edits)
   useEffect(() => {
     if (mapData) {
       setActiveTab('analysis');
@@ -85,7 +134,17 @@ export const Sidebar: React.FC<SidebarProps> = ({
       setSmartSuggestions([]);
       setDataHealth('good');
     }
-  }, [mapData]);
+  }, [mapData?.values, mapData?.categories]);
+
+  // Each metric can have its own manual breaks
+  useEffect(() => {
+    setManualBreaksText((mapStyle.manualBreaks || []).join(', '));
+  }, [mapData?.metric]);
+
+  // Follow the map when it drills into or out of a country
+  useEffect(() => {
+    setGenerationCountryId(admin1?.countryId || '');
+  }, [admin1]);
 
   // Autocomplete Logic
   useEffect(() => {
@@ -104,6 +163,34 @@ export const Sidebar: React.FC<SidebarProps> = ({
     }
   }, [prompt]);
 
+  // Shared class breaks (same computation as the map legend and tooltips)
+  const classification = useMemo(() => {
+    if (!mapData) return null;
+    return classify(getClassificationValues(mapData), mapStyle);
+  }, [mapData, mapStyle]);
+
+  const categorical = useMemo(
+    () => mapData?.categories ? classifyCategories(mapData.categories, mapStyle) : null,
+    [mapData, mapStyle]
+  );
+
+  const metrics = mapData ? getMetrics(mapData) : [];
+  const numericMetrics = metrics.filter(m => !isCategorical(m));
+  const isBivariate = resolveBivariateMetrics(mapStyle, numericMetrics) !== null;
+
+  // The colours the accessibility check compares, as the legend shows them for the current mode
+  const accessibilityClasses = useMemo(() => {
+    if (isBivariate && mapStyle.bivariate) {
+      const { palette, size } = mapStyle.bivariate;
+      return { colors: getBivariateColors(palette, size).flat(), pairs: gridPairs(size) };
+    }
+    if (categorical) {
+      return { colors: categorical.classes.map(c => c.color), pairs: allPairs(categorical.classes.length) };
+    }
+    const colors = classification?.colors || getClassColors(mapStyle, mapStyle.classesCount);
+    return { colors, pairs: adjacentPairs(colors.length) };
+  }, [isBivariate, categorical, classification, mapStyle]);
+
   // -- AI Logic --
 
   const checkDataHealth = (data: MapDataState) => {
@@ -126,12 +213,40 @@ export const Sidebar: React.FC<SidebarProps> = ({
       }
     });
     
+    labelNextEdit('Fix data issues');
     setMapData({ ...mapData, values: newValues });
     setDataHealth('good');
     // Show a temporary success message in reality
   };
 
+  // Admin-1 codes only resolve against the drilled-down country
+  const regionName = (id: string) => getRegionName(id, boundaries) || (admin1 ? getRegionName(id, admin1) : null);
+
+  // Categories have no highs, lows or averages; report how the regions are spread over them
+  const generateCategoryInsights = (data: MapDataState, categories: Record<string, string>) => {
+    const counts = new Map<string, number>();
+    Object.values(categories).forEach(c => counts.set(c, (counts.get(c) || 0) + 1));
+    const ranked = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+
+    setInsights([
+      { type: 'trend', text: 'Categories', value: String(counts.size) },
+      { type: 'outlier', text: 'Most Common', value: `${ranked[0][0]} (${ranked[0][1]})` },
+      { type: 'missing', text: 'Regions Covered', value: String(Object.keys(categories).length) },
+    ]);
+    setSmartSuggestions([{
+      id: 'title',
+      title: 'Update Map Title',
+      description: `Rename to "Global ${data.metric}"`,
+      action: () => setTitleSettings(prev => ({ ...prev, title: `Global ${data.metric}`, subtitle: 'Distribution by Country' })),
+      icon: <Type size={16} />
+    }]);
+  };
+
   const generateAIContent = (data: MapDataState) => {
+    if (data.categories) {
+      generateCategoryInsights(data, data.categories);
+      return;
+    }
     const values = Object.values(data.values);
     const maxVal = Math.max(...values);
     const minVal = Math.min(...values);
@@ -142,11 +257,11 @@ export const Sidebar: React.FC<SidebarProps> = ({
     
     // Find highest
     const maxKey = Object.keys(data.values).find(key => data.values[key] === maxVal);
-    const maxCountry = maxKey ? getCountryName(maxKey) : null;
+    const maxCountry = maxKey ? regionName(maxKey) : null;
     
     // Find lowest
     const minKey = Object.keys(data.values).find(key => data.values[key] === minVal);
-    const minCountry = minKey ? getCountryName(minKey) : null;
+    const minCountry = minKey ? regionName(minKey) : null;
 
     newInsights.push({ 
       type: 'outlier', 
@@ -178,7 +293,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
       id: 'title',
       title: 'Update Map Title',
       description: `Rename to "Global ${data.metric} Analysis"`,
-      action: () => setTitleSettings(prev => ({ ...prev, title: `Global ${data.metric} Analysis`, subtitle: `Distribution by Country (${data.unit})` })),
+      action: () => setTitleSettings(prev => ({ ...prev, title: `Global ${data.metric} Analysis`, subtitle: `Distribution by Country${data.unit ? ` (${data.unit})` : ''}` })),
       icon: <Type size={16} />
     });
 
@@ -237,7 +352,8 @@ export const Sidebar: React.FC<SidebarProps> = ({
     
     setIsGenerating(true);
     try {
-      const result = await generateMapData(prompt);
+      const regions = generationCountryId && !boundaries ? await loadAdmin1Layer(generationCountryId) : null;
+      const result = await generateMapData(prompt, regions);
       
       // Normalize Values to ensure they are numbers
       const normalizedValues: Record<string, number> = {};
@@ -249,10 +365,10 @@ export const Sidebar: React.FC<SidebarProps> = ({
       });
 
       // Update Map Data
-      setMapData({
-        ...result.mapData,
-        values: normalizedValues
-      });
+      const generated = { ...result.mapData, values: normalizedValues };
+      labelNextEdit('Generate map');
+      setMapData(appendGenerated && mapData ? addMetrics(mapData, generated) : generated);
+      if (regions) setAdmin1(regions);
       
       // Update Style if provided
       if (result.mapStyle) {
@@ -276,53 +392,43 @@ export const Sidebar: React.FC<SidebarProps> = ({
   const handleDragLeave = (e: DragEvent<HTMLDivElement>) => { e.preventDefault(); setIsDragging(false); };
   const handleDrop = (e: DragEvent<HTMLDivElement>) => {
     e.preventDefault(); setIsDragging(false);
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) validateAndSetFile(e.dataTransfer.files[0]);
+    const file = e.dataTransfer.files?.[0];
+    // Project files bubble up to the app, which opens them as a whole workspace
+    if (file && !isProjectFileName(file.name)) validateAndSetFile(file);
   };
   const validateAndSetFile = (file: File) => {
+    const kind = getImportFileKind(file.name);
     const reader = new FileReader();
     reader.onload = (e) => {
-      const text = e.target?.result as string;
-      if (!text) return;
+      const content = e.target?.result;
+      if (!content || (typeof content === 'string' && !content.trim())) {
+        setUploadError("The file is empty");
+        return;
+      }
 
       try {
-        const data = d3.csvParse(text);
-        if (data.length === 0) throw new Error("Empty CSV");
-
-        // Find columns
-        const columns = data.columns;
-        const countryCol = columns.find(c => /country|code|id|name|iso/i.test(c)) || columns[0];
-        const valueCol = columns.find(c => /value|amount|count|score|index|rate/i.test(c)) || columns[1];
-
-        if (!countryCol || !valueCol) throw new Error("Could not identify columns");
-
-        const values: Record<string, number> = {};
-        data.forEach(row => {
-          const countryRaw = row[countryCol];
-          const valueRaw = row[valueCol];
-          if (countryRaw && valueRaw) {
-            const id = getCountryId(countryRaw);
-            const val = parseFloat(valueRaw.replace(/[^0-9.-]+/g, ""));
-            if (id && !isNaN(val)) {
-              values[id] = val;
-            }
-          }
-        });
-
-        if (Object.keys(values).length === 0) throw new Error("No valid country data found");
-
-        setMapData({
-          values,
-          metric: valueCol,
-          unit: "Value"
-        });
+        // Column selection, sheet/header and delimiter handling happen in the import wizard
+        let source: ImportSource;
+        if (kind === 'excel') {
+          const sheets = parseWorkbook(content as ArrayBuffer);
+          if (sheets.length === 0) throw new Error("The workbook has no data");
+          source = { fileName: file.name, sheets };
+        } else if (kind === 'json') {
+          source = parseJsonImport(file.name, content as string);
+        } else {
+          source = { fileName: file.name, text: content as string };
+        }
         setUploadedFile(file);
         setUploadError(null);
+        onOpenImport(source);
       } catch (err) {
-        console.error("CSV Parse Error:", err);
-        setUploadError(err instanceof Error ? err.message : "Failed to parse CSV");
+        console.error("File Parse Error:", err);
+        setUploadError(err instanceof Error ? err.message : "Failed to parse file");
       }
     };
-    reader.readAsText(file);
+    reader.onerror = () => setUploadError("Could not read the file");
+    if (kind === 'excel') reader.readAsArrayBuffer(file);
+    else reader.readAsText(file);
   };
   const handleFileInput = (e: ChangeEvent<HTMLInputElement>) => {
     if (e.target.files?.[0]) validateAndSetFile(e.target.files[0]);
@@ -340,6 +446,56 @@ export const Sidebar: React.FC<SidebarProps> = ({
   const updateStyle = <K extends keyof MapStyle>(key: K, value: MapStyle[K]) => {
     setMapStyle({ ...mapStyle, [key]: value });
   };
+  // Missing or stale metric names fall back to the first two metrics of the dataset
+  const updateBivariate = (changes: Partial<BivariateSettings>, renderMode?: RenderMode) => {
+    setMapStyle(prev => {
+      const names = numericMetrics.map(m => m.name);
+      const stored = prev.bivariate || DEFAULT_BIVARIATE;
+      const current: BivariateSettings = {
+        size: stored.size,
+        palette: stored.palette,
+        xMetric: prev.bivariate && names.includes(prev.bivariate.xMetric) ? prev.bivariate.xMetric : names[0] || '',
+        yMetric: prev.bivariate && names.includes(prev.bivariate.yMetric) ? prev.bivariate.yMetric : names[1] || '',
+      };
+      return { ...prev, renderMode: renderMode || prev.renderMode, bivariate: { ...current, ...changes } };
+    });
+  };
+  const updateSymbols = <K extends keyof SymbolSettings>(key: K, value: SymbolSettings[K]) => {
+    setMapStyle(prev => ({ ...prev, symbols: { ...DEFAULT_SYMBOLS, ...prev.symbols, [key]: value } }));
+  };
+  const symbolSettings = { ...DEFAULT_SYMBOLS, ...mapStyle.symbols };
+  const updateLegend = <K extends keyof LegendSettings>(key: K, value: LegendSettings[K]) => {
+    setMapStyle(prev => ({ ...prev, legend: { ...DEFAULT_LEGEND, ...prev.legend, [key]: value } }));
+  };
+  const legendSettings = { ...DEFAULT_LEGEND, ...mapStyle.legend };
+  // Each scale type has its own palettes, so switching also swaps a palette that no longer fits
+  const setDiverging = (on: boolean) => {
+    setMapStyle(prev => {
+      const fits = on === DIVERGING_PALETTES.includes(prev.palette) || prev.palette === 'custom';
+      return {
+        ...prev,
+        diverging: on ? prev.diverging || { midpoint: 'mean', value: 0 } : undefined,
+        palette: fits ? prev.palette : on ? 'redBlue' : 'ocean',
+      };
+    });
+  };
+  // A new custom palette starts from the stops of the one being replaced
+  const startCustomPalette = () => {
+    setMapStyle(prev => ({
+      ...prev,
+      palette: 'custom',
+      customColors: prev.customColors && prev.customColors.length >= 2 ? prev.customColors : getPaletteColors({ ...prev, reversePalette: false }),
+    }));
+  };
+  const setCategoryColor = (category: string, color: string | null) => {
+    const { [category]: _, ...rest } = mapStyle.categoryColors || {};
+    updateStyle('categoryColors', color ? { ...rest, [category]: color } : rest);
+  };
+  const handleManualBreaksChange = (text: string) => {
+    setManualBreaksText(text);
+    const breaks = text.split(/[,;\s]+/).map(t => parseFloat(t)).filter(v => !isNaN(v));
+    setMapStyle({ ...mapStyle, manualBreaks: breaks, classesCount: Math.max(2, breaks.length + 1) });
+  };
   const updateLabelSettings = <K extends keyof LabelSettings>(key: K, value: LabelSettings[K]) => {
     setLabelSettings({ ...labelSettings, [key]: value });
   };
@@ -483,6 +639,26 @@ export const Sidebar: React.FC<SidebarProps> = ({
                   )}
                 </div>
 
+                {/* Target Level */}
+                {!boundaries && (
+                  <div className="space-y-1.5">
+                    <label className="text-[10px] text-slate-500 font-semibold">LEVEL</label>
+                    <select value={generationCountryId} onChange={(e) => setGenerationCountryId(e.target.value)} className="w-full bg-slate-900/50 border border-white/10 rounded-lg py-2 px-3 text-xs text-slate-200 outline-none">
+                      <option value="">World countries</option>
+                      <optgroup label="States / provinces of">
+                        {COUNTRY_OPTIONS.map(c => (<option key={c.id} value={c.id}>{c.name}</option>))}
+                      </optgroup>
+                    </select>
+                  </div>
+                )}
+
+                {mapData && (
+                  <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                    <input type="checkbox" checked={appendGenerated} onChange={(e) => setAppendGenerated(e.target.checked)} className="accent-cyan-500" />
+                    Add as a new metric to the current dataset
+                  </label>
+                )}
+
                 {/* Generate Button */}
                 <button 
                   onClick={handleGenerateMap}
@@ -565,6 +741,51 @@ export const Sidebar: React.FC<SidebarProps> = ({
                     </div>
                  </div>
 
+                 {/* Category Counts */}
+                 {categorical && (
+                   <div className="space-y-3">
+                      <div className="flex items-center gap-2 text-slate-400 text-xs font-bold uppercase tracking-wider">
+                         <Layers size={12} />
+                         <span>Categories</span>
+                      </div>
+                      <div className="grid gap-1.5">
+                         {categorical.classes.map(c => (
+                           <div key={c.label} className="flex items-center justify-between p-2 rounded-lg bg-slate-900/40 border border-white/5">
+                              <div className="flex items-center gap-2 min-w-0">
+                                 <div className="w-3 h-3 shrink-0 rounded-sm border border-white/10" style={{ backgroundColor: c.color }} />
+                                 <span className="text-xs text-slate-300 truncate">{c.label}</span>
+                              </div>
+                              <span className="text-[10px] text-slate-500 shrink-0">{c.count} {c.count === 1 ? 'country' : 'countries'}</span>
+                           </div>
+                         ))}
+                      </div>
+                   </div>
+                 )}
+
+                 {/* Class Breaks */}
+                 {classification && (
+                   <div className="space-y-3">
+                      <div className="flex items-center gap-2 text-slate-400 text-xs font-bold uppercase tracking-wider">
+                         <Layers size={12} />
+                         <span>Class Breaks</span>
+                      </div>
+                      <div className="grid gap-1.5">
+                         {classification.colors.map((color, i) => {
+                            const count = Object.values(mapData.values).filter(v => classification.classIndex(v) === i).length;
+                            return (
+                              <div key={i} className="flex items-center justify-between p-2 rounded-lg bg-slate-900/40 border border-white/5">
+                                 <div className="flex items-center gap-2">
+                                    <div className="w-3 h-3 rounded-sm border border-white/10" style={{ backgroundColor: color }} />
+                                    <span className="text-xs font-mono text-slate-300">{getClassRangeLabel(classification, i)}</span>
+                                 </div>
+                                 <span className="text-[10px] text-slate-500">{count} {count === 1 ? 'country' : 'countries'}</span>
+                              </div>
+                            );
+                         })}
+                      </div>
+                   </div>
+                 )}
+
                  {/* ... Keep Smart Suggestions ... */}
                  <div className="space-y-3">
                     <div className="flex items-center gap-2 text-slate-400 text-xs font-bold uppercase tracking-wider">
@@ -575,7 +796,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
                        {smartSuggestions.map((s) => (
                           <button 
                             key={s.id}
-                            onClick={s.action}
+                            onClick={() => { labelNextEdit(s.title); s.action(); }}
                             className="text-left group relative overflow-hidden p-3 rounded-xl bg-gradient-to-br from-slate-900 to-slate-800 border border-white/10 hover:border-accent/50 transition-all"
                           >
                              <div className="absolute inset-0 bg-accent/5 opacity-0 group-hover:opacity-100 transition-opacity" />
@@ -602,12 +823,27 @@ export const Sidebar: React.FC<SidebarProps> = ({
             {/* ... Other Tabs (Upload, Style, Text) ... */}
             {activeTab === 'upload' && (
               <div className="space-y-4 animate-in fade-in slide-in-from-bottom-2 duration-300">
+                  {missingData && (
+                    <div className="p-3 rounded-xl bg-accent/10 border border-accent/30 flex gap-3 animate-in fade-in slide-in-from-top-2">
+                      <LinkIcon size={16} className="text-accent shrink-0 mt-0.5" />
+                      <div>
+                        <p className="text-[10px] font-bold text-accent uppercase tracking-wider mb-1">Data needed</p>
+                        <p className="text-[10px] text-slate-400 leading-relaxed">
+                          This shared map was too large to carry its data. The style and view are ready; upload the file with
+                          {missingData.metrics.length > 0 ? <> <span className="text-slate-200">{missingData.metrics.join(', ')}</span></> : ' its values'}
+                          {missingData.regions > 0 && ` for ${missingData.regions} regions`} to finish it.
+                          {missingData.boundaries && <> Load the <span className="text-slate-200">{missingData.boundaries}</span> boundaries below first.</>}
+                        </p>
+                      </div>
+                    </div>
+                  )}
+
                   <div className="p-3 rounded-xl bg-amber-500/10 border border-amber-500/20 flex gap-3">
                     <AlertCircle size={16} className="text-amber-500 shrink-0 mt-0.5" />
                     <div>
-                      <p className="text-[10px] font-bold text-amber-500 uppercase tracking-wider mb-1">Sample CSV Format</p>
+                      <p className="text-[10px] font-bold text-amber-500 uppercase tracking-wider mb-1">Supported Formats</p>
                       <p className="text-[10px] text-slate-400 leading-relaxed">
-                        Use ISO numeric codes (e.g., 840 for USA) or country names. 
+                        CSV, Excel or JSON with country names or ISO codes (840, US or USA). You can pick the columns after upload.
                         Example: <code className="text-amber-200 bg-black/20 px-1 rounded">Country,Value</code>
                       </p>
                     </div>
@@ -649,6 +885,10 @@ export const Sidebar: React.FC<SidebarProps> = ({
                       <p className="text-sm font-medium text-slate-200 group-hover:text-white transition-colors">Drop file or <span className="text-accent underline decoration-dotted underline-offset-4">browse</span></p>
                   </div>
                   
+                  <div className="pt-4 border-t border-white/5">
+                      <BoundaryPanel boundaries={boundaries} onApply={setBoundaries} />
+                  </div>
+
                   {/* Quick Load Demo Data in Upload Tab for easy access */}
                   <div className="pt-4 border-t border-white/5">
                       <p className="text-xs text-slate-500 mb-3">Or start with sample data:</p>
@@ -668,28 +908,241 @@ export const Sidebar: React.FC<SidebarProps> = ({
 
             {activeTab === 'style' && (
               <div className="space-y-6 animate-in fade-in slide-in-from-bottom-2 duration-300 pb-6">
+                {/* Palette and classification can be set per metric */}
+                {mapData && (
+                  <div className="space-y-1.5">
+                    <label className="text-[10px] text-slate-500 font-semibold">APPLY COLORS TO</label>
+                    <div className="grid grid-cols-2 gap-1 p-1 rounded-lg bg-slate-900/50 border border-white/10">
+                      <button onClick={() => setStyleScope('map')} className={`py-1.5 rounded-md text-xs transition-colors ${styleScope === 'map' ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-slate-200'}`}>All metrics</button>
+                      <button onClick={() => setStyleScope('metric')} className={`py-1.5 rounded-md text-xs truncate px-2 transition-colors ${styleScope === 'metric' ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-slate-200'}`} title={mapData.metric}>{mapData.metric} only</button>
+                    </div>
+                  </div>
+                )}
+                {numericMetrics.length > 1 && (
+                  <div className="space-y-3">
+                    <div className="space-y-1.5">
+                      <label className="text-[10px] text-slate-500 font-semibold">MODE</label>
+                      <div className="grid grid-cols-2 gap-1 p-1 rounded-lg bg-slate-900/50 border border-white/10">
+                        <button onClick={() => updateBivariate({}, 'choropleth')} className={`py-1.5 rounded-md text-xs transition-colors ${!isBivariate ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-slate-200'}`}>Single metric</button>
+                        <button onClick={() => updateBivariate({}, 'bivariate')} className={`py-1.5 rounded-md text-xs transition-colors ${isBivariate ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-slate-200'}`}>Bivariate</button>
+                      </div>
+                    </div>
+                    {isBivariate && mapStyle.bivariate && (
+                      <>
+                        <div className="grid grid-cols-2 gap-2">
+                          {(['xMetric', 'yMetric'] as const).map(axis => (
+                            <div key={axis} className="space-y-1.5">
+                              <label className="text-[10px] text-slate-500 font-semibold">{axis === 'xMetric' ? 'HORIZONTAL' : 'VERTICAL'}</label>
+                              <select value={mapStyle.bivariate![axis]} onChange={(e) => updateBivariate({ [axis]: e.target.value })} className="w-full bg-slate-900/50 border border-white/10 rounded-lg py-2 px-3 text-xs text-slate-200 outline-none">
+                                {numericMetrics.map(m => (<option key={m.name} value={m.name}>{m.name}</option>))}
+                              </select>
+                            </div>
+                          ))}
+                        </div>
+                        <div className="space-y-1.5">
+                          <label className="text-[10px] text-slate-500 font-semibold">GRID</label>
+                          <div className="grid grid-cols-2 gap-1 p-1 rounded-lg bg-slate-900/50 border border-white/10">
+                            {([3, 4] as const).map(size => (
+                              <button key={size} onClick={() => updateBivariate({ size })} className={`py-1.5 rounded-md text-xs transition-colors ${mapStyle.bivariate!.size === size ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-slate-200'}`}>{size} × {size}</button>
+                            ))}
+                          </div>
+                        </div>
+                      </>
+                    )}
+                  </div>
+                )}
+                {mapData && (
+                  <div className="space-y-3">
+                    <div className="flex items-center gap-2 text-slate-400 text-xs font-bold uppercase tracking-wider">
+                      <CircleDot size={12} />
+                      <span>Layers</span>
+                    </div>
+                    <div className="flex items-center justify-between p-3 rounded-xl bg-slate-900/30 border border-white/5">
+                      <span className="text-xs text-slate-300">Color fill</span>
+                      <button onClick={() => updateStyle('showFill', mapStyle.showFill === false)} className={`relative w-9 h-5 rounded-full transition-colors duration-300 ${mapStyle.showFill !== false ? 'bg-accent' : 'bg-slate-700'}`}><div className={`absolute top-1 left-1 bg-white w-3 h-3 rounded-full shadow-sm transition-transform duration-300 ${mapStyle.showFill !== false ? 'translate-x-4' : 'translate-x-0'}`} /></button>
+                    </div>
+                    <div className="flex items-center justify-between p-3 rounded-xl bg-slate-900/30 border border-white/5">
+                      <span className="text-xs text-slate-300">Proportional symbols</span>
+                      <button onClick={() => updateSymbols('enabled', !symbolSettings.enabled)} className={`relative w-9 h-5 rounded-full transition-colors duration-300 ${symbolSettings.enabled ? 'bg-accent' : 'bg-slate-700'}`}><div className={`absolute top-1 left-1 bg-white w-3 h-3 rounded-full shadow-sm transition-transform duration-300 ${symbolSettings.enabled ? 'translate-x-4' : 'translate-x-0'}`} /></button>
+                    </div>
+                    {symbolSettings.enabled && (
+                      <>
+                        {numericMetrics.length > 1 && (
+                          <div className="space-y-1.5">
+                            <label className="text-[10px] text-slate-500 font-semibold">SIZE BY</label>
+                            <select value={resolveSymbolMetric(mapStyle, numericMetrics, mapData.metric)?.name} onChange={(e) => updateSymbols('metric', e.target.value)} className="w-full bg-slate-900/50 border border-white/10 rounded-lg py-2 px-3 text-xs text-slate-200 outline-none">
+                              {numericMetrics.map(m => (<option key={m.name} value={m.name}>{m.name}</option>))}
+                            </select>
+                          </div>
+                        )}
+                        <div className="space-y-1.5">
+                          <div className="flex items-center justify-between">
+                            <label className="text-[10px] text-slate-500 font-semibold">MAX SIZE</label>
+                            <span className="text-[10px] font-mono text-accent">{symbolSettings.maxRadius}px</span>
+                          </div>
+                          <input type="range" min={8} max={60} step={1} value={symbolSettings.maxRadius} onChange={(e) => updateSymbols('maxRadius', parseInt(e.target.value, 10))} className="w-full accent-cyan-500" />
+                        </div>
+                        <div className="flex items-center justify-between">
+                          <label className="text-[10px] text-slate-500 font-semibold">SYMBOL COLOR</label>
+                          <input type="color" value={symbolSettings.color} onChange={(e) => updateSymbols('color', e.target.value)} className="w-8 h-6 bg-transparent border border-white/10 rounded cursor-pointer" />
+                        </div>
+                      </>
+                    )}
+                  </div>
+                )}
+                {isBivariate && mapStyle.bivariate ? (
                 <div className="space-y-3">
                   <div className="flex items-center gap-2 text-slate-400 text-xs font-bold uppercase tracking-wider">
                     <Palette size={12} />
-                    <span>Color Scheme</span>
+                    <span>Bivariate Scheme</span>
                   </div>
                   <div className="grid grid-cols-1 gap-2">
-                    {(Object.keys(PALETTES) as PaletteType[]).filter(k => k !== 'custom').map((p) => (
+                    {(Object.keys(BIVARIATE_PALETTES) as BivariatePaletteType[]).map((p) => (
+                      <button key={p} onClick={() => updateBivariate({ palette: p })} className={`group relative p-2 rounded-xl border flex items-center gap-3 transition-all ${mapStyle.bivariate!.palette === p ? 'bg-slate-800 border-accent/50' : 'bg-slate-900/30 border-white/5'}`}>
+                        {mapStyle.bivariate!.palette === p && <div className="absolute right-2 top-1/2 -translate-y-1/2 text-accent"><Check size={14} /></div>}
+                        <div className="grid gap-px rounded overflow-hidden border border-white/10" style={{ gridTemplateColumns: `repeat(${mapStyle.bivariate!.size}, 8px)` }}>
+                          {getBivariateColors(p, mapStyle.bivariate!.size).slice().reverse().flat().map((color, i) => (<div key={i} className="w-2 h-2" style={{ backgroundColor: color }} />))}
+                        </div>
+                        <span className="text-xs font-medium text-slate-300">{BIVARIATE_PALETTES[p].label}</span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                ) : categorical ? (
+                <div className="space-y-3">
+                  <div className="flex items-center gap-2 text-slate-400 text-xs font-bold uppercase tracking-wider">
+                    <Palette size={12} />
+                    <span>Categories</span>
+                  </div>
+                  <div className="space-y-1.5">
+                    {categorical.classes.map(c => (
+                      <div key={c.label} className="flex items-center gap-2 p-2 rounded-lg bg-slate-900/40 border border-white/5" title={c.members.length > 1 ? c.members.join(', ') : undefined}>
+                        <input type="color" value={c.color} onChange={(e) => setCategoryColor(c.label, e.target.value)} className="w-6 h-6 shrink-0 bg-transparent border border-white/10 rounded cursor-pointer" />
+                        <span className="flex-1 text-xs text-slate-300 truncate">{c.label}</span>
+                        <span className="text-[10px] text-slate-500">{c.count}</span>
+                        {mapStyle.categoryColors?.[c.label] && (
+                          <button onClick={() => setCategoryColor(c.label, null)} className="text-slate-500 hover:text-slate-300" title="Reset color"><RotateCcw size={12} /></button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                  <div className="space-y-1.5">
+                    <div className="flex items-center justify-between">
+                      <label className="text-[10px] text-slate-500 font-semibold">MAX CATEGORIES</label>
+                      <span className="text-[10px] font-mono text-accent">{Math.min(MAX_CATEGORIES, mapStyle.maxCategories ?? DEFAULT_MAX_CATEGORIES)}</span>
+                    </div>
+                    <input type="range" min={2} max={MAX_CATEGORIES} step={1} value={mapStyle.maxCategories ?? DEFAULT_MAX_CATEGORIES} onChange={(e) => updateStyle('maxCategories', parseInt(e.target.value, 10))} className="w-full accent-cyan-500" />
+                    <p className="text-[10px] text-slate-500">Rarer categories are grouped as "{OTHER_CATEGORY}".</p>
+                  </div>
+                </div>
+                ) : (
+                <div className="space-y-3">
+                  <div className="flex items-center gap-2 text-slate-400 text-xs font-bold uppercase tracking-wider">
+                    <Palette size={12} />
+                    <span>Color Scheme</span>
+                  </div>
+                  <div className="space-y-1.5">
+                    <label className="text-[10px] text-slate-500 font-semibold">SCALE</label>
+                    <div className="grid grid-cols-2 gap-1 p-1 rounded-lg bg-slate-900/50 border border-white/10">
+                      <button onClick={() => setDiverging(false)} className={`py-1.5 rounded-md text-xs transition-colors ${!mapStyle.diverging ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-slate-200'}`}>Sequential</button>
+                      <button onClick={() => setDiverging(true)} className={`py-1.5 rounded-md text-xs transition-colors ${mapStyle.diverging ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-slate-200'}`}>Diverging</button>
+                    </div>
+                  </div>
+                  {mapStyle.diverging && (
+                    <div className="grid grid-cols-2 gap-2">
+                      <div className="space-y-1.5">
+                        <label className="text-[10px] text-slate-500 font-semibold">MIDPOINT</label>
+                        <select value={mapStyle.diverging.midpoint} onChange={(e) => updateStyle('diverging', { ...mapStyle.diverging!, midpoint: e.target.value as MidpointType })} className="w-full bg-slate-900/50 border border-white/10 rounded-lg py-2 px-3 text-xs text-slate-200 outline-none">
+                          {MIDPOINT_TYPES.map(m => (<option key={m.value} value={m.value}>{m.label}</option>))}
+                        </select>
+                      </div>
+                      <div className="space-y-1.5">
+                        <label className="text-[10px] text-slate-500 font-semibold">VALUE</label>
+                        {mapStyle.diverging.midpoint === 'value' ? (
+                          <input type="number" value={mapStyle.diverging.value} onChange={(e) => { const value = parseFloat(e.target.value); if (!isNaN(value)) updateStyle('diverging', { ...mapStyle.diverging!, value }); }} className="w-full bg-slate-900/50 border border-white/10 rounded-lg py-2 px-3 text-xs text-slate-200 font-mono outline-none" />
+                        ) : (
+                          <div className="py-2 px-1 text-xs font-mono text-accent">{classification?.midpoint !== undefined ? formatBreak(classification.midpoint) : '—'}</div>
+                        )}
+                      </div>
+                    </div>
+                  )}
+                  <div className="flex flex-wrap items-center gap-1.5">
+                    {([['colorblindSafe', 'Colorblind-safe'], ['printFriendly', 'Print-friendly']] as const).map(([flag, label]) => (
+                      <button key={flag} onClick={() => setPaletteFilters(prev => ({ ...prev, [flag]: !prev[flag] }))} className={`px-2 py-1 rounded-full text-[10px] font-semibold border transition-colors ${paletteFilters[flag] ? 'bg-accent/20 border-accent/50 text-accent' : 'border-white/10 text-slate-400 hover:text-slate-200'}`}>{label}</button>
+                    ))}
+                    <button onClick={() => updateStyle('reversePalette', !mapStyle.reversePalette)} className={`ml-auto flex items-center gap-1 px-2 py-1 rounded-full text-[10px] font-semibold border transition-colors ${mapStyle.reversePalette ? 'bg-accent/20 border-accent/50 text-accent' : 'border-white/10 text-slate-400 hover:text-slate-200'}`} title="Reverse palette"><ArrowLeftRight size={10} /> Reverse</button>
+                  </div>
+                  <div className="grid grid-cols-1 gap-1.5 max-h-72 overflow-y-auto custom-scrollbar pr-1">
+                    {NAMED_PALETTES
+                      .filter(p => DIVERGING_PALETTES.includes(p) === !!mapStyle.diverging)
+                      .filter(p => (!paletteFilters.colorblindSafe || PALETTE_INFO[p].colorblindSafe) && (!paletteFilters.printFriendly || PALETTE_INFO[p].printFriendly))
+                      .map((p) => (
                       <button key={p} onClick={() => updateStyle('palette', p)} className={`group relative p-2 rounded-xl border flex items-center gap-3 transition-all ${mapStyle.palette === p ? 'bg-slate-800 border-accent/50' : 'bg-slate-900/30 border-white/5'}`}>
                         {mapStyle.palette === p && <div className="absolute right-2 top-1/2 -translate-y-1/2 text-accent"><Check size={14} /></div>}
-                        <div className="flex h-8 w-32 rounded-lg overflow-hidden border border-white/10">{PALETTES[p].map((color, i) => (<div key={i} className="flex-1 h-full" style={{ backgroundColor: color }} />))}</div>
-                        <span className="text-xs font-medium text-slate-300 capitalize">{p}</span>
+                        <div className="flex h-6 w-28 shrink-0 rounded-lg overflow-hidden border border-white/10">{PALETTES[p].map((color, i) => (<div key={i} className="flex-1 h-full" style={{ backgroundColor: color }} />))}</div>
+                        <div className="flex flex-col items-start min-w-0">
+                          <span className="text-xs font-medium text-slate-300">{PALETTE_INFO[p].label}</span>
+                          <span className="text-[9px] text-slate-500">{PALETTE_INFO[p].family}</span>
+                        </div>
                       </button>
                     ))}
+                    <button onClick={startCustomPalette} className={`group relative p-2 rounded-xl border flex items-center gap-3 transition-all ${mapStyle.palette === 'custom' ? 'bg-slate-800 border-accent/50' : 'bg-slate-900/30 border-white/5'}`}>
+                      {mapStyle.palette === 'custom' && <div className="absolute right-2 top-1/2 -translate-y-1/2 text-accent"><Check size={14} /></div>}
+                      <div className="flex h-6 w-28 shrink-0 items-center justify-center rounded-lg border border-dashed border-white/20 text-slate-400"><Pipette size={12} /></div>
+                      <span className="text-xs font-medium text-slate-300">Custom</span>
+                    </button>
                   </div>
+                  {mapStyle.palette === 'custom' && (
+                    <PaletteEditor style={mapStyle} onChange={(changes) => setMapStyle(prev => ({ ...prev, ...changes }))} />
+                  )}
                 </div>
+                )}
+                 {!categorical && (
                  <div className="space-y-4">
                   <div className="flex items-center gap-2 text-slate-400 text-xs font-bold uppercase tracking-wider"><Database size={12} /><span>Classification</span></div>
                    <div className="space-y-1.5">
                       <label className="text-[10px] text-slate-500 font-semibold">METHOD</label>
-                      <select value={mapStyle.classificationMethod} onChange={(e) => updateStyle('classificationMethod', e.target.value as ClassificationMethod)} className="w-full appearance-none bg-slate-900/50 border border-white/10 rounded-lg py-2 px-3 text-xs text-slate-200 outline-none"><option value="quantile">Quantile</option><option value="equal">Equal Interval</option></select>
+                      <select value={mapStyle.classificationMethod} onChange={(e) => updateStyle('classificationMethod', e.target.value as ClassificationMethod)} className="w-full appearance-none bg-slate-900/50 border border-white/10 rounded-lg py-2 px-3 text-xs text-slate-200 outline-none">
+                        {CLASSIFICATION_METHODS.map(m => (<option key={m.value} value={m.value}>{m.label}</option>))}
+                      </select>
                    </div>
+                   {isBivariate ? (
+                     <p className="text-[10px] text-slate-500">Each metric is split into {mapStyle.bivariate!.size} classes on its own; manual breaks use quantiles.</p>
+                   ) : mapStyle.classificationMethod === 'manual' ? (
+                     <div className="space-y-1.5">
+                        <label className="text-[10px] text-slate-500 font-semibold">BREAKS</label>
+                        <input type="text" placeholder="e.g. 10, 25, 50, 100" value={manualBreaksText} onChange={(e) => handleManualBreaksChange(e.target.value)} className="w-full bg-slate-900/50 border border-white/10 rounded-lg p-2 text-xs text-slate-200 font-mono outline-none" />
+                        <p className="text-[10px] text-slate-500">Inner class boundaries, separated by commas.</p>
+                     </div>
+                   ) : (
+                     <div className="space-y-1.5">
+                        <div className="flex items-center justify-between">
+                           <label className="text-[10px] text-slate-500 font-semibold">CLASSES</label>
+                           <span className="text-[10px] font-mono text-accent">{mapStyle.classesCount}</span>
+                        </div>
+                        <input type="range" min={2} max={9} step={1} value={mapStyle.classesCount} onChange={(e) => updateStyle('classesCount', parseInt(e.target.value, 10))} className="w-full accent-cyan-500" />
+                     </div>
+                   )}
+                   {classification && !isBivariate && (
+                     <div className="space-y-1">
+                        {classification.colors.map((color, i) => (
+                          <div key={i} className="flex items-center gap-2 text-[10px] text-slate-400 font-mono">
+                             <div className="w-3 h-3 rounded-sm border border-white/10" style={{ backgroundColor: color }} />
+                             {getClassRangeLabel(classification, i)}
+                          </div>
+                        ))}
+                     </div>
+                   )}
                  </div>
+                 )}
+                <AccessibilityPanel
+                  colors={accessibilityClasses.colors}
+                  pairs={accessibilityClasses.pairs}
+                  labelSettings={labelSettings}
+                  backgroundColor={mapStyle.backgroundColor}
+                  simulation={visionSimulation}
+                  setSimulation={setVisionSimulation}
+                />
               </div>
             )}
             
@@ -705,6 +1158,85 @@ export const Sidebar: React.FC<SidebarProps> = ({
                  <div className="space-y-4">
                   <div className="flex items-center gap-2 text-slate-400 text-xs font-bold uppercase tracking-wider"><LayoutTemplate size={12} /><span>Map Title</span></div>
                   <input type="text" placeholder="Main Title" value={titleSettings.title} onChange={(e) => updateTitleSettings('title', e.target.value)} className="w-full bg-slate-900/50 border border-white/10 rounded-lg p-2 text-xs text-slate-200" />
+                  <input type="text" placeholder="Subtitle" value={titleSettings.subtitle} onChange={(e) => updateTitleSettings('subtitle', e.target.value)} className="w-full bg-slate-900/50 border border-white/10 rounded-lg p-2 text-xs text-slate-200" />
+                  <div className="space-y-1.5">
+                    <label className="text-[10px] text-slate-500 font-semibold">POSITION</label>
+                    <div className="grid grid-cols-3 gap-1 p-1 rounded-lg bg-slate-900/50 border border-white/10">
+                      {(['top', 'bottom', 'none'] as const).map(position => (
+                        <button key={position} onClick={() => updateTitleSettings('position', position)} className={`py-1.5 rounded-md text-xs capitalize transition-colors ${titleSettings.position === position ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-slate-200'}`}>{position === 'none' ? 'Hidden' : position}</button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <div className="space-y-1.5">
+                      <label className="text-[10px] text-slate-500 font-semibold">ALIGNMENT</label>
+                      <div className="grid grid-cols-3 gap-1 p-1 rounded-lg bg-slate-900/50 border border-white/10">
+                        {([['left', AlignLeft], ['center', AlignCenter], ['right', AlignRight]] as const).map(([alignment, Icon]) => (
+                          <button key={alignment} onClick={() => updateTitleSettings('alignment', alignment)} className={`py-1.5 flex justify-center rounded-md transition-colors ${titleSettings.alignment === alignment ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-slate-200'}`} title={`Align ${alignment}`}><Icon size={12} /></button>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="space-y-1.5">
+                      <label className="text-[10px] text-slate-500 font-semibold">SIZE</label>
+                      <select value={titleSettings.size} onChange={(e) => updateTitleSettings('size', e.target.value as TitleSettings['size'])} className="w-full bg-slate-900/50 border border-white/10 rounded-lg py-2 px-3 text-xs text-slate-200 outline-none">
+                        <option value="small">Small</option>
+                        <option value="medium">Medium</option>
+                        <option value="large">Large</option>
+                      </select>
+                    </div>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <label className="text-[10px] text-slate-500 font-semibold">TEXT COLOR</label>
+                    <input type="color" value={titleSettings.color} onChange={(e) => updateTitleSettings('color', e.target.value)} className="w-8 h-6 bg-transparent border border-white/10 rounded cursor-pointer" />
+                  </div>
+                  <div className="space-y-1.5">
+                    <label className="text-[10px] text-slate-500 font-semibold">SOURCE</label>
+                    <input type="text" placeholder="e.g. Source: World Bank, 2024" value={titleSettings.source || ''} onChange={(e) => updateTitleSettings('source', e.target.value)} className="w-full bg-slate-900/50 border border-white/10 rounded-lg p-2 text-xs text-slate-200" />
+                  </div>
+                 </div>
+                 <div className="space-y-3">
+                  <div className="flex items-center gap-2 text-slate-400 text-xs font-bold uppercase tracking-wider"><List size={12} /><span>Legend</span></div>
+                  <div className="flex items-center justify-between p-3 rounded-xl bg-slate-900/30 border border-white/5">
+                    <span className="text-xs text-slate-300">Show Legend</span>
+                    <button onClick={() => updateLegend('visible', !legendSettings.visible)} className={`relative w-9 h-5 rounded-full transition-colors duration-300 ${legendSettings.visible ? 'bg-accent' : 'bg-slate-700'}`}><div className={`absolute top-1 left-1 bg-white w-3 h-3 rounded-full shadow-sm transition-transform duration-300 ${legendSettings.visible ? 'translate-x-4' : 'translate-x-0'}`} /></button>
+                  </div>
+                  {legendSettings.visible && (
+                    <>
+                      <div className="space-y-1.5">
+                        <label className="text-[10px] text-slate-500 font-semibold">TITLE</label>
+                        <input type="text" placeholder={mapData?.metric || 'Metric name'} value={legendSettings.title} onChange={(e) => updateLegend('title', e.target.value)} className="w-full bg-slate-900/50 border border-white/10 rounded-lg p-2 text-xs text-slate-200 outline-none" />
+                      </div>
+                      {!categorical && (
+                        <div className="space-y-1.5">
+                          <label className="text-[10px] text-slate-500 font-semibold">SCALE</label>
+                          <div className="grid grid-cols-2 gap-1 p-1 rounded-lg bg-slate-900/50 border border-white/10">
+                            {(['stepped', 'continuous'] as const).map(kind => (
+                              <button key={kind} onClick={() => updateLegend('kind', kind)} className={`py-1.5 rounded-md text-xs capitalize transition-colors ${legendSettings.kind === kind ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-slate-200'}`}>{kind}</button>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+                      <div className="grid grid-cols-2 gap-2">
+                        <div className="space-y-1.5">
+                          <label className="text-[10px] text-slate-500 font-semibold">ORIENTATION</label>
+                          <select value={legendSettings.orientation} onChange={(e) => updateLegend('orientation', e.target.value as LegendSettings['orientation'])} className="w-full bg-slate-900/50 border border-white/10 rounded-lg py-2 px-3 text-xs text-slate-200 outline-none">
+                            <option value="horizontal">Horizontal</option>
+                            <option value="vertical">Vertical</option>
+                          </select>
+                        </div>
+                        <div className="space-y-1.5">
+                          <label className="text-[10px] text-slate-500 font-semibold">POSITION</label>
+                          <select value={legendSettings.position} onChange={(e) => updateLegend('position', e.target.value as LegendPosition)} className="w-full bg-slate-900/50 border border-white/10 rounded-lg py-2 px-3 text-xs text-slate-200 outline-none">
+                            {LEGEND_POSITIONS.map(p => (<option key={p.value} value={p.value}>{p.label}</option>))}
+                          </select>
+                        </div>
+                      </div>
+                      <div className="flex items-center justify-between p-3 rounded-xl bg-slate-900/30 border border-white/5">
+                        <span className="text-xs text-slate-300">No data swatch</span>
+                        <button onClick={() => updateLegend('showNoData', !legendSettings.showNoData)} className={`relative w-9 h-5 rounded-full transition-colors duration-300 ${legendSettings.showNoData ? 'bg-accent' : 'bg-slate-700'}`}><div className={`absolute top-1 left-1 bg-white w-3 h-3 rounded-full shadow-sm transition-transform duration-300 ${legendSettings.showNoData ? 'translate-x-4' : 'translate-x-0'}`} /></button>
+                      </div>
+                    </>
+                  )}
                  </div>
                </div>
             )}
@@ -0,0 +1,51 @@
+import React from 'react';
+import { SymbolScale, getSymbolLegendValues } from '../lib/symbols';
+import { formatBreak } from '../lib/classification';
+import { estimateTextWidth } from '../lib/legend';
+import { LegendFrame, LEGEND_TEXT_COLOR, LEGEND_FONT_FAMILY, truncateLabel } from './MapLegend';
+
+interface SymbolLegendProps {
+  scale: SymbolScale;
+  color: string;
+  label: string;
+}
+
+const PAD_X = 16;
+const PAD_Y = 12;
+const FONT = 10;
+
+// Nested circles sharing a baseline, with a leader line to each value
+export const SymbolLegend: React.FC<SymbolLegendProps> = ({ scale, color, label }) => {
+  const values = getSymbolLegendValues(scale);
+  const maxRadius = scale.radius(values[0]);
+  const circlesWidth = maxRadius * 2 + 48;
+  const circlesHeight = maxRadius * 2 + 2;
+  const caption = truncateLabel(label, 140, FONT);
+  const contentWidth = Math.max(circlesWidth, estimateTextWidth(caption, FONT));
+  const width = Math.ceil(contentWidth + PAD_X * 2);
+  const height = Math.ceil(PAD_Y + circlesHeight + 4 + FONT + PAD_Y);
+  const left = PAD_X + (contentWidth - circlesWidth) / 2;
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} xmlns="http://www.w3.org/2000/svg" className="drop-shadow-xl" data-export-layer="legend">
+      <LegendFrame width={width} height={height} />
+      <g transform={`translate(${left}, ${PAD_Y})`}>
+        {values.map(value => {
+          const r = scale.radius(value);
+          const cy = circlesHeight - 1 - r;
+          return (
+            <g key={value}>
+              <circle cx={maxRadius + 1} cy={cy} r={r} fill={color} fillOpacity={0.25} stroke={color} strokeWidth={1} />
+              <line x1={maxRadius + 1} x2={maxRadius * 2 + 8} y1={cy - r} y2={cy - r} stroke="#94a3b8" strokeWidth={0.5} strokeDasharray="2 2" />
+              <text x={maxRadius * 2 + 10} y={cy - r} dy=".35em" fill={LEGEND_TEXT_COLOR} fontSize={9} fontWeight={700} fontFamily={LEGEND_FONT_FAMILY}>{formatBreak(value)}</text>
+            </g>
+          );
+        })}
+      </g>
+      <text x={width / 2} y={PAD_Y + circlesHeight + 4 + FONT / 2} dy=".35em" textAnchor="middle" fill={LEGEND_TEXT_COLOR} fontSize={FONT} fontWeight={700} fontFamily={LEGEND_FONT_FAMILY}>
+        <title>{label}</title>
+        {caption}
+      </text>
+    </svg>
+  );
+};
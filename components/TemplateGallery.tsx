@@ -1,11 +1,19 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useMemo, ChangeEvent } from 'react';
 import { 
   X, Search, Star, Layout, Save, Trash2, 
   Globe, BarChart3, CloudRain, Vote, Plane, Monitor,
-  CheckCircle, Plus
+  CheckCircle, Plus, Pencil, Upload, Download, AlertCircle
 } from 'lucide-react';
 import { GlassPanel } from './GlassPanel';
-import { MapTemplate, PRESET_TEMPLATES, MapStyle, MapDataState, TitleSettings } from '../types';
+import { MapTemplate, PRESET_TEMPLATES, MapStyle, MapDataState, TitleSettings, TemplateCategory, TEMPLATE_CATEGORIES } from '../types';
+import { normalizeDataset } from '../lib/metrics';
+import {
+  TemplateImport, ConflictResolution, TEMPLATE_PACK_EXTENSION, DEFAULT_TEMPLATE_GRADIENT,
+  isCustomTemplate, createTemplateId, parseTags, parseTemplatePack, downloadTemplatePack,
+  loadStoredTemplates, storeTemplates, planTemplateImport, applyTemplateImport
+} from '../lib/templatePacks';
+import { WorldGeometry, loadWorldGeometry } from '../lib/geometry';
+import { PREVIEW_THUMBNAIL, getTemplateThumbnails, getTemplatePreview } from '../lib/thumbnails';
 
 interface TemplateGalleryProps {
   isOpen: boolean;
@@ -18,6 +26,23 @@ interface TemplateGalleryProps {
   };
 }
 
+// Metadata form shared by "Save Current" (no id yet) and editing a saved template
+interface TemplateDraft {
+  id: string | null;
+  name: string;
+  description: string;
+  category: TemplateCategory;
+  tags: string; // Comma separated while editing
+}
+
+const EMPTY_DRAFT: TemplateDraft = { id: null, name: '', description: '', category: 'Other', tags: '' };
+
+const RESOLUTIONS: { id: ConflictResolution; label: string }[] = [
+  { id: 'keep-both', label: 'Keep both' },
+  { id: 'replace', label: 'Replace' },
+  { id: 'skip', label: 'Skip' },
+];
+
 export const TemplateGallery: React.FC<TemplateGalleryProps> = ({ 
   isOpen, onClose, onSelectTemplate, currentMapState 
 }) => {
@@ -25,18 +50,40 @@ export const TemplateGallery: React.FC<TemplateGalleryProps> = ({
   const [searchQuery, setSearchQuery] = useState('');
   const [favorites, setFavorites] = useState<string[]>([]);
   const [myTemplates, setMyTemplates] = useState<MapTemplate[]>([]);
-  const [saveMode, setSaveMode] = useState(false);
-  const [newTemplateName, setNewTemplateName] = useState('');
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const [importPlan, setImportPlan] = useState<TemplateImport[] | null>(null);
+  const [packNotice, setPackNotice] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const packInputRef = useRef<HTMLInputElement>(null);
+  const [world, setWorld] = useState<WorldGeometry | null>(null);
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  const [hovered, setHovered] = useState<{ template: MapTemplate; rect: DOMRect } | null>(null);
 
   // Load local storage data
   useEffect(() => {
     const savedFavs = localStorage.getItem('mapviz_favorites');
     if (savedFavs) setFavorites(JSON.parse(savedFavs));
 
-    const savedMy = localStorage.getItem('mapviz_my_templates');
-    if (savedMy) setMyTemplates(JSON.parse(savedMy));
+    setMyTemplates(loadStoredTemplates());
   }, []);
 
+  // Thumbnails are drawn on the same low-detail world the editor starts with
+  useEffect(() => {
+    if (!isOpen || world) return;
+    loadWorldGeometry('110m')
+      .then(setWorld)
+      .catch(error => console.error('Could not load geometry for thumbnails', error));
+  }, [isOpen, world]);
+
+  useEffect(() => {
+    if (!isOpen || !world) return;
+    setThumbnails(getTemplateThumbnails([...PRESET_TEMPLATES, ...myTemplates], world));
+  }, [isOpen, world, myTemplates]);
+
+  const hoverPreview = useMemo(
+    () => hovered && world ? getTemplatePreview(hovered.template, world) : null,
+    [hovered, world]
+  );
+
   const toggleFavorite = (id: string, e: React.MouseEvent) => {
     e.stopPropagation();
     const newFavs = favorites.includes(id) 
@@ -46,33 +93,94 @@ export const TemplateGallery: React.FC<TemplateGalleryProps> = ({
     localStorage.setItem('mapviz_favorites', JSON.stringify(newFavs));
   };
 
-  const handleSaveCurrent = () => {
-    if (!currentMapState || !currentMapState.data || !newTemplateName) return;
-
-    const newTemplate: MapTemplate = {
-      id: `custom-${Date.now()}`,
-      name: newTemplateName,
-      description: 'Custom saved template',
-      category: 'Other',
-      thumbnailGradient: 'linear-gradient(135deg, #6366f1, #a855f7)',
-      style: currentMapState.style,
-      data: currentMapState.data,
-      titleSettings: currentMapState.titleSettings
+  const persistTemplates = (updated: MapTemplate[]) => {
+    setMyTemplates(updated);
+    storeTemplates(updated);
+  };
+
+  const toggleSaveForm = () => {
+    setDraft(draft && !draft.id ? null : EMPTY_DRAFT);
+    setImportPlan(null);
+  };
+
+  const editTemplate = (template: MapTemplate, e: React.MouseEvent) => {
+    e.stopPropagation();
+    setDraft({
+      id: template.id,
+      name: template.name,
+      description: template.description,
+      category: template.category,
+      tags: (template.tags || []).join(', '),
+    });
+    setImportPlan(null);
+  };
+
+  const handleSaveDraft = () => {
+    if (!draft || !draft.name) return;
+    const meta = {
+      name: draft.name,
+      description: draft.description,
+      category: draft.category,
+      tags: parseTags(draft.tags),
     };
 
-    const updated = [...myTemplates, newTemplate];
-    setMyTemplates(updated);
-    localStorage.setItem('mapviz_my_templates', JSON.stringify(updated));
-    setSaveMode(false);
-    setNewTemplateName('');
+    if (draft.id) {
+      persistTemplates(myTemplates.map(t => t.id === draft.id ? { ...t, ...meta } : t));
+    } else {
+      if (!currentMapState || !currentMapState.data) return;
+      const newTemplate: MapTemplate = {
+        id: createTemplateId(),
+        ...meta,
+        description: meta.description || 'Custom saved template',
+        thumbnailGradient: DEFAULT_TEMPLATE_GRADIENT,
+        style: currentMapState.style,
+        // Keep every metric (and its style overrides), not just the one on screen
+        data: normalizeDataset(currentMapState.data),
+        titleSettings: currentMapState.titleSettings
+      };
+      persistTemplates([...myTemplates, newTemplate]);
+    }
+    setDraft(null);
     setActiveTab('my');
   };
 
   const deleteTemplate = (id: string, e: React.MouseEvent) => {
     e.stopPropagation();
-    const updated = myTemplates.filter(t => t.id !== id);
-    setMyTemplates(updated);
-    localStorage.setItem('mapviz_my_templates', JSON.stringify(updated));
+    persistTemplates(myTemplates.filter(t => t.id !== id));
+    if (draft?.id === id) setDraft(null);
+  };
+
+  const handleExportPack = () => {
+    downloadTemplatePack(myTemplates, 'mapviz-templates');
+    setPackNotice({ type: 'success', text: `Exported ${myTemplates.length} template${myTemplates.length === 1 ? '' : 's'}` });
+  };
+
+  const handlePackFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const incoming = parseTemplatePack(await file.text());
+      setImportPlan(planTemplateImport(incoming, myTemplates));
+      setDraft(null);
+      setPackNotice(null);
+    } catch (error) {
+      console.error('Template pack import failed', error);
+      setPackNotice({ type: 'error', text: error instanceof Error ? error.message : 'Could not read the template pack' });
+    }
+  };
+
+  const setResolution = (index: number, resolution: ConflictResolution) => {
+    setImportPlan(plan => plan && plan.map((item, i) => i === index ? { ...item, resolution } : item));
+  };
+
+  const confirmImport = () => {
+    if (!importPlan) return;
+    const count = importPlan.filter(item => item.resolution !== 'skip').length;
+    persistTemplates(applyTemplateImport(myTemplates, importPlan));
+    setImportPlan(null);
+    setPackNotice({ type: 'success', text: `Imported ${count} template${count === 1 ? '' : 's'}` });
+    setActiveTab('my');
   };
 
   const allTemplates = [...PRESET_TEMPLATES, ...myTemplates];
@@ -80,18 +188,27 @@ export const TemplateGallery: React.FC<TemplateGalleryProps> = ({
   const filteredTemplates = allTemplates.filter(t => {
     // Tab filter
     if (activeTab === 'favorites' && !favorites.includes(t.id)) return false;
-    if (activeTab === 'my' && !t.id.startsWith('custom-')) return false;
+    if (activeTab === 'my' && !isCustomTemplate(t)) return false;
     
     // Search filter
     if (searchQuery) {
       const q = searchQuery.toLowerCase();
-      return t.name.toLowerCase().includes(q) || t.description.toLowerCase().includes(q);
+      return t.name.toLowerCase().includes(q) || t.description.toLowerCase().includes(q) || (t.tags || []).some(tag => tag.includes(q));
     }
     return true;
   });
 
   if (!isOpen) return null;
 
+  // The preview opens beside the hovered card, on whichever side has room
+  const previewPosition = hovered && (() => {
+    const width = PREVIEW_THUMBNAIL.width + 24;
+    const height = PREVIEW_THUMBNAIL.height + 88;
+    const left = hovered.rect.right + 12 + width < window.innerWidth ? hovered.rect.right + 12 : hovered.rect.left - 12 - width;
+    const top = Math.min(Math.max(8, hovered.rect.top), window.innerHeight - height - 8);
+    return { left: Math.max(8, left), top };
+  })();
+
   return (
     <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 md:p-8 bg-black/60 backdrop-blur-sm animate-in fade-in duration-200">
       <GlassPanel className="w-full max-w-5xl h-[85vh] flex flex-col relative overflow-hidden bg-[#0b1121]/90">
@@ -142,11 +259,31 @@ export const TemplateGallery: React.FC<TemplateGalleryProps> = ({
               />
             </div>
             
+            {/* Template packs */}
+            <button
+              onClick={() => packInputRef.current?.click()}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg border bg-slate-800 border-white/10 text-slate-300 hover:text-white transition-all"
+              title={`Import a template pack (${TEMPLATE_PACK_EXTENSION})`}
+            >
+              <Upload size={16} />
+              <span className="text-sm font-medium">Import</span>
+            </button>
+            <input type="file" ref={packInputRef} className="hidden" accept={`${TEMPLATE_PACK_EXTENSION},application/json`} onChange={handlePackFile} />
+            <button
+              onClick={handleExportPack}
+              disabled={myTemplates.length === 0}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg border bg-slate-800 border-white/10 text-slate-300 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+              title="Export My Templates as a pack"
+            >
+              <Download size={16} />
+              <span className="text-sm font-medium">Export</span>
+            </button>
+
             {/* Save Current Button */}
             {currentMapState?.data && (
                <button 
-                 onClick={() => setSaveMode(!saveMode)}
-                 className={`flex items-center gap-2 px-4 py-2 rounded-lg border transition-all ${saveMode ? 'bg-emerald-500/20 text-emerald-400 border-emerald-500/50' : 'bg-slate-800 border-white/10 text-slate-300 hover:text-white'}`}
+                 onClick={toggleSaveForm}
+                 className={`flex items-center gap-2 px-4 py-2 rounded-lg border transition-all ${draft && !draft.id ? 'bg-emerald-500/20 text-emerald-400 border-emerald-500/50' : 'bg-slate-800 border-white/10 text-slate-300 hover:text-white'}`}
                >
                  <Save size={16} />
                  <span className="text-sm font-medium">Save Current</span>
@@ -155,24 +292,121 @@ export const TemplateGallery: React.FC<TemplateGalleryProps> = ({
           </div>
         </div>
 
-        {/* Save Mode Input Area */}
-        {saveMode && (
-          <div className="p-4 bg-emerald-500/5 border-b border-emerald-500/20 flex items-center gap-4 animate-in slide-in-from-top-2 shrink-0">
-             <input 
-               type="text" 
-               autoFocus
-               placeholder="Enter template name..."
-               value={newTemplateName}
-               onChange={(e) => setNewTemplateName(e.target.value)}
-               className="flex-1 px-4 py-2 rounded-lg bg-slate-900 border border-white/10 text-white focus:outline-none focus:border-emerald-500"
-             />
-             <button 
-               onClick={handleSaveCurrent}
-               disabled={!newTemplateName}
-               className="px-6 py-2 bg-emerald-500 hover:bg-emerald-400 disabled:opacity-50 disabled:cursor-not-allowed text-black font-bold rounded-lg transition-colors flex items-center gap-2"
-             >
-               <CheckCircle size={16} /> Save
-             </button>
+        {packNotice && (
+          <div className={`px-4 py-2 border-b flex items-center gap-2 text-xs shrink-0 ${packNotice.type === 'error' ? 'bg-red-500/5 border-red-500/20 text-red-400' : 'bg-emerald-500/5 border-emerald-500/20 text-emerald-400'}`}>
+            {packNotice.type === 'error' ? <AlertCircle size={14} /> : <CheckCircle size={14} />}
+            <span className="flex-1">{packNotice.text}</span>
+            <button onClick={() => setPackNotice(null)} className="p-1 hover:bg-white/10 rounded-full transition-colors">
+              <X size={12} />
+            </button>
+          </div>
+        )}
+
+        {/* Save / Edit Metadata Area */}
+        {draft && (
+          <div className="p-4 bg-emerald-500/5 border-b border-emerald-500/20 space-y-3 animate-in slide-in-from-top-2 shrink-0">
+             <div className="flex items-center gap-4">
+               <input 
+                 type="text" 
+                 autoFocus
+                 placeholder="Enter template name..."
+                 value={draft.name}
+                 onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                 className="flex-1 px-4 py-2 rounded-lg bg-slate-900 border border-white/10 text-white focus:outline-none focus:border-emerald-500"
+               />
+               <select
+                 value={draft.category}
+                 onChange={(e) => setDraft({ ...draft, category: e.target.value as TemplateCategory })}
+                 className="w-44 px-3 py-2 rounded-lg bg-slate-900 border border-white/10 text-sm text-white focus:outline-none focus:border-emerald-500"
+               >
+                 {TEMPLATE_CATEGORIES.map(category => <option key={category} value={category}>{category}</option>)}
+               </select>
+             </div>
+             <div className="flex items-center gap-4">
+               <input
+                 type="text"
+                 placeholder="Description"
+                 value={draft.description}
+                 onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                 className="flex-1 px-4 py-2 rounded-lg bg-slate-900 border border-white/10 text-sm text-white focus:outline-none focus:border-emerald-500"
+               />
+               <input
+                 type="text"
+                 placeholder="Tags, comma separated"
+                 value={draft.tags}
+                 onChange={(e) => setDraft({ ...draft, tags: e.target.value })}
+                 className="w-64 px-4 py-2 rounded-lg bg-slate-900 border border-white/10 text-sm text-white focus:outline-none focus:border-emerald-500"
+               />
+               <button
+                 onClick={() => setDraft(null)}
+                 className="px-4 py-2 rounded-lg text-sm text-slate-400 hover:text-white hover:bg-white/5 transition-colors"
+               >
+                 Cancel
+               </button>
+               <button 
+                 onClick={handleSaveDraft}
+                 disabled={!draft.name}
+                 className="px-6 py-2 bg-emerald-500 hover:bg-emerald-400 disabled:opacity-50 disabled:cursor-not-allowed text-black font-bold rounded-lg transition-colors flex items-center gap-2"
+               >
+                 <CheckCircle size={16} /> {draft.id ? 'Update' : 'Save'}
+               </button>
+             </div>
+          </div>
+        )}
+
+        {/* Import Review Area */}
+        {importPlan && (
+          <div className="p-4 bg-accent/5 border-b border-accent/20 space-y-3 animate-in slide-in-from-top-2 shrink-0">
+             <div className="flex items-center justify-between">
+               <span className="text-xs font-bold uppercase tracking-wider text-slate-400">
+                 Import {importPlan.length} template{importPlan.length === 1 ? '' : 's'}
+               </span>
+               {importPlan.some(item => item.conflict) && (
+                 <span className="text-[10px] text-amber-400">Some templates already exist. Choose what to do with each.</span>
+               )}
+             </div>
+             <div className="max-h-48 overflow-y-auto custom-scrollbar space-y-1.5 pr-1">
+               {importPlan.map((item, i) => (
+                 <div key={`${item.template.id}-${i}`} className="flex items-center gap-3 px-3 py-2 rounded-lg bg-slate-900/50 border border-white/5">
+                   <div className="flex-1 min-w-0">
+                     <div className="text-sm text-white truncate">{item.template.name}</div>
+                     <div className="text-[10px] text-slate-500 truncate">
+                       {item.conflict ? `Same ID as your "${item.conflict.name}"` : item.template.category}
+                     </div>
+                   </div>
+                   {item.conflict ? (
+                     <div className="grid grid-cols-3 gap-1 p-1 rounded-lg bg-slate-900/50 border border-white/10 shrink-0">
+                       {RESOLUTIONS.map(option => (
+                         <button
+                           key={option.id}
+                           onClick={() => setResolution(i, option.id)}
+                           className={`px-2 py-1 rounded-md text-[10px] font-semibold transition-colors ${item.resolution === option.id ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+                         >
+                           {option.label}
+                         </button>
+                       ))}
+                     </div>
+                   ) : (
+                     <span className="px-2 py-0.5 bg-emerald-500/10 text-emerald-400 text-[10px] font-bold rounded-full shrink-0">NEW</span>
+                   )}
+                 </div>
+               ))}
+             </div>
+             <div className="flex justify-end gap-2">
+               <button
+                 onClick={() => setImportPlan(null)}
+                 className="px-4 py-2 rounded-lg text-sm text-slate-400 hover:text-white hover:bg-white/5 transition-colors"
+               >
+                 Cancel
+               </button>
+               <button
+                 onClick={confirmImport}
+                 disabled={importPlan.every(item => item.resolution === 'skip')}
+                 className="px-6 py-2 bg-accent hover:bg-accent/80 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold rounded-lg transition-colors flex items-center gap-2"
+               >
+                 <Upload size={16} /> Import
+               </button>
+             </div>
           </div>
         )}
 
@@ -186,10 +420,15 @@ export const TemplateGallery: React.FC<TemplateGalleryProps> = ({
                 >
                   {/* Thumbnail / Header */}
                   <div 
-                    className="h-32 w-full p-4 flex items-start justify-between"
+                    className="relative h-32 w-full p-4 flex items-start justify-between overflow-hidden"
                     style={{ background: template.thumbnailGradient }}
+                    onMouseEnter={(e) => setHovered({ template, rect: e.currentTarget.getBoundingClientRect() })}
+                    onMouseLeave={() => setHovered(null)}
                   >
-                     <div className="p-2 bg-black/20 backdrop-blur-md rounded-lg text-white">
+                     {thumbnails[template.id] && (
+                       <img src={thumbnails[template.id]} alt="" className="absolute inset-0 w-full h-full object-cover" />
+                     )}
+                     <div className="relative p-2 bg-black/20 backdrop-blur-md rounded-lg text-white">
                         {template.category === 'Demographics' && <Globe size={20} />}
                         {template.category === 'Economics' && <BarChart3 size={20} />}
                         {template.category === 'Environment' && <CloudRain size={20} />}
@@ -199,7 +438,7 @@ export const TemplateGallery: React.FC<TemplateGalleryProps> = ({
 
                      <button 
                        onClick={(e) => toggleFavorite(template.id, e)}
-                       className={`p-2 rounded-full backdrop-blur-md transition-colors ${favorites.includes(template.id) ? 'bg-yellow-400/20 text-yellow-400' : 'bg-black/20 text-white/50 hover:text-white'}`}
+                       className={`relative p-2 rounded-full backdrop-blur-md transition-colors ${favorites.includes(template.id) ? 'bg-yellow-400/20 text-yellow-400' : 'bg-black/20 text-white/50 hover:text-white'}`}
                      >
                        <Star size={18} fill={favorites.includes(template.id) ? "currentColor" : "none"} />
                      </button>
@@ -209,10 +448,26 @@ export const TemplateGallery: React.FC<TemplateGalleryProps> = ({
                   <div className="p-4 flex-1 flex flex-col">
                      <div className="flex items-center justify-between mb-2">
                         <span className="text-[10px] font-bold uppercase tracking-wider text-slate-500">{template.category}</span>
-                        {template.isPopular && <span className="px-2 py-0.5 bg-accent/20 text-accent text-[10px] font-bold rounded-full">POPULAR</span>}
+                        <div className="flex items-center gap-1.5">
+                          {(template.data.metrics?.length || 0) > 1 && <span className="px-2 py-0.5 bg-white/5 text-slate-400 text-[10px] font-bold rounded-full">{template.data.metrics!.length} METRICS</span>}
+                          {template.isPopular && <span className="px-2 py-0.5 bg-accent/20 text-accent text-[10px] font-bold rounded-full">POPULAR</span>}
+                        </div>
                      </div>
                      <h3 className="text-lg font-bold text-white mb-1 group-hover:text-accent transition-colors">{template.name}</h3>
                      <p className="text-sm text-slate-400 mb-4 line-clamp-2 flex-1">{template.description}</p>
+                     {template.tags && template.tags.length > 0 && (
+                       <div className="flex flex-wrap gap-1 mb-4">
+                         {template.tags.map(tag => (
+                           <button
+                             key={tag}
+                             onClick={() => setSearchQuery(tag)}
+                             className="px-2 py-0.5 bg-white/5 hover:bg-white/10 text-slate-400 text-[10px] rounded-full transition-colors"
+                           >
+                             #{tag}
+                           </button>
+                         ))}
+                       </div>
+                     )}
                      
                      <div className="flex items-center gap-2 mt-auto">
                         <button 
@@ -221,7 +476,16 @@ export const TemplateGallery: React.FC<TemplateGalleryProps> = ({
                         >
                            Use Template
                         </button>
-                        {template.id.startsWith('custom-') && (
+                        {isCustomTemplate(template) && (
+                          <button 
+                             onClick={(e) => editTemplate(template, e)}
+                             className="p-2 rounded-lg bg-white/5 hover:bg-white/10 text-slate-300 border border-white/10 transition-colors"
+                             title="Edit Details"
+                          >
+                             <Pencil size={18} />
+                          </button>
+                        )}
+                        {isCustomTemplate(template) && (
                           <button 
                              onClick={(e) => deleteTemplate(template.id, e)}
                              className="p-2 rounded-lg bg-red-500/10 hover:bg-red-500/20 text-red-500 border border-red-500/20 transition-colors"
@@ -238,7 +502,7 @@ export const TemplateGallery: React.FC<TemplateGalleryProps> = ({
               {/* Add New Placeholder (only in My Templates) */}
               {activeTab === 'my' && (
                  <button 
-                   onClick={() => setSaveMode(true)}
+                   onClick={() => setDraft(EMPTY_DRAFT)}
                    className="flex flex-col items-center justify-center h-full min-h-[250px] rounded-xl border-2 border-dashed border-white/10 hover:border-accent/50 hover:bg-white/5 transition-all group"
                  >
                     <div className="p-4 rounded-full bg-slate-800 text-slate-400 group-hover:bg-accent group-hover:text-white transition-all mb-4">
@@ -259,6 +523,25 @@ export const TemplateGallery: React.FC<TemplateGalleryProps> = ({
         </div>
 
       </GlassPanel>
+
+      {/* Hover Preview */}
+      {hovered && previewPosition && (
+        <div className="fixed z-[110] pointer-events-none" style={{ left: previewPosition.left, top: previewPosition.top }}>
+          <GlassPanel className="p-3 bg-[#0b1121]/95 animate-in fade-in duration-150">
+            {hoverPreview ? (
+              <img src={hoverPreview} alt="" className="rounded-lg" style={{ width: PREVIEW_THUMBNAIL.width, height: PREVIEW_THUMBNAIL.height }} />
+            ) : (
+              <div className="rounded-lg" style={{ width: PREVIEW_THUMBNAIL.width, height: PREVIEW_THUMBNAIL.height, background: hovered.template.thumbnailGradient }} />
+            )}
+            <div className="pt-3 px-1">
+              <div className="text-sm font-bold text-white">{hovered.template.name}</div>
+              <div className="text-xs text-slate-400 truncate" style={{ maxWidth: PREVIEW_THUMBNAIL.width }}>
+                {hovered.template.data.metric}{hovered.template.data.unit ? ` (${hovered.template.data.unit})` : ''} · {hovered.template.titleSettings.title || hovered.template.category}
+              </div>
+            </div>
+          </GlassPanel>
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,61 @@
+import React from 'react';
+import { Play, Pause, SkipBack } from 'lucide-react';
+import { formatPeriod } from '../lib/timeSeries';
+
+export const PLAYBACK_SPEEDS = [0.5, 1, 2, 4];
+
+// Milliseconds each period stays on screen at 1x
+export const BASE_FRAME_DURATION = 1200;
+
+interface TimelineControlProps {
+  periods: string[];
+  index: number;
+  onIndexChange: (index: number) => void;
+  isPlaying: boolean;
+  onTogglePlay: () => void;
+  speed: number;
+  onSpeedChange: (speed: number) => void;
+}
+
+export const TimelineControl: React.FC<TimelineControlProps> = ({
+  periods, index, onIndexChange, isPlaying, onTogglePlay, speed, onSpeedChange
+}) => {
+  const nextSpeed = PLAYBACK_SPEEDS[(PLAYBACK_SPEEDS.indexOf(speed) + 1) % PLAYBACK_SPEEDS.length];
+
+  return (
+    <div className="bg-white/90 backdrop-blur rounded-full pl-2 pr-4 py-1.5 shadow-xl flex items-center gap-3 border border-white w-[420px] max-w-[70vw]">
+      <button
+        onClick={() => onIndexChange(0)}
+        className="p-1.5 rounded-full text-slate-400 hover:text-slate-600 hover:bg-slate-100 transition-colors"
+        title="First period"
+      >
+        <SkipBack size={14} />
+      </button>
+      <button
+        onClick={onTogglePlay}
+        className="p-2 rounded-full bg-primary text-white hover:bg-accent transition-colors shadow"
+        title={isPlaying ? 'Pause' : 'Play'}
+      >
+        {isPlaying ? <Pause size={14} className="fill-white" /> : <Play size={14} className="fill-white" />}
+      </button>
+      <span className="text-xs font-bold text-slate-700 font-mono min-w-[64px] text-center">{formatPeriod(periods[index])}</span>
+      <input
+        type="range"
+        min={0}
+        max={periods.length - 1}
+        step={1}
+        value={index}
+        onChange={(e) => onIndexChange(parseInt(e.target.value, 10))}
+        className="flex-1 accent-cyan-500 cursor-pointer"
+        aria-label="Period"
+      />
+      <button
+        onClick={() => onSpeedChange(nextSpeed)}
+        className="text-[10px] font-bold text-slate-500 hover:text-primary w-8 transition-colors"
+        title="Playback speed"
+      >
+        {speed}x
+      </button>
+    </div>
+  );
+};
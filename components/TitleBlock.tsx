@@ -0,0 +1,35 @@
+import React from 'react';
+import { TitleSettings } from '../types';
+import { CompositionLayout, TITLE_SIZES, SOURCE_FONT_SIZE } from '../lib/composition';
+
+interface TitleBlockProps {
+  settings: TitleSettings;
+  layout: CompositionLayout;
+}
+
+const FONT_FAMILY = 'Inter, sans-serif';
+
+// Title, subtitle and source line, drawn in canvas coordinates outside the zoomable map group
+export const TitleBlock: React.FC<TitleBlockProps> = ({ settings, layout }) => {
+  const sizes = TITLE_SIZES[settings.size];
+  const { title, source } = layout;
+  const titleHeight = settings.title ? sizes.title * 1.25 : 0;
+
+  return (
+    <g className="pointer-events-none select-none" fontFamily={FONT_FAMILY} fill={settings.color}>
+      {title && (
+        <g textAnchor={title.anchor}>
+          {settings.title && (
+            <text x={title.x} y={title.y + sizes.title} fontSize={sizes.title} fontWeight={700}>{settings.title}</text>
+          )}
+          {settings.subtitle && (
+            <text x={title.x} y={title.y + titleHeight + (titleHeight ? 4 : 0) + sizes.subtitle * 1.1} fontSize={sizes.subtitle} fontWeight={500} fillOpacity={0.75}>{settings.subtitle}</text>
+          )}
+        </g>
+      )}
+      {source && (
+        <text x={source.x} y={source.y + SOURCE_FONT_SIZE} textAnchor={source.anchor} fontSize={SOURCE_FONT_SIZE} fillOpacity={0.6}>{settings.source}</text>
+      )}
+    </g>
+  );
+};
@@ -0,0 +1,143 @@
+import * as d3 from 'd3';
+
+export type VisionSimulation = 'none' | 'protanopia' | 'deuteranopia' | 'tritanopia' | 'grayscale';
+
+export const VISION_SIMULATIONS: { value: VisionSimulation; label: string; description: string }[] = [
+  { value: 'none', label: 'Normal', description: 'Typical colour vision' },
+  { value: 'protanopia', label: 'Protan', description: 'No red cones (about 1% of men)' },
+  { value: 'deuteranopia', label: 'Deutan', description: 'No green cones (about 1% of men)' },
+  { value: 'tritanopia', label: 'Tritan', description: 'No blue cones (rare)' },
+  { value: 'grayscale', label: 'Gray', description: 'Greyscale print or photocopy' },
+];
+
+type Matrix = [number, number, number, number, number, number, number, number, number];
+
+// Machado, Oliveira & Fernandes (2009) at full severity, applied to linear RGB
+const SIMULATION_MATRICES: Record<Exclude<VisionSimulation, 'none'>, Matrix> = {
+  protanopia: [0.152286, 1.052583, -0.204868, 0.114503, 0.786281, 0.099216, -0.003882, -0.048116, 1.051998],
+  deuteranopia: [0.367322, 0.860646, -0.227968, 0.280085, 0.672501, 0.047413, -0.01182, 0.04294, 0.968881],
+  tritanopia: [1.255528, -0.076749, -0.178779, -0.078411, 0.930809, 0.147602, 0.004733, 0.691367, 0.3039],
+  grayscale: [0.2126, 0.7152, 0.0722, 0.2126, 0.7152, 0.0722, 0.2126, 0.7152, 0.0722],
+};
+
+// Neighbouring classes closer than this (CIE76 ΔE) are hard to tell apart on a map
+export const MIN_CLASS_DISTANCE = 10;
+
+// WCAG 2.1 minimum contrast for normal and large (18px and up) text
+export const MIN_TEXT_CONTRAST = 4.5;
+export const MIN_LARGE_TEXT_CONTRAST = 3;
+
+const toLinear = (channel: number) => {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+};
+
+const fromLinear = (c: number) => {
+  const clamped = Math.max(0, Math.min(1, c));
+  return 255 * (clamped <= 0.0031308 ? clamped * 12.92 : 1.055 * Math.pow(clamped, 1 / 2.4) - 0.055);
+};
+
+// feColorMatrix values for the SVG filter that previews a simulation; the filter must run in linearRGB
+export function getSimulationFilterValues(simulation: VisionSimulation): string | null {
+  if (simulation === 'none') return null;
+  const m = SIMULATION_MATRICES[simulation];
+  return [m[0], m[1], m[2], 0, 0, m[3], m[4], m[5], 0, 0, m[6], m[7], m[8], 0, 0, 0, 0, 0, 1, 0].join(' ');
+}
+
+export function simulateColor(color: string, simulation: VisionSimulation): string {
+  const rgb = d3.rgb(color);
+  if (simulation === 'none') return rgb.formatHex();
+  const m = SIMULATION_MATRICES[simulation];
+  const [r, g, b] = [toLinear(rgb.r), toLinear(rgb.g), toLinear(rgb.b)];
+  return d3.rgb(
+    fromLinear(m[0] * r + m[1] * g + m[2] * b),
+    fromLinear(m[3] * r + m[4] * g + m[5] * b),
+    fromLinear(m[6] * r + m[7] * g + m[8] * b)
+  ).formatHex();
+}
+
+// Perceptual distance between two colours (CIE76 ΔE)
+export function colorDistance(a: string, b: string): number {
+  const la = d3.lab(a);
+  const lb = d3.lab(b);
+  return Math.hypot(la.l - lb.l, la.a - lb.a, la.b - lb.b);
+}
+
+// Semi-transparent text is judged on the colour it ends up as over the fill
+function composite(color: string, backdrop: string): string {
+  const top = d3.rgb(color);
+  const bottom = d3.rgb(backdrop);
+  const alpha = top.opacity ?? 1;
+  return d3.rgb(
+    top.r * alpha + bottom.r * (1 - alpha),
+    top.g * alpha + bottom.g * (1 - alpha),
+    top.b * alpha + bottom.b * (1 - alpha)
+  ).formatHex();
+}
+
+const relativeLuminance = (color: string) => {
+  const rgb = d3.rgb(color);
+  return 0.2126 * toLinear(rgb.r) + 0.7152 * toLinear(rgb.g) + 0.0722 * toLinear(rgb.b);
+};
+
+export function contrastRatio(foreground: string, background: string): number {
+  const l1 = relativeLuminance(composite(foreground, background));
+  const l2 = relativeLuminance(background);
+  return (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05);
+}
+
+// -- Which classes have to be told apart --
+
+export type ClassPair = [number, number];
+
+// Sequential and diverging classes sit next to each other in the legend
+export const adjacentPairs = (count: number): ClassPair[] =>
+  Array.from({ length: Math.max(0, count - 1) }, (_, i) => [i, i + 1] as ClassPair);
+
+// Any two categories can share a border
+export const allPairs = (count: number): ClassPair[] =>
+  d3.range(count).flatMap((i: number) => d3.range(i + 1, count).map((j: number) => [i, j] as ClassPair));
+
+// Bivariate cells, flattened row by row, are compared with their horizontal and vertical neighbours
+export const gridPairs = (size: number): ClassPair[] =>
+  d3.range(size * size).flatMap((i: number) => [
+    ...(i % size < size - 1 ? [[i, i + 1] as ClassPair] : []),
+    ...(i + size < size * size ? [[i, i + size] as ClassPair] : []),
+  ]);
+
+// -- Report --
+
+export interface SeparationCheck {
+  simulation: VisionSimulation;
+  minDistance: number;
+  collapsed: ClassPair[]; // Pairs closer than MIN_CLASS_DISTANCE under this simulation
+}
+
+export interface LabelContrastCheck {
+  minRatio: number;
+  required: number;
+  failing: string[]; // Fills (or the background) the labels are too faint on
+}
+
+export function checkClassSeparation(colors: string[], pairs: ClassPair[]): SeparationCheck[] {
+  return VISION_SIMULATIONS.map(({ value: simulation }) => {
+    const simulated = colors.map(c => simulateColor(c, simulation));
+    const distances = pairs.map(([i, j]) => colorDistance(simulated[i], simulated[j]));
+    return {
+      simulation,
+      minDistance: distances.length > 0 ? d3.min(distances)! : Infinity,
+      collapsed: pairs.filter((_, k) => distances[k] < MIN_CLASS_DISTANCE),
+    };
+  });
+}
+
+export function checkLabelContrast(labelColor: string, fills: string[], fontSize: number): LabelContrastCheck {
+  const required = fontSize >= 18 ? MIN_LARGE_TEXT_CONTRAST : MIN_TEXT_CONTRAST;
+  const backdrops = Array.from(new Set(fills.map(f => d3.rgb(f).formatHex())));
+  const ratios = backdrops.map(f => contrastRatio(labelColor, f));
+  return {
+    minRatio: ratios.length > 0 ? d3.min(ratios)! : Infinity,
+    required,
+    failing: backdrops.filter((_, i) => ratios[i] < required),
+  };
+}
@@ -0,0 +1,58 @@
+import admin1Index from 'virtual:admin1-index';
+import { BoundaryLayer, buildBoundaryLayer } from './boundaries';
+import { getCountryIdByCode, getCountryName } from './countryMapping';
+
+// States and provinces of a single country, used for drill-down from the world view
+export interface Admin1Layer extends BoundaryLayer {
+  countryId: string; // ISO 3166-1 numeric code of the parent country
+}
+
+// Natural Earth admin-1 polygons are split into one static asset per country at build time
+// (plugins/admin1Assets.ts), so a drill-down fetches only the country it opens.
+const loadCountryFeatures = async (countryId: string): Promise<any[]> => {
+  const url = admin1Index[countryId];
+  if (!url) return [];
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Failed to load admin-1 regions (${response.status})`);
+  const collection = await response.json();
+  return collection.features || [];
+};
+
+const ISO_3166_2_PATTERN = /^[A-Z]{2}-[A-Z0-9]{1,3}$/;
+
+const layers = new Map<string, Promise<Admin1Layer>>();
+
+async function buildAdmin1Layer(countryId: string): Promise<Admin1Layer> {
+  const features = await loadCountryFeatures(countryId);
+  const countryName = getCountryName(countryId) || countryId;
+  if (features.length === 0) {
+    throw new Error(`No states or provinces are available for ${countryName}`);
+  }
+  return { ...buildBoundaryLayer(countryName, features, 'code', 'name'), countryId };
+}
+
+export function loadAdmin1Layer(countryId: string): Promise<Admin1Layer> {
+  const cached = layers.get(countryId);
+  if (cached) return cached;
+  const pending = buildAdmin1Layer(countryId).catch(error => {
+    // Drop failed loads so a retry starts fresh
+    layers.delete(countryId);
+    throw error;
+  });
+  layers.set(countryId, pending);
+  return pending;
+}
+
+export const isAdmin1Layer = (layer: BoundaryLayer | null): layer is Admin1Layer =>
+  !!layer && 'countryId' in layer;
+
+// When a geography column holds ISO 3166-2 codes from a single country, that country is the import target
+export function detectSubdivisionCountry(values: string[]): string | null {
+  const codes = values.map(v => v.trim().toUpperCase()).filter(Boolean);
+  if (codes.length === 0) return null;
+  const matching = codes.filter(c => ISO_3166_2_PATTERN.test(c));
+  if (matching.length / codes.length < 0.8) return null;
+  const prefixes = new Set(matching.map(c => c.slice(0, 2)));
+  if (prefixes.size !== 1) return null;
+  return getCountryIdByCode(matching[0].slice(0, 2), 'alpha2');
+}
@@ -0,0 +1,78 @@
+import * as d3 from 'd3';
+import { MapStyle, BivariatePaletteType, BivariateSettings, DatasetMetric } from '../types';
+import { Classification, classify } from './classification';
+
+// Corner colours of each grid, after Joshua Stevens' bivariate schemes:
+// [low x / low y, high x / low y, low x / high y, high x / high y]
+export const BIVARIATE_PALETTES: Record<BivariatePaletteType, { label: string; corners: [string, string, string, string] }> = {
+  pinkBlue: { label: 'Pink / Blue', corners: ['#e8e8e8', '#5ac8c8', '#be64ac', '#3b4994'] },
+  tealRed: { label: 'Teal / Red', corners: ['#e8e8e8', '#c85a5a', '#64acbe', '#574249'] },
+  greenPurple: { label: 'Green / Purple', corners: ['#e8e8e8', '#6c83b5', '#73ae80', '#2a5a5b'] },
+};
+
+export const DEFAULT_BIVARIATE: Omit<BivariateSettings, 'xMetric' | 'yMetric'> = {
+  size: 3,
+  palette: 'pinkBlue',
+};
+
+export interface BivariateClassification {
+  x: Classification;
+  y: Classification;
+  size: number;
+  grid: string[][]; // grid[yClass][xClass]
+  colorFor: (x: number | undefined, y: number | undefined) => string | null;
+}
+
+// Bilinear blend of the four corners in Lab space, so every grid size comes from the same scheme
+export function getBivariateColors(palette: BivariatePaletteType, size: number): string[][] {
+  const [lowLow, highX, highY, highHigh] = BIVARIATE_PALETTES[palette].corners;
+  return d3.range(size).map((yi: number) => {
+    const t = yi / (size - 1);
+    const rowStart = d3.interpolateLab(lowLow, highY)(t);
+    const rowEnd = d3.interpolateLab(highX, highHigh)(t);
+    return d3.range(size).map((xi: number) => d3.color(d3.interpolateLab(rowStart, rowEnd)(xi / (size - 1)))!.formatHex());
+  });
+}
+
+export function classifyBivariate(
+  xValues: number[],
+  yValues: number[],
+  style: MapStyle,
+  settings: BivariateSettings
+): BivariateClassification | null {
+  // Manual breaks belong to a single variable, so bivariate falls back to quantiles
+  const axisStyle: MapStyle = {
+    ...style,
+    diverging: undefined,
+    classesCount: settings.size,
+    classificationMethod: style.classificationMethod === 'manual' ? 'quantile' : style.classificationMethod,
+  };
+  const x = classify(xValues, axisStyle);
+  const y = classify(yValues, axisStyle);
+  if (!x || !y) return null;
+
+  const grid = getBivariateColors(settings.palette, settings.size);
+  return {
+    x,
+    y,
+    size: settings.size,
+    grid,
+    colorFor: (xv, yv) => {
+      if (xv === undefined || yv === undefined || isNaN(xv) || isNaN(yv)) return null;
+      return grid[y.classIndex(yv)][x.classIndex(xv)];
+    },
+  };
+}
+
+// Bivariate mode only applies when both configured metrics exist in the dataset
+export function resolveBivariateMetrics(style: MapStyle, metrics: DatasetMetric[]): { x: DatasetMetric; y: DatasetMetric } | null {
+  if (style.renderMode !== 'bivariate' || !style.bivariate) return null;
+  const x = metrics.find(m => m.name === style.bivariate!.xMetric);
+  const y = metrics.find(m => m.name === style.bivariate!.yMetric);
+  return x && y ? { x, y } : null;
+}
+
+const LEVELS = ['Low', 'Mid', 'High'];
+const LEVELS_4 = ['Low', 'Mid-low', 'Mid-high', 'High'];
+
+export const getBivariateLevel = (index: number, size: number) => (size === 4 ? LEVELS_4 : LEVELS)[index] || '';
@@ -0,0 +1,170 @@
+import * as d3 from 'd3';
+import * as topojson from 'topojson-client';
+import { GeoFeature } from './geometry';
+import { getCountryName, normalizeCountryName } from './countryMapping';
+
+// User-supplied boundaries (sales territories, states, districts...) that replace world countries
+export interface BoundaryLayer {
+  name: string;
+  idProperty: string;
+  nameProperty: string;
+  features: GeoFeature[];
+}
+
+// A parsed upload before the user has chosen which properties to join on
+export interface BoundaryFile {
+  fileName: string;
+  // TopoJSON files can hold several named objects; GeoJSON has exactly one
+  objects: Record<string, any[]>;
+  topology?: any;
+}
+
+const ID_PROPERTY_HINTS = /^(id|code|iso|iso_?a?[23n]?|geoid|fips|postal|key|adm\d?_?code|shapeid)$/i;
+const NAME_PROPERTY_HINTS = /^(name|name_en|admin|label|title|nom|nombre|shapename)$/i;
+
+function toFeatureArray(geojson: any): any[] {
+  if (!geojson) return [];
+  if (geojson.type === 'FeatureCollection') return geojson.features || [];
+  if (geojson.type === 'Feature') return [geojson];
+  if (geojson.type && geojson.coordinates) return [{ type: 'Feature', properties: {}, geometry: geojson }];
+  return [];
+}
+
+export function parseBoundaryFile(fileName: string, text: string): BoundaryFile {
+  const parsed = JSON.parse(text);
+
+  if (parsed.type === 'Topology' && parsed.objects) {
+    const objects: Record<string, any[]> = {};
+    Object.keys(parsed.objects).forEach(key => {
+      objects[key] = toFeatureArray(topojson.feature(parsed, parsed.objects[key]));
+    });
+    return { fileName, objects, topology: parsed };
+  }
+
+  const features = toFeatureArray(parsed);
+  if (features.length === 0) throw new Error("No features found in the file");
+  return { fileName, objects: { [fileName.replace(/\.[^.]+$/, '')]: features } };
+}
+
+export function getFeatureProperties(features: any[]): string[] {
+  const keys = new Set<string>();
+  features.slice(0, 200).forEach(f => Object.keys(f.properties || {}).forEach(k => keys.add(k)));
+  if (features.some(f => f.id !== undefined && f.id !== null)) keys.add('id');
+  return Array.from(keys);
+}
+
+const readProperty = (feature: any, property: string) =>
+  property === 'id' && (feature.properties?.id === undefined) ? feature.id : feature.properties?.[property];
+
+// A property is a usable join key when it is present and unique on every feature
+export function isUniqueProperty(features: any[], property: string): boolean {
+  const seen = new Set<string>();
+  for (const f of features) {
+    const value = readProperty(f, property);
+    if (value === undefined || value === null || value === '') return false;
+    const key = String(value);
+    if (seen.has(key)) return false;
+    seen.add(key);
+  }
+  return true;
+}
+
+export function suggestBoundaryProperties(features: any[]): { idProperty: string; nameProperty: string } {
+  const properties = getFeatureProperties(features);
+  const unique = properties.filter(p => isUniqueProperty(features, p));
+  const idProperty = unique.find(p => ID_PROPERTY_HINTS.test(p)) || unique[0] || properties[0] || 'id';
+  const nameProperty = properties.find(p => NAME_PROPERTY_HINTS.test(p))
+    || properties.find(p => /name/i.test(p))
+    || idProperty;
+  return { idProperty, nameProperty };
+}
+
+// d3 expects clockwise exterior rings; RFC 7946 GeoJSON is counter-clockwise.
+// A feature that covers more than a hemisphere has almost certainly been wound the other way.
+function rewind(feature: any): any {
+  if (!feature.geometry || d3.geoArea(feature) <= 2 * Math.PI) return feature;
+  const reverseRings = (rings: number[][][]) => rings.map(ring => ring.slice().reverse());
+  const { geometry } = feature;
+  if (geometry.type === 'Polygon') {
+    return { ...feature, geometry: { ...geometry, coordinates: reverseRings(geometry.coordinates) } };
+  }
+  if (geometry.type === 'MultiPolygon') {
+    return { ...feature, geometry: { ...geometry, coordinates: geometry.coordinates.map(reverseRings) } };
+  }
+  return feature;
+}
+
+export function buildBoundaryLayer(
+  name: string,
+  rawFeatures: any[],
+  idProperty: string,
+  nameProperty: string
+): BoundaryLayer {
+  const seen = new Set<string>();
+  const features: GeoFeature[] = [];
+  rawFeatures.forEach(raw => {
+    if (!raw.geometry) return;
+    const idValue = readProperty(raw, idProperty);
+    if (idValue === undefined || idValue === null || idValue === '') return;
+    const id = String(idValue);
+    if (seen.has(id)) return;
+    seen.add(id);
+    const displayName = readProperty(raw, nameProperty);
+    features.push(rewind({
+      type: 'Feature',
+      id,
+      properties: { ...raw.properties, name: displayName !== undefined && displayName !== null ? String(displayName) : id },
+      geometry: raw.geometry,
+    }));
+  });
+  if (features.length === 0) throw new Error(`No features have a value for "${idProperty}"`);
+  return { name, idProperty, nameProperty, features };
+}
+
+export function getBoundaryCollection(layer: BoundaryLayer) {
+  return { type: 'FeatureCollection', features: layer.features };
+}
+
+interface LayerIndex {
+  byId: Map<string, GeoFeature>;
+  byLowerId: Map<string, GeoFeature>;
+  byName: Map<string, GeoFeature[]>;
+}
+
+// Built once per layer, since an import resolves every row against the same layer
+const layerIndexes = new WeakMap<BoundaryLayer, LayerIndex>();
+
+function getLayerIndex(layer: BoundaryLayer): LayerIndex {
+  let index = layerIndexes.get(layer);
+  if (!index) {
+    index = { byId: new Map(), byLowerId: new Map(), byName: new Map() };
+    for (const feature of layer.features) {
+      index.byId.set(feature.id, feature);
+      const lower = feature.id.toLowerCase();
+      if (!index.byLowerId.has(lower)) index.byLowerId.set(lower, feature);
+      const name = normalizeCountryName(feature.properties.name);
+      const named = index.byName.get(name);
+      if (named) named.push(feature);
+      else index.byName.set(name, [feature]);
+    }
+    layerIndexes.set(layer, index);
+  }
+  return index;
+}
+
+// Matches a data value against a layer by join key first, then by display name
+export function resolveBoundaryFeature(raw: string, layer: BoundaryLayer): { id: string | null; confidence: number; candidates: string[] } {
+  const clean = raw.trim();
+  const index = getLayerIndex(layer);
+  const byKey = index.byId.get(clean) || index.byLowerId.get(clean.toLowerCase());
+  if (byKey) return { id: byKey.id, confidence: 1, candidates: [] };
+  const byName = index.byName.get(normalizeCountryName(clean)) || [];
+  if (byName.length === 1) return { id: byName[0].id, confidence: 0.95, candidates: [] };
+  return { id: null, confidence: 0, candidates: byName.map(f => f.id) };
+}
+
+// Display name for a data key, whichever geography is active
+export function getRegionName(id: string, layer: BoundaryLayer | null): string | null {
+  if (layer) return getLayerIndex(layer).byId.get(id)?.properties.name || null;
+  return getCountryName(id);
+}
@@ -0,0 +1,72 @@
+import * as d3 from 'd3';
+import { MapStyle, MapDataState, DatasetMetric } from '../types';
+
+// Tableau 10: distinct hues of similar weight, so no category reads as "more" than another
+export const QUALITATIVE_COLORS: string[] = [...d3.schemeTableau10];
+export const OTHER_CATEGORY = 'Other';
+export const OTHER_COLOR = '#64748b';
+export const DEFAULT_MAX_CATEGORIES = 8;
+// A lone extra category is shown rather than folded into "Other", so up to one more than the
+// limit keeps its own colour; this keeps every one of them distinct within the palette
+export const MAX_CATEGORIES = QUALITATIVE_COLORS.length - 1;
+
+export interface CategoryClass {
+  label: string;
+  color: string;
+  count: number;
+  members: string[]; // Source categories; more than one only for the "Other" bucket
+}
+
+export interface CategoricalClassification {
+  classes: CategoryClass[];
+  bucketFor: (category: string | undefined) => CategoryClass | null;
+  colorFor: (category: string | undefined) => string | null;
+}
+
+export const isCategorical = (data: Pick<MapDataState | DatasetMetric, 'categories'>) =>
+  !!data.categories && Object.keys(data.categories).length > 0;
+
+export function parseCategory(raw: string | number | null | undefined): string | null {
+  if (raw === null || raw === undefined) return null;
+  const clean = String(raw).trim();
+  return clean ? clean : null;
+}
+
+// Most frequent categories first; ties in alphabetical order so colours stay put between edits
+export function classifyCategories(categories: Record<string, string>, style: MapStyle): CategoricalClassification | null {
+  const counts = d3.rollup(Object.values(categories), (v: string[]) => v.length, (c: string) => c);
+  if (counts.size === 0) return null;
+
+  const ranked: [string, number][] = Array.from(counts.entries() as Iterable<[string, number]>)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+  const limit = Math.min(MAX_CATEGORIES, Math.max(1, style.maxCategories ?? DEFAULT_MAX_CATEGORIES));
+  // Folding a single category into "Other" would only hide its name
+  const kept = ranked.length > limit + 1 ? ranked.slice(0, limit) : ranked;
+  const rest = ranked.slice(kept.length);
+  const overrides = style.categoryColors || {};
+
+  const classes: CategoryClass[] = kept.map(([label, count], i) => ({
+    label,
+    count,
+    color: overrides[label] || QUALITATIVE_COLORS[i % QUALITATIVE_COLORS.length],
+    members: [label],
+  }));
+  if (rest.length > 0) {
+    classes.push({
+      label: OTHER_CATEGORY,
+      count: d3.sum(rest, (r: [string, number]) => r[1]),
+      color: overrides[OTHER_CATEGORY] || OTHER_COLOR,
+      members: rest.map(r => r[0]),
+    });
+  }
+
+  const lookup = new Map<string, CategoryClass>();
+  classes.forEach(c => c.members.forEach(m => lookup.set(m, c)));
+  const bucketFor = (category: string | undefined) => (category === undefined ? null : lookup.get(category) || null);
+
+  return {
+    classes,
+    bucketFor,
+    colorFor: (category) => bucketFor(category)?.color || null,
+  };
+}
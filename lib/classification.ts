@@ -0,0 +1,272 @@
+import * as d3 from 'd3';
+import { MapStyle, ClassificationMethod, MidpointType, DivergingSettings, PALETTES } from '../types';
+import { getInterpolator } from './palettes';
+
+export interface Classification {
+  method: ClassificationMethod;
+  // Class boundaries including the data min and max: [min, b1, ..., max]
+  breaks: number[];
+  colors: string[];
+  classIndex: (value: number) => number;
+  colorFor: (value: number) => string;
+  midpoint?: number; // Set for diverging scales
+}
+
+// Fill for regions without a value (and for every region when the fill layer is off)
+export const NO_DATA_COLOR = '#1e293b';
+
+export const CLASSIFICATION_METHODS: { value: ClassificationMethod; label: string }[] = [
+  { value: 'quantile', label: 'Quantile' },
+  { value: 'equal', label: 'Equal Interval' },
+  { value: 'natural', label: 'Natural Breaks (Jenks)' },
+  { value: 'stddev', label: 'Standard Deviation' },
+  { value: 'manual', label: 'Manual Breaks' },
+];
+
+export const MIDPOINT_TYPES: { value: MidpointType; label: string }[] = [
+  { value: 'value', label: 'Fixed value' },
+  { value: 'mean', label: 'Mean' },
+  { value: 'median', label: 'Median' },
+];
+
+export function getPaletteColors(style: MapStyle): string[] {
+  const colors = style.palette === 'custom' && style.customColors && style.customColors.length >= 2
+    ? style.customColors
+    : PALETTES[style.palette] || PALETTES.ocean;
+  return style.reversePalette ? colors.slice().reverse() : colors;
+}
+
+// Exactly `count` colours spread over the palette; a single class takes its midpoint
+export function getClassColors(style: MapStyle, count: number): string[] {
+  const interpolate = getInterpolator(getPaletteColors(style), style.interpolation);
+  if (count < 2) return count === 1 ? [interpolate(0.5)] : [];
+  return d3.quantize(interpolate, count);
+}
+
+// -- Break algorithms --
+// Each returns the inner thresholds (classesCount - 1 values) for sorted input.
+
+function equalIntervalThresholds(sorted: number[], k: number): number[] {
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  const step = (max - min) / k;
+  return d3.range(1, k).map(i => min + step * i);
+}
+
+function quantileThresholds(sorted: number[], k: number): number[] {
+  return d3.range(1, k).map(i => d3.quantileSorted(sorted, i / k) as number);
+}
+
+function standardDeviationThresholds(sorted: number[], k: number): number[] {
+  const mean = d3.mean(sorted) as number;
+  const sd = d3.deviation(sorted) || 0;
+  // Classes are one standard deviation wide and centred on the mean
+  return d3.range(1, k).map(i => mean + (i - k / 2) * sd);
+}
+
+// Jenks natural breaks via the classic dynamic-programming formulation.
+function jenksThresholds(sorted: number[], k: number): number[] {
+  const n = sorted.length;
+  if (k >= n) return sorted.slice(1);
+
+  const lowerLimits: number[][] = [];
+  const variances: number[][] = [];
+  for (let i = 0; i <= n; i++) {
+    lowerLimits.push(new Array(k + 1).fill(0));
+    variances.push(new Array(k + 1).fill(i === 0 ? 0 : Infinity));
+  }
+  for (let j = 1; j <= k; j++) {
+    lowerLimits[1][j] = 1;
+    variances[1][j] = 0;
+  }
+
+  for (let l = 2; l <= n; l++) {
+    let sum = 0;
+    let sumSquares = 0;
+    let w = 0;
+    let variance = 0;
+    for (let m = 1; m <= l; m++) {
+      const lowerIndex = l - m + 1;
+      const val = sorted[lowerIndex - 1];
+      w++;
+      sum += val;
+      sumSquares += val * val;
+      variance = sumSquares - (sum * sum) / w;
+      const i4 = lowerIndex - 1;
+      if (i4 !== 0) {
+        for (let j = 2; j <= k; j++) {
+          if (variances[l][j] >= variance + variances[i4][j - 1]) {
+            lowerLimits[l][j] = lowerIndex;
+            variances[l][j] = variance + variances[i4][j - 1];
+          }
+        }
+      }
+    }
+    lowerLimits[l][1] = 1;
+    variances[l][1] = variance;
+  }
+
+  const thresholds: number[] = new Array(k - 1);
+  let upper = n;
+  for (let j = k; j >= 2; j--) {
+    const lowerIndex = lowerLimits[upper][j] - 1;
+    thresholds[j - 2] = sorted[lowerIndex];
+    upper = lowerIndex;
+  }
+  return thresholds;
+}
+
+function manualThresholds(manualBreaks: number[] | undefined, k: number): number[] {
+  return (manualBreaks || [])
+    .filter(b => typeof b === 'number' && !isNaN(b))
+    .sort((a, b) => a - b)
+    .slice(0, k - 1);
+}
+
+// -- Diverging scales --
+
+export function resolveMidpoint(values: number[], settings: DivergingSettings): number {
+  const clean = values.filter(v => typeof v === 'number' && !isNaN(v));
+  if (settings.midpoint === 'mean') return d3.mean(clean) ?? settings.value;
+  if (settings.midpoint === 'median') return d3.median(clean) ?? settings.value;
+  return settings.value;
+}
+
+// Half the classes fall below the midpoint and half above, each side broken with the chosen
+// method. An odd count adds a neutral class straddling the midpoint.
+function divergingThresholds(sorted: number[], method: ClassificationMethod, k: number, mid: number): number[] {
+  const perSide = Math.floor(k / 2);
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  let lower: number[];
+  let upper: number[];
+
+  if (method === 'equal' || method === 'stddev') {
+    // Equal steps on both sides, so the same shade means the same distance from the midpoint
+    const step = method === 'stddev'
+      ? d3.deviation(sorted) || 0
+      : Math.max(mid - min, max - mid) / perSide;
+    lower = d3.range(perSide - 1, 0, -1).map(i => mid - i * step);
+    upper = d3.range(1, perSide).map(i => mid + i * step);
+  } else {
+    const breakSide = (side: number[]) => {
+      if (perSide < 2 || side.length === 0) return [];
+      return method === 'natural' ? jenksThresholds(side, perSide) : quantileThresholds(side, perSide);
+    };
+    lower = breakSide([...sorted.filter(v => v < mid), mid]);
+    upper = breakSide([mid, ...sorted.filter(v => v > mid)]);
+  }
+
+  if (k % 2 === 0) return [...lower, mid, ...upper];
+  const below = lower.length > 0 ? lower[lower.length - 1] : Math.min(min, mid);
+  const above = upper.length > 0 ? upper[0] : Math.max(max, mid);
+  return [...lower, mid - (mid - below) / 2, mid + (above - mid) / 2, ...upper];
+}
+
+// Shades step away from the palette's neutral centre at the same rate on both sides.
+// Piecewise interpolation passes through every stop, so the centre class gets the exact neutral.
+function getDivergingColors(style: MapStyle, breaks: number[], mid: number): string[] {
+  const colors = getPaletteColors(style);
+  const interpolate = style.interpolation && style.interpolation !== 'rgb'
+    ? getInterpolator(colors, style.interpolation)
+    : d3.piecewise(d3.interpolateRgb, colors);
+  const classes = d3.range(breaks.length - 1).map(i => [breaks[i], breaks[i + 1]]);
+  const below = classes.filter(([, upper]) => upper <= mid).length;
+  const above = classes.filter(([lower]) => lower >= mid).length;
+  const steps = Math.max(1, below, above);
+  return classes.map(([lower, upper], i) => {
+    if (upper <= mid) return interpolate(0.5 - 0.5 * (below - i) / steps);
+    if (lower >= mid) return interpolate(0.5 + 0.5 * (i - (classes.length - above) + 1) / steps);
+    return interpolate(0.5);
+  });
+}
+
+export function computeBreaks(
+  values: number[],
+  method: ClassificationMethod,
+  classesCount: number,
+  manualBreaks?: number[],
+  midpoint?: number
+): number[] {
+  const sorted = values.filter(v => typeof v === 'number' && !isNaN(v)).sort((a, b) => a - b);
+  if (sorted.length === 0) return [];
+
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  const k = Math.max(1, Math.round(classesCount));
+  if (k === 1 || min === max) return [min, max];
+
+  let thresholds: number[];
+  if (midpoint !== undefined && method !== 'manual') {
+    thresholds = divergingThresholds(sorted, method, k, midpoint);
+  } else {
+    switch (method) {
+      case 'equal':
+        thresholds = equalIntervalThresholds(sorted, k);
+        break;
+      case 'natural':
+        thresholds = jenksThresholds(sorted, k);
+        break;
+      case 'stddev':
+        thresholds = standardDeviationThresholds(sorted, k);
+        break;
+      case 'manual':
+        thresholds = manualThresholds(manualBreaks, k);
+        break;
+      case 'quantile':
+      default:
+        thresholds = quantileThresholds(sorted, k);
+    }
+  }
+
+  // Keep the boundaries monotonic even when a method proposes breaks outside the data range
+  const clamped = thresholds.map(t => Math.min(max, Math.max(min, t)));
+  return [min, ...clamped, max];
+}
+
+export function classify(values: number[], style: MapStyle): Classification | null {
+  const midpoint = style.diverging ? resolveMidpoint(values, style.diverging) : undefined;
+  const breaks = computeBreaks(values, style.classificationMethod, style.classesCount, style.manualBreaks, midpoint);
+  if (breaks.length === 0) return null;
+
+  const thresholds = breaks.slice(1, -1);
+  const colors = midpoint !== undefined && breaks.length > 2
+    ? getDivergingColors(style, breaks, midpoint)
+    : getClassColors(style, thresholds.length + 1);
+  const classIndex = (value: number) => d3.bisectRight(thresholds, value);
+
+  return {
+    method: style.classificationMethod,
+    breaks,
+    colors,
+    classIndex,
+    colorFor: (value: number) => colors[classIndex(value)],
+    midpoint,
+  };
+}
+
+// Where the midpoint sits along a legend of equal-width class swatches, from 0 to 1
+export function getMidpointPosition(classification: Classification): number | null {
+  const { breaks, midpoint } = classification;
+  if (midpoint === undefined || breaks.length < 2) return null;
+  const n = breaks.length - 1;
+  if (midpoint <= breaks[0]) return 0;
+  if (midpoint >= breaks[n]) return 1;
+  const i = Math.min(n - 1, d3.bisectRight(breaks, midpoint) - 1);
+  const width = breaks[i + 1] - breaks[i];
+  return (i + (width > 0 ? (midpoint - breaks[i]) / width : 0)) / n;
+}
+
+export function formatBreak(value: number): string {
+  const abs = Math.abs(value);
+  if (abs >= 1e4) return d3.format('.3~s')(value);
+  if (abs >= 100) return d3.format(',.0f')(value);
+  return d3.format(',.3~g')(value);
+}
+
+export function getClassRangeLabel(classification: Classification, index: number): string {
+  const lower = classification.breaks[index];
+  const upper = classification.breaks[index + 1];
+  if (lower === undefined || upper === undefined) return '';
+  return `${formatBreak(lower)} – ${formatBreak(upper)}`;
+}
@@ -0,0 +1,73 @@
+import { TitleSettings } from '../types';
+
+// How the title block, the source line and the map share one canvas. The title is drawn inside
+// the map's own SVG, so exports copy it exactly as it appears on screen.
+
+export const TITLE_SIZES: Record<TitleSettings['size'], { title: number; subtitle: number }> = {
+  small: { title: 16, subtitle: 11 },
+  medium: { title: 20, subtitle: 12 },
+  large: { title: 26, subtitle: 14 },
+};
+export const SOURCE_FONT_SIZE = 10;
+
+const MAP_PADDING = 20;
+const BLOCK_GAP = 12; // Between the title block and the map
+
+export interface CompositionMargins {
+  top: number;
+  bottom: number;
+  side: number;
+}
+
+export interface TextPlacement {
+  x: number;
+  y: number; // Top of the text block
+  anchor: 'start' | 'middle' | 'end';
+}
+
+export interface CompositionLayout {
+  title: TextPlacement | null;
+  source: TextPlacement | null;
+  mapExtent: [[number, number], [number, number]];
+}
+
+export function getTitleBlockHeight(settings: TitleSettings): number {
+  if (settings.position === 'none') return 0;
+  const sizes = TITLE_SIZES[settings.size];
+  const titleHeight = settings.title ? sizes.title * 1.25 : 0;
+  const subtitleHeight = settings.subtitle ? sizes.subtitle * 1.4 : 0;
+  return titleHeight + (titleHeight && subtitleHeight ? 4 : 0) + subtitleHeight;
+}
+
+export function layoutComposition(
+  width: number,
+  height: number,
+  settings: TitleSettings,
+  margins: CompositionMargins
+): CompositionLayout {
+  const x = settings.alignment === 'left' ? margins.side : settings.alignment === 'right' ? width - margins.side : width / 2;
+  const anchor = settings.alignment === 'left' ? 'start' : settings.alignment === 'right' ? 'end' : 'middle';
+  const blockHeight = getTitleBlockHeight(settings);
+  const hasSource = !!settings.source?.trim();
+
+  const sourceTop = height - margins.bottom - SOURCE_FONT_SIZE;
+  const footerTop = hasSource ? sourceTop - 6 : height - margins.bottom;
+
+  let title: TextPlacement | null = null;
+  let mapTop = MAP_PADDING;
+  let mapBottom = hasSource ? footerTop - BLOCK_GAP : height - MAP_PADDING;
+  if (blockHeight > 0 && settings.position === 'top') {
+    title = { x, y: margins.top, anchor };
+    mapTop = Math.max(MAP_PADDING, margins.top + blockHeight + BLOCK_GAP);
+  } else if (blockHeight > 0 && settings.position === 'bottom') {
+    title = { x, y: footerTop - blockHeight, anchor };
+    mapBottom = footerTop - blockHeight - BLOCK_GAP;
+  }
+
+  return {
+    title,
+    source: hasSource ? { x, y: sourceTop, anchor } : null,
+    // Never squeeze the map below a sliver, however tall the text gets
+    mapExtent: [[MAP_PADDING, mapTop], [width - MAP_PADDING, Math.max(mapTop + 40, mapBottom)]],
+  };
+}
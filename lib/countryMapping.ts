@@ -1,11 +1,12 @@
 export const COUNTRY_NAME_TO_ID: Record<string, string> = {
   "afghanistan": "004",
+  "aland islands": "248",
   "albania": "008",
   "algeria": "012",
   "american samoa": "016",
   "andorra": "020",
   "angola": "024",
-  "anguilla": "0660",
+  "anguilla": "660",
   "antarctica": "010",
   "antigua and barbuda": "028",
   "argentina": "032",
@@ -25,31 +26,38 @@ export const COUNTRY_NAME_TO_ID: Record<string, string> = {
   "bermuda": "060",
   "bhutan": "064",
   "bolivia": "068",
+  "bonaire, sint eustatius and saba": "535",
   "bosnia and herzegovina": "070",
   "botswana": "072",
+  "bouvet island": "074",
   "brazil": "076",
+  "british indian ocean territory": "086",
   "brunei": "096",
   "bulgaria": "100",
   "burkina faso": "854",
   "burundi": "108",
+  "cabo verde": "132",
   "cambodia": "116",
   "cameroon": "120",
   "canada": "124",
-  "cape verde": "132",
   "cayman islands": "136",
   "central african republic": "140",
   "chad": "148",
   "chile": "152",
   "china": "156",
+  "christmas island": "162",
+  "cocos (keeling) islands": "166",
   "colombia": "170",
   "comoros": "174",
-  "congo": "178",
   "cook islands": "184",
   "costa rica": "188",
+  "côte d'ivoire": "384",
   "croatia": "191",
   "cuba": "192",
+  "curaçao": "531",
   "cyprus": "196",
-  "czech republic": "203",
+  "czechia": "203",
+  "democratic republic of the congo": "180",
   "denmark": "208",
   "djibouti": "262",
   "dominica": "212",
@@ -60,6 +68,7 @@ export const COUNTRY_NAME_TO_ID: Record<string, string> = {
   "equatorial guinea": "226",
   "eritrea": "232",
   "estonia": "233",
+  "eswatini": "748",
   "ethiopia": "231",
   "falkland islands": "238",
   "faroe islands": "234",
@@ -68,6 +77,7 @@ export const COUNTRY_NAME_TO_ID: Record<string, string> = {
   "france": "250",
   "french guiana": "254",
   "french polynesia": "258",
+  "french southern territories": "260",
   "gabon": "266",
   "gambia": "270",
   "georgia": "268",
@@ -85,6 +95,7 @@ export const COUNTRY_NAME_TO_ID: Record<string, string> = {
   "guinea-bissau": "624",
   "guyana": "328",
   "haiti": "332",
+  "heard island and mcdonald islands": "334",
   "honduras": "340",
   "hong kong": "344",
   "hungary": "348",
@@ -104,8 +115,6 @@ export const COUNTRY_NAME_TO_ID: Record<string, string> = {
   "kazakhstan": "398",
   "kenya": "404",
   "kiribati": "296",
-  "north korea": "408",
-  "south korea": "410",
   "kuwait": "414",
   "kyrgyzstan": "417",
   "laos": "418",
@@ -118,7 +127,6 @@ export const COUNTRY_NAME_TO_ID: Record<string, string> = {
   "lithuania": "440",
   "luxembourg": "442",
   "macao": "446",
-  "macedonia": "807",
   "madagascar": "450",
   "malawi": "454",
   "malaysia": "458",
@@ -151,6 +159,8 @@ export const COUNTRY_NAME_TO_ID: Record<string, string> = {
   "nigeria": "566",
   "niue": "570",
   "norfolk island": "574",
+  "north korea": "408",
+  "north macedonia": "807",
   "northern mariana islands": "580",
   "norway": "578",
   "oman": "512",
@@ -167,35 +177,41 @@ export const COUNTRY_NAME_TO_ID: Record<string, string> = {
   "portugal": "620",
   "puerto rico": "630",
   "qatar": "634",
-  "reunion": "638",
+  "republic of the congo": "178",
+  "réunion": "638",
   "romania": "642",
   "russia": "643",
   "rwanda": "646",
+  "saint barthélemy": "652",
   "saint helena": "654",
   "saint kitts and nevis": "659",
   "saint lucia": "662",
+  "saint martin": "663",
   "saint pierre and miquelon": "666",
   "saint vincent and the grenadines": "670",
   "samoa": "882",
   "san marino": "674",
-  "sao tome and principe": "678",
+  "são tomé and príncipe": "678",
   "saudi arabia": "682",
   "senegal": "686",
   "serbia": "688",
   "seychelles": "690",
   "sierra leone": "694",
   "singapore": "702",
+  "sint maarten": "534",
   "slovakia": "703",
   "slovenia": "705",
   "solomon islands": "090",
   "somalia": "706",
   "south africa": "710",
+  "south georgia and the south sandwich islands": "239",
+  "south korea": "410",
   "south sudan": "728",
   "spain": "724",
   "sri lanka": "144",
   "sudan": "729",
   "suriname": "740",
-  "swaziland": "748",
+  "svalbard and jan mayen": "744",
   "sweden": "752",
   "switzerland": "756",
   "syria": "760",
@@ -218,7 +234,7 @@ export const COUNTRY_NAME_TO_ID: Record<string, string> = {
   "united arab emirates": "784",
   "united kingdom": "826",
   "united states": "840",
-  "usa": "840",
+  "united states minor outlying islands": "581",
   "uruguay": "858",
   "uzbekistan": "860",
   "vanuatu": "548",
@@ -234,29 +250,293 @@ export const COUNTRY_NAME_TO_ID: Record<string, string> = {
   "zimbabwe": "716"
 };
 
+// ISO 3166-1 codes as [numeric, alpha-2, alpha-3]
+export const ISO_CODES: [string, string, string][] = [
+  ['004', 'AF', 'AFG'], ['248', 'AX', 'ALA'], ['008', 'AL', 'ALB'], ['012', 'DZ', 'DZA'], ['016', 'AS', 'ASM'],
+  ['020', 'AD', 'AND'], ['024', 'AO', 'AGO'], ['660', 'AI', 'AIA'], ['010', 'AQ', 'ATA'], ['028', 'AG', 'ATG'],
+  ['032', 'AR', 'ARG'], ['051', 'AM', 'ARM'], ['533', 'AW', 'ABW'], ['036', 'AU', 'AUS'], ['040', 'AT', 'AUT'],
+  ['031', 'AZ', 'AZE'], ['044', 'BS', 'BHS'], ['048', 'BH', 'BHR'], ['050', 'BD', 'BGD'], ['052', 'BB', 'BRB'],
+  ['112', 'BY', 'BLR'], ['056', 'BE', 'BEL'], ['084', 'BZ', 'BLZ'], ['204', 'BJ', 'BEN'], ['060', 'BM', 'BMU'],
+  ['064', 'BT', 'BTN'], ['068', 'BO', 'BOL'], ['535', 'BQ', 'BES'], ['070', 'BA', 'BIH'], ['072', 'BW', 'BWA'],
+  ['074', 'BV', 'BVT'], ['076', 'BR', 'BRA'], ['086', 'IO', 'IOT'], ['096', 'BN', 'BRN'], ['100', 'BG', 'BGR'],
+  ['854', 'BF', 'BFA'], ['108', 'BI', 'BDI'], ['132', 'CV', 'CPV'], ['116', 'KH', 'KHM'], ['120', 'CM', 'CMR'],
+  ['124', 'CA', 'CAN'], ['136', 'KY', 'CYM'], ['140', 'CF', 'CAF'], ['148', 'TD', 'TCD'], ['152', 'CL', 'CHL'],
+  ['156', 'CN', 'CHN'], ['162', 'CX', 'CXR'], ['166', 'CC', 'CCK'], ['170', 'CO', 'COL'], ['174', 'KM', 'COM'],
+  ['178', 'CG', 'COG'], ['180', 'CD', 'COD'], ['184', 'CK', 'COK'], ['188', 'CR', 'CRI'], ['384', 'CI', 'CIV'],
+  ['191', 'HR', 'HRV'], ['192', 'CU', 'CUB'], ['531', 'CW', 'CUW'], ['196', 'CY', 'CYP'], ['203', 'CZ', 'CZE'],
+  ['208', 'DK', 'DNK'], ['262', 'DJ', 'DJI'], ['212', 'DM', 'DMA'], ['214', 'DO', 'DOM'], ['218', 'EC', 'ECU'],
+  ['818', 'EG', 'EGY'], ['222', 'SV', 'SLV'], ['226', 'GQ', 'GNQ'], ['232', 'ER', 'ERI'], ['233', 'EE', 'EST'],
+  ['748', 'SZ', 'SWZ'], ['231', 'ET', 'ETH'], ['238', 'FK', 'FLK'], ['234', 'FO', 'FRO'], ['242', 'FJ', 'FJI'],
+  ['246', 'FI', 'FIN'], ['250', 'FR', 'FRA'], ['254', 'GF', 'GUF'], ['258', 'PF', 'PYF'], ['260', 'TF', 'ATF'],
+  ['266', 'GA', 'GAB'], ['270', 'GM', 'GMB'], ['268', 'GE', 'GEO'], ['276', 'DE', 'DEU'], ['288', 'GH', 'GHA'],
+  ['292', 'GI', 'GIB'], ['300', 'GR', 'GRC'], ['304', 'GL', 'GRL'], ['308', 'GD', 'GRD'], ['312', 'GP', 'GLP'],
+  ['316', 'GU', 'GUM'], ['320', 'GT', 'GTM'], ['831', 'GG', 'GGY'], ['324', 'GN', 'GIN'], ['624', 'GW', 'GNB'],
+  ['328', 'GY', 'GUY'], ['332', 'HT', 'HTI'], ['334', 'HM', 'HMD'], ['336', 'VA', 'VAT'], ['340', 'HN', 'HND'],
+  ['344', 'HK', 'HKG'], ['348', 'HU', 'HUN'], ['352', 'IS', 'ISL'], ['356', 'IN', 'IND'], ['360', 'ID', 'IDN'],
+  ['364', 'IR', 'IRN'], ['368', 'IQ', 'IRQ'], ['372', 'IE', 'IRL'], ['833', 'IM', 'IMN'], ['376', 'IL', 'ISR'],
+  ['380', 'IT', 'ITA'], ['388', 'JM', 'JAM'], ['392', 'JP', 'JPN'], ['832', 'JE', 'JEY'], ['400', 'JO', 'JOR'],
+  ['398', 'KZ', 'KAZ'], ['404', 'KE', 'KEN'], ['296', 'KI', 'KIR'], ['408', 'KP', 'PRK'], ['410', 'KR', 'KOR'],
+  ['414', 'KW', 'KWT'], ['417', 'KG', 'KGZ'], ['418', 'LA', 'LAO'], ['428', 'LV', 'LVA'], ['422', 'LB', 'LBN'],
+  ['426', 'LS', 'LSO'], ['430', 'LR', 'LBR'], ['434', 'LY', 'LBY'], ['438', 'LI', 'LIE'], ['440', 'LT', 'LTU'],
+  ['442', 'LU', 'LUX'], ['446', 'MO', 'MAC'], ['450', 'MG', 'MDG'], ['454', 'MW', 'MWI'], ['458', 'MY', 'MYS'],
+  ['462', 'MV', 'MDV'], ['466', 'ML', 'MLI'], ['470', 'MT', 'MLT'], ['584', 'MH', 'MHL'], ['474', 'MQ', 'MTQ'],
+  ['478', 'MR', 'MRT'], ['480', 'MU', 'MUS'], ['175', 'YT', 'MYT'], ['484', 'MX', 'MEX'], ['583', 'FM', 'FSM'],
+  ['498', 'MD', 'MDA'], ['492', 'MC', 'MCO'], ['496', 'MN', 'MNG'], ['499', 'ME', 'MNE'], ['500', 'MS', 'MSR'],
+  ['504', 'MA', 'MAR'], ['508', 'MZ', 'MOZ'], ['104', 'MM', 'MMR'], ['516', 'NA', 'NAM'], ['520', 'NR', 'NRU'],
+  ['524', 'NP', 'NPL'], ['528', 'NL', 'NLD'], ['540', 'NC', 'NCL'], ['554', 'NZ', 'NZL'], ['558', 'NI', 'NIC'],
+  ['562', 'NE', 'NER'], ['566', 'NG', 'NGA'], ['570', 'NU', 'NIU'], ['574', 'NF', 'NFK'], ['807', 'MK', 'MKD'],
+  ['580', 'MP', 'MNP'], ['578', 'NO', 'NOR'], ['512', 'OM', 'OMN'], ['586', 'PK', 'PAK'], ['585', 'PW', 'PLW'],
+  ['275', 'PS', 'PSE'], ['591', 'PA', 'PAN'], ['598', 'PG', 'PNG'], ['600', 'PY', 'PRY'], ['604', 'PE', 'PER'],
+  ['608', 'PH', 'PHL'], ['612', 'PN', 'PCN'], ['616', 'PL', 'POL'], ['620', 'PT', 'PRT'], ['630', 'PR', 'PRI'],
+  ['634', 'QA', 'QAT'], ['638', 'RE', 'REU'], ['642', 'RO', 'ROU'], ['643', 'RU', 'RUS'], ['646', 'RW', 'RWA'],
+  ['652', 'BL', 'BLM'], ['654', 'SH', 'SHN'], ['659', 'KN', 'KNA'], ['662', 'LC', 'LCA'], ['663', 'MF', 'MAF'],
+  ['666', 'PM', 'SPM'], ['670', 'VC', 'VCT'], ['882', 'WS', 'WSM'], ['674', 'SM', 'SMR'], ['678', 'ST', 'STP'],
+  ['682', 'SA', 'SAU'], ['686', 'SN', 'SEN'], ['688', 'RS', 'SRB'], ['690', 'SC', 'SYC'], ['694', 'SL', 'SLE'],
+  ['702', 'SG', 'SGP'], ['534', 'SX', 'SXM'], ['703', 'SK', 'SVK'], ['705', 'SI', 'SVN'], ['090', 'SB', 'SLB'],
+  ['706', 'SO', 'SOM'], ['710', 'ZA', 'ZAF'], ['239', 'GS', 'SGS'], ['728', 'SS', 'SSD'], ['724', 'ES', 'ESP'],
+  ['144', 'LK', 'LKA'], ['729', 'SD', 'SDN'], ['740', 'SR', 'SUR'], ['744', 'SJ', 'SJM'], ['752', 'SE', 'SWE'],
+  ['756', 'CH', 'CHE'], ['760', 'SY', 'SYR'], ['158', 'TW', 'TWN'], ['762', 'TJ', 'TJK'], ['834', 'TZ', 'TZA'],
+  ['764', 'TH', 'THA'], ['626', 'TL', 'TLS'], ['768', 'TG', 'TGO'], ['772', 'TK', 'TKL'], ['776', 'TO', 'TON'],
+  ['780', 'TT', 'TTO'], ['788', 'TN', 'TUN'], ['792', 'TR', 'TUR'], ['795', 'TM', 'TKM'], ['796', 'TC', 'TCA'],
+  ['798', 'TV', 'TUV'], ['800', 'UG', 'UGA'], ['804', 'UA', 'UKR'], ['784', 'AE', 'ARE'], ['826', 'GB', 'GBR'],
+  ['840', 'US', 'USA'], ['581', 'UM', 'UMI'], ['858', 'UY', 'URY'], ['860', 'UZ', 'UZB'], ['548', 'VU', 'VUT'],
+  ['862', 'VE', 'VEN'], ['704', 'VN', 'VNM'], ['092', 'VG', 'VGB'], ['850', 'VI', 'VIR'], ['876', 'WF', 'WLF'],
+  ['732', 'EH', 'ESH'], ['887', 'YE', 'YEM'], ['894', 'ZM', 'ZMB'], ['716', 'ZW', 'ZWE']
+];
+
+// Common alternative spellings, abbreviations and former names
+export const COUNTRY_ALIASES: Record<string, string> = {
+  "usa": "840",
+  "us": "840",
+  "u.s.": "840",
+  "u.s.a.": "840",
+  "united states of america": "840",
+  "america": "840",
+  "uk": "826",
+  "u.k.": "826",
+  "great britain": "826",
+  "britain": "826",
+  "united kingdom of great britain and northern ireland": "826",
+  "russian federation": "643",
+  "south korea": "410",
+  "republic of korea": "410",
+  "korea, republic of": "410",
+  "korea, rep.": "410",
+  "north korea": "408",
+  "dprk": "408",
+  "democratic people's republic of korea": "408",
+  "korea, dem. people's rep.": "408",
+  "iran, islamic republic of": "364",
+  "iran, islamic rep.": "364",
+  "syrian arab republic": "760",
+  "lao pdr": "418",
+  "lao people's democratic republic": "418",
+  "viet nam": "704",
+  "czech republic": "203",
+  "türkiye": "792",
+  "turkiye": "792",
+  "ivory coast": "384",
+  "cote d'ivoire": "384",
+  "drc": "180",
+  "dr congo": "180",
+  "dem. rep. congo": "180",
+  "congo, dem. rep.": "180",
+  "congo-kinshasa": "180",
+  "democratic republic of congo": "180",
+  "zaire": "180",
+  "congo, rep.": "178",
+  "congo-brazzaville": "178",
+  "republic of congo": "178",
+  "cape verde": "132",
+  "east timor": "626",
+  "burma": "104",
+  "holland": "528",
+  "the netherlands": "528",
+  "vatican": "336",
+  "holy see": "336",
+  "macedonia": "807",
+  "fyrom": "807",
+  "swaziland": "748",
+  "moldova, republic of": "498",
+  "tanzania, united republic of": "834",
+  "bolivia, plurinational state of": "068",
+  "venezuela, bolivarian republic of": "862",
+  "venezuela, rb": "862",
+  "brunei darussalam": "096",
+  "micronesia, federated states of": "583",
+  "micronesia, fed. sts.": "583",
+  "state of palestine": "275",
+  "palestine, state of": "275",
+  "west bank and gaza": "275",
+  "taiwan, province of china": "158",
+  "hong kong sar": "344",
+  "hong kong sar, china": "344",
+  "macau": "446",
+  "macao sar, china": "446",
+  "uae": "784",
+  "bahamas, the": "044",
+  "the bahamas": "044",
+  "gambia, the": "270",
+  "the gambia": "270",
+  "egypt, arab rep.": "818",
+  "yemen, rep.": "887",
+  "kyrgyz republic": "417",
+  "slovak republic": "703",
+  "st. kitts and nevis": "659",
+  "st. lucia": "662",
+  "st. vincent and the grenadines": "670",
+  "reunion": "638",
+  "curacao": "531",
+  "sao tome and principe": "678",
+  "timor leste": "626",
+  "falkland islands (malvinas)": "238",
+  "bosnia-herzegovina": "070",
+  "antigua & barbuda": "028",
+  "trinidad & tobago": "780",
+  "bosnia & herzegovina": "070",
+};
+
+// Names that genuinely refer to more than one country and need a human decision
+const AMBIGUOUS_NAMES: Record<string, string[]> = {
+  "congo": ["178", "180"],
+  "korea": ["410", "408"],
+  "virgin islands": ["092", "850"],
+};
+
+export type GeoCodeType = 'name' | 'numeric' | 'alpha2' | 'alpha3';
+
+export type MatchKind = 'numeric' | 'alpha2' | 'alpha3' | 'name' | 'alias' | 'partial';
+
+export interface CountryMatch {
+  id: string | null;
+  confidence: number; // 0..1; 0 when nothing or more than one country matched
+  matchedBy: MatchKind | null;
+  candidates: string[]; // Populated when the input is ambiguous
+}
+
+// Lowercase, strip accents and punctuation so "Côte d’Ivoire" and "cote d'ivoire" compare equal
+export function normalizeCountryName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[\u2018\u2019`]/g, "'")
+    .replace(/&/g, ' and ')
+    .replace(/[.,()]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+const ISO_IDS = new Set(ISO_CODES.map(([id]) => id));
+const ALPHA2_TO_ID: Record<string, string> = Object.fromEntries(ISO_CODES.map(([id, a2]) => [a2, id]));
+const ALPHA3_TO_ID: Record<string, string> = Object.fromEntries(ISO_CODES.map(([id, , a3]) => [a3, id]));
+
+const NAME_INDEX: Record<string, string> = Object.fromEntries(
+  Object.entries(COUNTRY_NAME_TO_ID).map(([name, id]) => [normalizeCountryName(name), id])
+);
+const ALIAS_INDEX: Record<string, string> = Object.fromEntries(
+  Object.entries(COUNTRY_ALIASES).map(([name, id]) => [normalizeCountryName(name), id])
+);
+const AMBIGUOUS_INDEX: Record<string, string[]> = Object.fromEntries(
+  Object.entries(AMBIGUOUS_NAMES).map(([name, ids]) => [normalizeCountryName(name), ids])
+);
+
+const NO_MATCH: CountryMatch = { id: null, confidence: 0, matchedBy: null, candidates: [] };
+
+const tokensOf = (name: string) => name.split(/[\s-]+/).filter(Boolean);
+const containsTokens = (haystack: string[], needle: string[]) =>
+  needle.length > 0 && needle.every(t => haystack.includes(t));
+
+// Whole-word matching only: "niger" never matches "nigeria"
+function resolvePartial(normalized: string): CountryMatch {
+  const inputTokens = tokensOf(normalized);
+  const ids = new Set<string>();
+  Object.entries(NAME_INDEX).forEach(([name, id]) => {
+    const nameTokens = tokensOf(name);
+    if (containsTokens(nameTokens, inputTokens) || containsTokens(inputTokens, nameTokens)) ids.add(id);
+  });
+  const candidates = Array.from(ids);
+  if (candidates.length === 1) return { id: candidates[0], confidence: 0.6, matchedBy: 'partial', candidates: [] };
+  if (candidates.length > 1) return { id: null, confidence: 0, matchedBy: 'partial', candidates };
+  return NO_MATCH;
+}
+
+function resolveCode(clean: string, codeType: Exclude<GeoCodeType, 'name'>): CountryMatch {
+  let id: string | undefined;
+  if (codeType === 'numeric' && /^\d{1,3}$/.test(clean)) {
+    const padded = clean.padStart(3, '0');
+    id = ISO_IDS.has(padded) ? padded : undefined;
+  } else if (codeType === 'alpha2') {
+    id = ALPHA2_TO_ID[clean.toUpperCase()];
+  } else if (codeType === 'alpha3') {
+    id = ALPHA3_TO_ID[clean.toUpperCase()];
+  }
+  return id ? { id, confidence: 1, matchedBy: codeType, candidates: [] } : NO_MATCH;
+}
+
+function resolveName(raw: string): CountryMatch {
+  const normalized = normalizeCountryName(raw);
+  if (!normalized) return NO_MATCH;
+  if (NAME_INDEX[normalized]) return { id: NAME_INDEX[normalized], confidence: 1, matchedBy: 'name', candidates: [] };
+  if (ALIAS_INDEX[normalized]) return { id: ALIAS_INDEX[normalized], confidence: 0.95, matchedBy: 'alias', candidates: [] };
+  if (AMBIGUOUS_INDEX[normalized]) return { id: null, confidence: 0, matchedBy: 'name', candidates: AMBIGUOUS_INDEX[normalized] };
+  return resolvePartial(normalized);
+}
+
+/**
+ * Resolves a country name or code to an ISO 3166-1 numeric id.
+ * Without a code type the input is sniffed: digits are numeric codes, two or
+ * three uppercase letters are alpha codes, anything else is treated as a name.
+ */
+export function resolveCountry(input: string, codeType?: GeoCodeType): CountryMatch {
+  const clean = (input || '').trim();
+  if (!clean) return NO_MATCH;
+
+  if (codeType && codeType !== 'name') return resolveCode(clean, codeType);
+
+  if (!codeType) {
+    if (/^\d{1,3}$/.test(clean)) return resolveCode(clean, 'numeric');
+    if (/^[A-Z]{2}$/.test(clean)) {
+      const match = resolveCode(clean, 'alpha2');
+      if (match.id) return match;
+    }
+    if (/^[A-Z]{3}$/.test(clean)) {
+      const match = resolveCode(clean, 'alpha3');
+      if (match.id) return match;
+    }
+  }
+
+  return resolveName(clean);
+}
+
 export function getCountryId(nameOrId: string): string | null {
-  const clean = nameOrId.trim().toLowerCase();
-  
-  // If it's already a 3-digit numeric ID
-  if (/^\d{3}$/.test(clean)) return clean;
-  
-  // Try direct mapping
-  if (COUNTRY_NAME_TO_ID[clean]) return COUNTRY_NAME_TO_ID[clean];
-  
-  // Try fuzzy match (contains)
-  const match = Object.keys(COUNTRY_NAME_TO_ID).find(name => 
-    name.includes(clean) || clean.includes(name)
-  );
-  
-  return match ? COUNTRY_NAME_TO_ID[match] : null;
+  return resolveCountry(nameOrId).id;
 }
 
+export function getCountryIdByCode(code: string, codeType: GeoCodeType): string | null {
+  return resolveCountry(code, codeType).id;
+}
+
+const LOWERCASE_WORDS = new Set(['and', 'of', 'the']);
+
+const toDisplayName = (name: string) => name
+  .split(' ')
+  .map((word, i) => {
+    if (i > 0 && LOWERCASE_WORDS.has(word)) return word;
+    if (word.startsWith("d'")) return "d'" + word.charAt(2).toUpperCase() + word.slice(3);
+    return word.split('-').map(part => part.charAt(0).toUpperCase() + part.slice(1)).join('-');
+  })
+  .join(' ');
+
 export function getCountryName(id: string): string | null {
   const cleanId = id.trim().padStart(3, '0');
-  const match = Object.entries(COUNTRY_NAME_TO_ID).find(([name, code]) => code === cleanId);
-  if (match) {
-    // Capitalize first letter of each word
-    return match[0].split(' ').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
-  }
-  return null;
+  const match = Object.entries(COUNTRY_NAME_TO_ID).find(([, code]) => code === cleanId);
+  return match ? toDisplayName(match[0]) : null;
+}
+
+// Sorted [id, name] pairs for pickers
+export function getCountryOptions(): { id: string; name: string }[] {
+  return Object.entries(COUNTRY_NAME_TO_ID)
+    .map(([name, id]) => ({ id, name: toDisplayName(name) }))
+    .sort((a, b) => a.name.localeCompare(b.name));
 }
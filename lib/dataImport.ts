@@ -0,0 +1,411 @@
+import * as d3 from 'd3';
+import { MapDataState, DatasetMetric, MapTemplate } from '../types';
+import { GeoCodeType, CountryMatch, resolveCountry } from './countryMapping';
+import { BoundaryLayer, resolveBoundaryFeature } from './boundaries';
+import { normalizePeriod, isPeriodLabel, isYearLabel, isPlausibleYearSet, buildSeries, latestFrame } from './timeSeries';
+import { parseCategory } from './categories';
+
+// 'boundary' joins against the keys and names of an uploaded boundary layer or a country's admin-1 regions
+export type ImportCodeType = GeoCodeType | 'boundary';
+
+export type Delimiter = ',' | ';' | '\t' | '|';
+
+// 'long' has a time column (one row per region and period); 'wide' has one value column per period
+export type TimeLayout = 'none' | 'long' | 'wide';
+export type DecimalSeparator = '.' | ',';
+
+export interface ParsedTable {
+  columns: string[];
+  rows: Record<string, string>[];
+}
+
+export interface SheetData {
+  name: string;
+  rows: string[][];
+}
+
+// A file handed to the import wizard. Delimited text is kept raw so the
+// delimiter can be changed after the fact, spreadsheets keep their raw rows
+// so the sheet and header row can be picked, and JSON arrives pre-parsed.
+export interface ImportSource {
+  fileName: string;
+  text?: string;
+  sheets?: SheetData[];
+  table?: ParsedTable;
+  valueMeta?: Record<string, { metric: string; unit: string; categorical?: boolean }>; // Known metric names/units per column
+  template?: MapTemplate; // Style and title to apply alongside the data
+}
+
+export interface ValueColumnMapping {
+  column: string;
+  metric: string;
+  unit: string;
+  categorical?: boolean; // Values are kept as text labels instead of being parsed as numbers
+}
+
+export interface ColumnMapping {
+  geoColumn: string;
+  codeType: ImportCodeType;
+  valueColumns: ValueColumnMapping[];
+  decimalSeparator: DecimalSeparator;
+  overrides?: Record<string, string>; // Raw geography value -> country id chosen by hand ('' skips the row)
+  timeLayout: TimeLayout;
+  timeColumn?: string; // Long layout only
+  seriesMetric?: { metric: string; unit: string }; // Wide layout: the value columns are periods of this metric
+}
+
+// A geography value the resolver could not map with full confidence
+export interface MatchIssue {
+  raw: string;
+  kind: 'unmatched' | 'ambiguous' | 'partial';
+  candidates: string[];
+  suggestedId: string | null;
+  confidence: number;
+  rowCount: number;
+}
+
+export interface MappingResult {
+  data: MapDataState | null;
+  matchedCount: number;
+  issues: MatchIssue[];
+}
+
+export const DELIMITERS: { value: Delimiter; label: string }[] = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe (|)' },
+];
+
+export const TIME_LAYOUTS: { value: TimeLayout; label: string }[] = [
+  { value: 'none', label: 'Single period' },
+  { value: 'long', label: 'Time column (long)' },
+  { value: 'wide', label: 'Period columns (wide)' },
+];
+
+export const CODE_TYPES: { value: ImportCodeType; label: string }[] = [
+  { value: 'name', label: 'Country Name' },
+  { value: 'numeric', label: 'ISO Numeric (840)' },
+  { value: 'alpha2', label: 'ISO Alpha-2 (US)' },
+  { value: 'alpha3', label: 'ISO Alpha-3 (USA)' },
+  { value: 'boundary', label: 'Boundary Key / Name' },
+];
+
+// -- Parsing --
+
+// Counts delimiter occurrences outside quoted fields
+function countOutsideQuotes(line: string, delimiter: string): number {
+  let count = 0;
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && char === delimiter) count++;
+  }
+  return count;
+}
+
+export function detectDelimiter(text: string): Delimiter {
+  const lines = text.split(/\r?\n/).filter(l => l.trim().length > 0).slice(0, 20);
+  if (lines.length === 0) return ',';
+
+  let best: Delimiter = ',';
+  let bestScore = 0;
+  for (const { value } of DELIMITERS) {
+    const counts = lines.map(l => countOutsideQuotes(l, value));
+    const header = counts[0];
+    if (header === 0) continue;
+    // Prefer delimiters that split every line into the same number of fields
+    const consistent = counts.filter(c => c === header).length / counts.length;
+    const score = header * consistent;
+    if (score > bestScore) {
+      best = value;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+export function parseDelimited(text: string, delimiter: Delimiter): ParsedTable {
+  const rows = d3.dsvFormat(delimiter).parse(text.replace(/^\uFEFF/, ''));
+  const columns = rows.columns.filter((c: string) => c.trim().length > 0);
+  return { columns, rows: rows.map((r: Record<string, string>) => ({ ...r })) };
+}
+
+export function parseNumber(raw: string | number | null | undefined, decimal: DecimalSeparator): number {
+  if (typeof raw === 'number') return raw;
+  if (raw === null || raw === undefined) return NaN;
+  let clean = String(raw).trim().replace(/[\s\u00A0\u202F']/g, '');
+  if (!clean) return NaN;
+  if (decimal === ',') {
+    clean = clean.replace(/\./g, '').replace(',', '.');
+  } else {
+    clean = clean.replace(/,/g, '');
+  }
+  // Drop currency symbols, percent signs and other unit decorations
+  clean = clean.replace(/[^0-9.eE+-]/g, '');
+  if (!/\d/.test(clean)) return NaN;
+  return parseFloat(clean);
+}
+
+export function detectDecimalSeparator(table: ParsedTable): DecimalSeparator {
+  let commaDecimals = 0;
+  let dotDecimals = 0;
+  table.rows.slice(0, 200).forEach(row => {
+    table.columns.forEach(col => {
+      const raw = (row[col] || '').trim();
+      // "1,234" is read as a thousands separator; "1,5" and "1.234,5" as decimal commas
+      if (/^-?[\d.\s]*\d,\d+$/.test(raw) && !/^-?\d{1,3}(,\d{3})+$/.test(raw)) commaDecimals++;
+      else if (/^-?[\d,]*\d\.\d+$/.test(raw)) dotDecimals++;
+    });
+  });
+  return commaDecimals > dotDecimals ? ',' : '.';
+}
+
+// Picks the first row that looks like a header: mostly filled, mostly non-numeric,
+// and followed by a row of similar width. Skips title rows and blank preambles in spreadsheets.
+export function detectHeaderRow(rows: string[][]): number {
+  const filled = (row: string[]) => row.filter(c => String(c).trim() !== '').length;
+  const width = Math.max(0, ...rows.slice(0, 50).map(filled));
+  for (let i = 0; i < Math.min(rows.length - 1, 20); i++) {
+    const cells = rows[i].filter(c => String(c).trim() !== '');
+    if (cells.length < Math.max(2, width * 0.6)) continue;
+    const textCells = cells.filter(c => isNaN(parseNumber(c, '.'))).length;
+    if (textCells / cells.length >= 0.5 && filled(rows[i + 1]) >= cells.length * 0.6) return i;
+  }
+  return 0;
+}
+
+export function tableFromRows(rows: string[][], headerRow: number): ParsedTable {
+  const header = rows[headerRow] || [];
+  const seen = new Map<string, number>();
+  // Blank and repeated header cells still need unique column keys
+  const columns = header.map((cell, i) => {
+    const base = String(cell).trim() || `Column ${i + 1}`;
+    const count = seen.get(base) || 0;
+    seen.set(base, count + 1);
+    return count === 0 ? base : `${base} (${count + 1})`;
+  });
+  const body = rows.slice(headerRow + 1).filter(r => r.some(c => String(c).trim() !== ''));
+  return {
+    columns,
+    rows: body.map(r => {
+      const row: Record<string, string> = {};
+      columns.forEach((c, i) => { row[c] = r[i] !== undefined ? String(r[i]) : ''; });
+      return row;
+    }),
+  };
+}
+
+// -- Column detection --
+
+export function isNumericColumn(table: ParsedTable, column: string, decimal: DecimalSeparator): boolean {
+  const samples = table.rows.map(r => r[column]).filter(v => v !== undefined && String(v).trim() !== '');
+  if (samples.length === 0) return false;
+  const numeric = samples.filter(v => !isNaN(parseNumber(v, decimal))).length;
+  return numeric / samples.length >= 0.8;
+}
+
+export function detectCodeType(samples: string[]): GeoCodeType {
+  const clean = samples.map(s => (s || '').trim()).filter(Boolean).slice(0, 50);
+  if (clean.length === 0) return 'name';
+  const share = (re: RegExp) => clean.filter(s => re.test(s)).length / clean.length;
+  if (share(/^\d{1,3}$/) >= 0.8) return 'numeric';
+  if (share(/^[A-Za-z]{2}$/) >= 0.8) return 'alpha2';
+  if (share(/^[A-Z]{3}$/) >= 0.8) return 'alpha3';
+  return 'name';
+}
+
+const TIME_HEADER = /year|period|date|quarter|month|time/i;
+
+// A column whose values are mostly years, quarters or dates. Bare four-digit numbers also need a
+// header that says so, or to look like a run of years.
+export function isTimeColumn(table: ParsedTable, column: string): boolean {
+  const samples = table.rows.map(r => r[column]).filter(v => v !== undefined && String(v).trim() !== '').slice(0, 200);
+  if (samples.length === 0) return false;
+  if (samples.filter(isPeriodLabel).length / samples.length < 0.8) return false;
+  return TIME_HEADER.test(column) || isPlausibleYearSet(samples);
+}
+
+export function detectTimeColumn(table: ParsedTable): string | undefined {
+  const timeColumns = table.columns.filter(c => isTimeColumn(table, c));
+  return timeColumns.find(c => TIME_HEADER.test(c)) || timeColumns[0];
+}
+
+// Headers that name periods; year headers are dropped unless they read as a run of years
+export function getPeriodColumns(table: ParsedTable): string[] {
+  const columns = table.columns.filter(isPeriodLabel);
+  return isPlausibleYearSet(columns) ? columns : columns.filter(c => !isYearLabel(c));
+}
+
+export function detectTimeLayout(table: ParsedTable): { timeLayout: TimeLayout; timeColumn?: string } {
+  if (getPeriodColumns(table).length >= 2) return { timeLayout: 'wide' };
+  const timeColumn = detectTimeColumn(table);
+  return timeColumn ? { timeLayout: 'long', timeColumn } : { timeLayout: 'none' };
+}
+
+export function detectGeoColumn(table: ParsedTable, decimal: DecimalSeparator): string {
+  const byName = table.columns.find(c => /country|nation|iso|code|name|\bid\b/i.test(c) && !isTimeColumn(table, c));
+  if (byName) return byName;
+  return table.columns.find(c => !isNumericColumn(table, c, decimal)) || table.columns[0];
+}
+
+export function suggestMapping(
+  table: ParsedTable,
+  decimal: DecimalSeparator,
+  valueMeta?: ImportSource['valueMeta'],
+  boundaries?: BoundaryLayer | null
+): ColumnMapping {
+  const geoColumn = detectGeoColumn(table, decimal);
+  const codeType: ImportCodeType = boundaries ? 'boundary' : detectCodeType(table.rows.map(r => r[geoColumn]));
+  const time = detectTimeLayout(table);
+
+  // Columns that already carry metric metadata (JSON projects/templates) are all selected
+  if (valueMeta && Object.keys(valueMeta).length > 0) {
+    return {
+      geoColumn,
+      codeType,
+      valueColumns: table.columns
+        .filter(c => c !== geoColumn && valueMeta[c])
+        .map(c => ({ column: c, metric: valueMeta[c].metric, unit: valueMeta[c].unit, categorical: valueMeta[c].categorical })),
+      decimalSeparator: decimal,
+      ...(time.timeLayout === 'long' ? time : { timeLayout: 'none' }),
+    };
+  }
+
+  if (time.timeLayout === 'wide') {
+    return {
+      geoColumn,
+      codeType,
+      valueColumns: getPeriodColumns(table)
+        .filter(c => isNumericColumn(table, c, decimal))
+        .map(c => ({ column: c, metric: c, unit: '' })),
+      decimalSeparator: decimal,
+      timeLayout: 'wide',
+      seriesMetric: { metric: 'Value', unit: '' },
+    };
+  }
+
+  const otherColumns = table.columns.filter(c => c !== geoColumn && c !== time.timeColumn);
+  const numericColumns = otherColumns.filter(c => isNumericColumn(table, c, decimal));
+  const primary = numericColumns.find(c => /value|amount|count|score|index|rate/i.test(c)) || numericColumns[0];
+  // A table with nothing numeric to map is treated as categories (climate zone, ruling party, ...)
+  const textColumn = primary ? undefined : otherColumns.find(c => /type|zone|category|class|group|party|region/i.test(c)) || otherColumns[0];
+
+  return {
+    geoColumn,
+    codeType,
+    valueColumns: primary
+      ? [{ column: primary, metric: primary, unit: '' }]
+      : textColumn ? [{ column: textColumn, metric: textColumn, unit: '', categorical: true }] : [],
+    decimalSeparator: decimal,
+    ...time,
+  };
+}
+
+// -- Mapping --
+
+function resolveGeography(raw: string, codeType: ImportCodeType, boundaries?: BoundaryLayer | null): Pick<CountryMatch, 'id' | 'confidence' | 'candidates'> {
+  if (codeType === 'boundary') {
+    return boundaries ? resolveBoundaryFeature(raw, boundaries) : { id: null, confidence: 0, candidates: [] };
+  }
+  return resolveCountry(raw, codeType);
+}
+
+export function applyMapping(table: ParsedTable, mapping: ColumnMapping, boundaries?: BoundaryLayer | null): MappingResult {
+  const isWide = mapping.timeLayout === 'wide';
+  const isLong = mapping.timeLayout === 'long' && !!mapping.timeColumn;
+  // Wide tables spread a single metric across one column per period
+  const metricDefs = isWide
+    ? [{ name: mapping.seriesMetric?.metric || 'Value', unit: mapping.seriesMetric?.unit || '', categorical: false }]
+    : mapping.valueColumns.map(v => ({ name: v.metric || v.column, unit: v.unit, categorical: !!v.categorical }));
+  // Period -> id -> value for each metric; data without a time dimension uses a single '' period
+  const frames: Record<string, Record<string, number>>[] = metricDefs.map(() => ({}));
+  const setValue = (metric: number, period: string, id: string, val: number) => {
+    if (!frames[metric][period]) frames[metric][period] = {};
+    frames[metric][period][id] = val;
+  };
+  // Categorical metrics have no time dimension; long tables keep each region's latest category
+  const categories: Record<string, string>[] = metricDefs.map(() => ({}));
+  const categoryPeriods: Record<string, string>[] = metricDefs.map(() => ({}));
+
+  const issues = new Map<string, MatchIssue>();
+  const matchedIds = new Set<string>();
+  const overrides = mapping.overrides || {};
+
+  table.rows.forEach(row => {
+    const raw = String(row[mapping.geoColumn] ?? '').trim();
+    if (!raw) return;
+
+    // Issues stay listed after a manual fix so the choice can still be revised
+    const match = resolveGeography(raw, mapping.codeType, boundaries);
+    if (!match.id || match.confidence < 0.9) {
+      const existing = issues.get(raw);
+      if (existing) {
+        existing.rowCount++;
+      } else {
+        issues.set(raw, {
+          raw,
+          kind: match.candidates.length > 1 ? 'ambiguous' : match.id ? 'partial' : 'unmatched',
+          candidates: match.candidates,
+          suggestedId: match.id,
+          confidence: match.confidence,
+          rowCount: 1,
+        });
+      }
+    }
+
+    const id = raw in overrides ? overrides[raw] || null : match.id;
+    if (!id) return;
+
+    const rowPeriod = isLong ? normalizePeriod(row[mapping.timeColumn!]) : '';
+    if (rowPeriod === null) return;
+
+    mapping.valueColumns.forEach((v, i) => {
+      if (!isWide && v.categorical) {
+        const category = parseCategory(row[v.column]);
+        if (category === null || (categoryPeriods[i][id] || '') > rowPeriod) return;
+        categories[i][id] = category;
+        categoryPeriods[i][id] = rowPeriod;
+        matchedIds.add(id);
+        return;
+      }
+      const val = parseNumber(row[v.column], mapping.decimalSeparator);
+      if (isNaN(val)) return;
+      if (isWide) {
+        const period = normalizePeriod(v.column);
+        if (period === null) return;
+        setValue(0, period, id, val);
+      } else {
+        setValue(i, rowPeriod, id, val);
+      }
+      matchedIds.add(id);
+    });
+  });
+
+  const metrics: DatasetMetric[] = metricDefs.map(({ categorical, ...def }, i) => {
+    if (categorical) return { ...def, values: {}, categories: categories[i] };
+    if (!isWide && !isLong) return { ...def, values: frames[i][''] || {} };
+    const series = buildSeries(frames[i]);
+    return { ...def, values: latestFrame(series), series };
+  });
+
+  const populated = metrics.filter(m => Object.keys(m.categories || m.values).length > 0);
+  const issueList = Array.from(issues.values());
+  if (populated.length === 0) {
+    return { data: null, matchedCount: 0, issues: issueList };
+  }
+
+  const [primary] = populated;
+  return {
+    data: {
+      values: primary.values,
+      metric: primary.name,
+      unit: primary.unit,
+      metrics: populated.length > 1 ? populated : undefined,
+      categories: primary.categories,
+      series: primary.series,
+    },
+    matchedCount: matchedIds.size,
+    issues: issueList,
+  };
+}
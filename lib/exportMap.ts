@@ -0,0 +1,433 @@
+import interLatin400 from '@fontsource/inter/files/inter-latin-400-normal.woff2?url';
+import interLatin500 from '@fontsource/inter/files/inter-latin-500-normal.woff2?url';
+import interLatin700 from '@fontsource/inter/files/inter-latin-700-normal.woff2?url';
+import interLatinExt400 from '@fontsource/inter/files/inter-latin-ext-400-normal.woff2?url';
+import interLatinExt500 from '@fontsource/inter/files/inter-latin-ext-500-normal.woff2?url';
+import interLatinExt700 from '@fontsource/inter/files/inter-latin-ext-700-normal.woff2?url';
+import { EmbedKind, FeatureTooltip, buildEmbedSnippet, buildInteractiveHtml } from './interactiveHtml';
+
+export type ExportFormat = 'png' | 'svg' | 'pdf' | 'html';
+export type PageSize = 'a4' | 'a3' | 'letter' | 'tabloid';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  resetExtent: boolean; // Export the whole map instead of the current zoom
+  pixelWidth: number; // PNG only
+  dpi: number; // PNG metadata, and the raster resolution inside a PDF
+  pageSize: PageSize; // PDF only
+  orientation: 'portrait' | 'landscape'; // PDF only
+  htmlOutput: 'file' | EmbedKind; // HTML only: a page to download, or a snippet to paste
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'png',
+  resetExtent: false,
+  pixelWidth: 2400,
+  dpi: 300,
+  pageSize: 'a4',
+  orientation: 'landscape',
+  htmlOutput: 'file',
+};
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; description: string }[] = [
+  { value: 'png', label: 'PNG', description: 'Image for slides and the web' },
+  { value: 'svg', label: 'SVG', description: 'Vector, editable in Illustrator or Inkscape' },
+  { value: 'pdf', label: 'PDF', description: 'Print-ready page' },
+  { value: 'html', label: 'HTML', description: 'Interactive page with zoom and tooltips' },
+];
+
+// In PostScript points (1/72 inch), portrait
+export const PAGE_SIZES: Record<PageSize, { label: string; width: number; height: number }> = {
+  a4: { label: 'A4', width: 595.28, height: 841.89 },
+  a3: { label: 'A3', width: 841.89, height: 1190.55 },
+  letter: { label: 'US Letter', width: 612, height: 792 },
+  tabloid: { label: 'Tabloid', width: 792, height: 1224 },
+};
+
+const PAGE_MARGIN = 36; // Half an inch
+
+export const PIXEL_WIDTH_RANGE = [200, 12000] as const;
+
+export const clampPixelWidth = (width: number) =>
+  Math.round(Math.min(PIXEL_WIDTH_RANGE[1], Math.max(PIXEL_WIDTH_RANGE[0], Number.isFinite(width) ? width : DEFAULT_EXPORT_OPTIONS.pixelWidth)));
+
+// Past these, browsers refuse to allocate a canvas or run out of memory reading it back
+const MAX_CANVAS_SIDE = 16384;
+const MAX_CANVAS_PIXELS = 50_000_000;
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// A note as drawn: its text at a point in the zoom layer's coordinates
+export interface AnnotationLabel {
+  text: string;
+  x: number;
+  y: number;
+}
+
+// What the preview hands over: the live map and the overlay layers to compose around it
+export interface ExportScene {
+  container: HTMLElement; // Everything is positioned relative to this
+  map: SVGSVGElement; // Its zoomable group is tagged data-zoom-layer
+  zoomScale: number;
+  backgroundColor: string;
+  annotations: AnnotationLabel[]; // Only the ones on screen; notes behind the globe are left out
+  title: string;
+  describeFeature: (id: string) => FeatureTooltip | null; // For every element tagged data-id
+}
+
+// Resolves to a message for the user when the result is not a download (a copied snippet)
+export type MapExporter = (options: ExportOptions) => Promise<string | null>;
+
+// Lets React commit and the browser lay out a re-rendered map before it is read back
+export const waitForPaint = () => new Promise<void>(resolve => requestAnimationFrame(() => requestAnimationFrame(() => resolve())));
+
+// -- Fonts --
+
+const GENERIC_FAMILIES = new Set(['serif', 'sans-serif', 'monospace', 'cursive', 'fantasy', 'system-ui', 'ui-sans-serif', 'ui-serif', 'ui-monospace']);
+const fontCssCache = new Map<string, Promise<string>>();
+
+interface BundledFace {
+  weight: number;
+  unicodeRange: string;
+  url: string;
+}
+
+// Unicode ranges of the Fontsource subsets
+const LATIN = 'U+0000-00FF,U+0131,U+0152-0153,U+02BB-02BC,U+02C6,U+02DA,U+02DC,U+0304,U+0308,U+0329,U+2000-206F,U+20AC,U+2122,U+2191,U+2193,U+2212,U+2215,U+FEFF,U+FFFD';
+const LATIN_EXT = 'U+0100-02BA,U+02BD-02C5,U+02C7-02CC,U+02CE-02D7,U+02DD-02FF,U+0304,U+0308,U+0329,U+1D00-1DBF,U+1E00-1E9F,U+1EF2-1EFF,U+2020,U+20A0-20AB,U+20AD-20C0,U+2113,U+2C60-2C7F,U+A720-A7FF';
+
+// Font files shipped with the app (the same ones index.tsx loads), keyed by lower-case family.
+// Any other family is left to whatever the viewer has installed.
+const BUNDLED_FONTS: Record<string, { family: string; faces: BundledFace[] }> = {
+  inter: {
+    family: 'Inter',
+    faces: [
+      { weight: 400, unicodeRange: LATIN, url: interLatin400 },
+      { weight: 500, unicodeRange: LATIN, url: interLatin500 },
+      { weight: 700, unicodeRange: LATIN, url: interLatin700 },
+      { weight: 400, unicodeRange: LATIN_EXT, url: interLatinExt400 },
+      { weight: 500, unicodeRange: LATIN_EXT, url: interLatinExt500 },
+      { weight: 700, unicodeRange: LATIN_EXT, url: interLatinExt700 },
+    ],
+  },
+};
+
+const blobToDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+// @font-face rules for a bundled family with every font file inlined, or '' when it isn't bundled
+async function loadFontFaceCss(family: string): Promise<string> {
+  const bundled = BUNDLED_FONTS[family.toLowerCase()];
+  if (!bundled) return '';
+  const rules = await Promise.all(bundled.faces.map(async face => {
+    const response = await fetch(face.url);
+    if (!response.ok) throw new Error(`Could not load ${face.url} (${response.status})`);
+    const dataUrl = await blobToDataUrl(await response.blob());
+    return `@font-face { font-family: '${bundled.family}'; font-style: normal; font-weight: ${face.weight}; src: url(${dataUrl}) format('woff2'); unicode-range: ${face.unicodeRange}; }`;
+  }));
+  return rules.join('\n');
+}
+
+function getFontFaceCss(family: string): Promise<string> {
+  if (!fontCssCache.has(family)) {
+    fontCssCache.set(family, loadFontFaceCss(family).catch(error => {
+      console.warn(`Could not embed font "${family}":`, error);
+      return '';
+    }));
+  }
+  return fontCssCache.get(family)!;
+}
+
+// First named family of every font stack used in the drawing
+function collectFontFamilies(root: Element): string[] {
+  const families = new Set<string>();
+  root.querySelectorAll<SVGElement>('*').forEach(el => {
+    const stack = el.getAttribute('font-family') || el.style?.fontFamily;
+    const first = stack?.split(',')[0].trim().replace(/^["']|["']$/g, '');
+    if (first && !GENERIC_FAMILIES.has(first.toLowerCase())) families.add(first);
+  });
+  return Array.from(families);
+}
+
+// -- Composition --
+
+// Annotations are HTML in the preview; an exported drawing needs plain SVG text in their place
+function annotationText(annotation: AnnotationLabel, scale: number): SVGTextElement {
+  const text = document.createElementNS(SVG_NS, 'text');
+  text.setAttribute('x', String(annotation.x));
+  text.setAttribute('y', String(annotation.y));
+  text.setAttribute('text-anchor', 'middle');
+  text.setAttribute('dominant-baseline', 'central');
+  text.setAttribute('font-family', 'Inter, sans-serif');
+  text.setAttribute('font-size', String(16 / scale));
+  text.setAttribute('fill', '#ffffff');
+  text.setAttribute('stroke', 'rgba(0,0,0,0.45)');
+  text.setAttribute('stroke-width', String(3 / scale));
+  text.setAttribute('paint-order', 'stroke');
+  text.textContent = annotation.text;
+  return text;
+}
+
+export interface ComposedSvg {
+  markup: string;
+  width: number;
+  height: number;
+}
+
+// Map, title block, annotations and every tagged overlay (legends), without the interactive chrome
+export async function composeSvg(scene: ExportScene): Promise<ComposedSvg> {
+  const bounds = scene.container.getBoundingClientRect();
+  const width = Math.round(bounds.width);
+  const height = Math.round(bounds.height);
+
+  const root = document.createElementNS(SVG_NS, 'svg');
+  root.setAttribute('xmlns', SVG_NS);
+  root.setAttribute('width', String(width));
+  root.setAttribute('height', String(height));
+  root.setAttribute('viewBox', `0 0 ${width} ${height}`);
+
+  const background = document.createElementNS(SVG_NS, 'rect');
+  background.setAttribute('width', String(width));
+  background.setAttribute('height', String(height));
+  background.setAttribute('fill', scene.backgroundColor);
+  root.appendChild(background);
+
+  const mapBounds = scene.map.getBoundingClientRect();
+  const map = scene.map.cloneNode(true) as SVGSVGElement;
+  map.removeAttribute('class');
+  map.setAttribute('x', String(mapBounds.left - bounds.left));
+  map.setAttribute('y', String(mapBounds.top - bounds.top));
+  map.setAttribute('width', String(mapBounds.width));
+  map.setAttribute('height', String(mapBounds.height));
+  map.querySelectorAll('foreignObject').forEach(el => el.remove());
+  const zoomGroup = map.querySelector('g[data-zoom-layer]');
+  scene.annotations.forEach(a => zoomGroup?.appendChild(annotationText(a, scene.zoomScale)));
+  root.appendChild(map);
+
+  scene.container.querySelectorAll<SVGSVGElement>('svg[data-export-layer]').forEach(layer => {
+    const rect = layer.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) return;
+    const copy = layer.cloneNode(true) as SVGSVGElement;
+    copy.removeAttribute('class');
+    copy.setAttribute('x', String(rect.left - bounds.left));
+    copy.setAttribute('y', String(rect.top - bounds.top));
+    root.appendChild(copy);
+  });
+
+  const fontCss = (await Promise.all(collectFontFamilies(root).map(getFontFaceCss))).filter(Boolean).join('\n');
+  if (fontCss) {
+    const style = document.createElementNS(SVG_NS, 'style');
+    style.textContent = fontCss;
+    root.insertBefore(style, root.firstChild);
+  }
+
+  return { markup: new XMLSerializer().serializeToString(root), width, height };
+}
+
+// -- Rasterising --
+
+interface RasterSize {
+  width: number;
+  height: number;
+}
+
+// The requested width, scaled down as far as needed to stay within the canvas limits
+function rasterSize(svg: ComposedSvg, pixelWidth: number): RasterSize {
+  const aspect = svg.height / svg.width;
+  const width = Math.floor(Math.min(pixelWidth, MAX_CANVAS_SIDE, MAX_CANVAS_SIDE / aspect, Math.sqrt(MAX_CANVAS_PIXELS / aspect)));
+  return { width: Math.max(1, width), height: Math.max(1, Math.round(width * aspect)) };
+}
+
+async function renderToCanvas(svg: ComposedSvg, size: RasterSize): Promise<HTMLCanvasElement> {
+  const image = new Image();
+  image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg.markup)}`;
+  await image.decode();
+  const canvas = document.createElement('canvas');
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error(`The browser could not create a ${size.width} × ${size.height} px canvas; try a smaller size`);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Canvas PNGs carry no resolution; a pHYs chunk after IHDR tells print tools the intended DPI
+function setPngDpi(png: Uint8Array, dpi: number): Uint8Array {
+  const ppm = Math.round(dpi / 0.0254);
+  const chunk = new Uint8Array(21);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, 9);
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+  view.setUint32(8, ppm);
+  view.setUint32(12, ppm);
+  chunk[16] = 1; // Unit: metre
+  view.setUint32(17, crc32(chunk.subarray(4, 17)));
+  const ihdrEnd = 8 + 25;
+  const out = new Uint8Array(png.length + chunk.length);
+  out.set(png.subarray(0, ihdrEnd));
+  out.set(chunk, ihdrEnd);
+  out.set(png.subarray(ihdrEnd), ihdrEnd + chunk.length);
+  return out;
+}
+
+async function deflate(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// A one-page PDF holding the composition as a lossless (Flate) RGB image, centred within the margins.
+// `dpi` is the resolution actually used, which is lower than asked for when the raster would be too large.
+async function buildPdf(svg: ComposedSvg, options: ExportOptions): Promise<{ blob: Blob; dpi: number }> {
+  const page = PAGE_SIZES[options.pageSize];
+  const [pageWidth, pageHeight] = options.orientation === 'landscape' ? [page.height, page.width] : [page.width, page.height];
+  const fit = Math.min((pageWidth - PAGE_MARGIN * 2) / svg.width, (pageHeight - PAGE_MARGIN * 2) / svg.height);
+  const drawWidth = svg.width * fit;
+  const drawHeight = svg.height * fit;
+
+  const size = rasterSize(svg, drawWidth / 72 * options.dpi);
+  const canvas = await renderToCanvas(svg, size);
+  let rgb: Uint8Array;
+  try {
+    const { data } = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height);
+    rgb = new Uint8Array(canvas.width * canvas.height * 3);
+    for (let i = 0, j = 0; i < data.length; i += 4, j += 3) {
+      rgb[j] = data[i];
+      rgb[j + 1] = data[i + 1];
+      rgb[j + 2] = data[i + 2];
+    }
+  } catch (error) {
+    console.error('Could not read back the PDF raster:', error);
+    throw new Error(`Not enough memory for a ${size.width} × ${size.height} px page image; try a lower DPI`);
+  }
+  const image = await deflate(rgb);
+
+  const x = (pageWidth - drawWidth) / 2;
+  const y = (pageHeight - drawHeight) / 2;
+  const content = `q ${drawWidth.toFixed(2)} 0 0 ${drawHeight.toFixed(2)} ${x.toFixed(2)} ${y.toFixed(2)} cm /Im0 Do Q`;
+
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const push = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+  const object = (body: string, stream?: Uint8Array) => {
+    offsets.push(length);
+    push(`${offsets.length} 0 obj\n${body}\n`);
+    if (stream) {
+      push('stream\n');
+      push(stream);
+      push('\nendstream\n');
+    }
+    push('endobj\n');
+  };
+
+  push('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+  object('<< /Type /Catalog /Pages 2 0 R >>');
+  object('<< /Type /Pages /Kids [3 0 R] /Count 1 >>');
+  object(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth.toFixed(2)} ${pageHeight.toFixed(2)}] /Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>`);
+  object(`<< /Type /XObject /Subtype /Image /Width ${canvas.width} /Height ${canvas.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /FlateDecode /Length ${image.length} >>`, image);
+  object(`<< /Length ${content.length} >>`, encoder.encode(content));
+
+  const xref = length;
+  push(`xref\n0 ${offsets.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach(offset => push(`${String(offset).padStart(10, '0')} 00000 n \n`));
+  push(`trailer\n<< /Size ${offsets.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+  return { blob: new Blob(parts, { type: 'application/pdf' }), dpi: size.width / drawWidth * 72 };
+}
+
+// -- Download --
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export const toFileName = (title: string) =>
+  title.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'map';
+
+// -- Interactive page --
+
+function collectTooltips(scene: ExportScene): Record<string, FeatureTooltip> {
+  const tooltips: Record<string, FeatureTooltip> = {};
+  scene.map.querySelectorAll('[data-id]').forEach(el => {
+    const id = el.getAttribute('data-id')!;
+    if (id in tooltips) return;
+    const tooltip = scene.describeFeature(id);
+    if (tooltip) tooltips[id] = tooltip;
+  });
+  return tooltips;
+}
+
+async function exportHtml(scene: ExportScene, svg: ComposedSvg, options: ExportOptions, baseName: string): Promise<string | null> {
+  const page = {
+    svg: svg.markup,
+    width: svg.width,
+    height: svg.height,
+    title: scene.title || 'Map',
+    backgroundColor: scene.backgroundColor,
+    tooltips: collectTooltips(scene),
+  };
+  const html = buildInteractiveHtml(page);
+  if (options.htmlOutput === 'file') {
+    downloadBlob(new Blob([html], { type: 'text/html' }), `${baseName}.html`);
+    return null;
+  }
+
+  const snippet = buildEmbedSnippet(html, options.htmlOutput, page);
+  try {
+    await navigator.clipboard.writeText(snippet);
+    return `${options.htmlOutput === 'iframe' ? 'iframe' : 'Script'} snippet copied (${Math.ceil(snippet.length / 1024)} KB)`;
+  } catch (error) {
+    // Clipboard access can be refused (permissions, an unfocused tab); the snippet is still useful as a file
+    console.warn('Could not copy the embed snippet:', error);
+    downloadBlob(new Blob([snippet], { type: 'text/plain' }), `${baseName}-embed.txt`);
+    return 'Clipboard unavailable, so the snippet was downloaded instead';
+  }
+}
+
+export async function exportMap(scene: ExportScene, options: ExportOptions, baseName: string): Promise<string | null> {
+  const svg = await composeSvg(scene);
+
+  if (options.format === 'html') {
+    return exportHtml(scene, svg, options, baseName);
+  } else if (options.format === 'svg') {
+    downloadBlob(new Blob([svg.markup], { type: 'image/svg+xml' }), `${baseName}.svg`);
+  } else if (options.format === 'png') {
+    const pixelWidth = clampPixelWidth(options.pixelWidth);
+    const size = rasterSize(svg, pixelWidth);
+    const canvas = await renderToCanvas(svg, size);
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error(`The browser could not encode a ${size.width} × ${size.height} px PNG; try a smaller width`);
+    const png = setPngDpi(new Uint8Array(await blob.arrayBuffer()), options.dpi);
+    downloadBlob(new Blob([png], { type: 'image/png' }), `${baseName}.png`);
+    if (size.width < pixelWidth) return `Exported at ${size.width} px wide, the largest this browser can draw`;
+  } else {
+    const pdf = await buildPdf(svg, options);
+    downloadBlob(pdf.blob, `${baseName}.pdf`);
+    if (pdf.dpi < options.dpi - 0.5) return `Exported at ${Math.floor(pdf.dpi)} DPI, the most this browser can draw on this page size`;
+  }
+  return null;
+}
@@ -0,0 +1,125 @@
+import * as XLSX from 'xlsx';
+import { MapDataState, MapTemplate, DatasetMetric } from '../types';
+import { ImportSource, ParsedTable, SheetData } from './dataImport';
+import { isCategorical } from './categories';
+import { normalizeTemplate } from './templatePacks';
+
+export type ImportFileKind = 'delimited' | 'excel' | 'json';
+
+export function getImportFileKind(fileName: string): ImportFileKind {
+  const ext = fileName.split('.').pop()?.toLowerCase();
+  if (ext === 'xlsx' || ext === 'xls') return 'excel';
+  if (ext === 'json') return 'json';
+  return 'delimited';
+}
+
+// -- Excel --
+
+export function parseWorkbook(buffer: ArrayBuffer): SheetData[] {
+  const workbook = XLSX.read(buffer, { type: 'array' });
+  return workbook.SheetNames.map(name => {
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[name], {
+      header: 1,
+      raw: false,
+      defval: '',
+      blankrows: false,
+    });
+    return { name, rows: rows.map(r => r.map(cell => (cell === null || cell === undefined ? '' : String(cell)))) };
+  }).filter(sheet => sheet.rows.length > 0);
+}
+
+// -- JSON --
+
+const isRecord = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const isMapDataState = (v: unknown): v is MapDataState =>
+  isRecord(v) && isRecord(v.values) && typeof v.metric === 'string';
+
+const isMapTemplate = (v: unknown): v is MapTemplate =>
+  isRecord(v) && isMapDataState(v.data) && isRecord(v.style);
+
+// Turns a MapDataState into a table so it can go through the same column mapping as CSV rows
+function tableFromMapData(data: MapDataState): { table: ParsedTable; valueMeta: ImportSource['valueMeta'] } {
+  const metrics = data.metrics && data.metrics.length > 0
+    ? data.metrics
+    : [{ name: data.metric, unit: data.unit, values: data.values, categories: data.categories, series: data.series }];
+  const valueMeta: ImportSource['valueMeta'] = {};
+  metrics.forEach(m => { valueMeta[m.name] = { metric: m.name, unit: m.unit, categorical: isCategorical(m) }; });
+  const cell = (m: DatasetMetric, id: string) =>
+    m.categories ? m.categories[id] ?? '' : m.values[id] !== undefined ? String(m.values[id]) : '';
+
+  // Time series come back as a long table with one row per region and period
+  const series = metrics.map(m => m.series || (m.name === data.metric ? data.series : undefined));
+  if (series.some(Boolean)) {
+    const rows: Record<string, string>[] = [];
+    const periods = Array.from(new Set(series.flatMap(s => s?.periods || []))).sort();
+    periods.forEach(period => {
+      const ids = new Set(series.flatMap(s => Object.keys(s?.frames[period] || {})));
+      ids.forEach(id => {
+        const row: Record<string, string> = { id, period };
+        metrics.forEach((m, i) => {
+          const v = series[i]?.frames[period]?.[id];
+          row[m.name] = v !== undefined ? String(v) : m.categories?.[id] ?? '';
+        });
+        rows.push(row);
+      });
+    });
+    return { table: { columns: ['id', 'period', ...metrics.map(m => m.name)], rows }, valueMeta };
+  }
+
+  const ids = Array.from(new Set(metrics.flatMap(m => Object.keys(m.categories || m.values))));
+  const columns = ['id', ...metrics.map(m => m.name)];
+  const rows = ids.map(id => {
+    const row: Record<string, string> = { id };
+    metrics.forEach(m => { row[m.name] = cell(m, id); });
+    return row;
+  });
+  return { table: { columns, rows }, valueMeta };
+}
+
+export function parseJsonImport(fileName: string, text: string): ImportSource {
+  const parsed: unknown = JSON.parse(text);
+
+  // Settings the file leaves out get their defaults, so a partial style or a missing title
+  // block can't reach the map
+  const template = isMapTemplate(parsed) ? normalizeTemplate(parsed) : null;
+  if (template) {
+    return { fileName, ...tableFromMapData(template.data), template };
+  }
+
+  if (isMapDataState(parsed)) {
+    return { fileName, ...tableFromMapData(parsed) };
+  }
+
+  // Array of records: [{ "country": "France", "gdp": 2.8 }, ...]
+  if (Array.isArray(parsed)) {
+    const records = parsed.filter(isRecord);
+    if (records.length === 0) throw new Error("JSON array contains no records");
+    const columns = Array.from(new Set(records.flatMap(r => Object.keys(r))));
+    const rows = records.map(r => {
+      const row: Record<string, string> = {};
+      columns.forEach(c => {
+        const v = r[c];
+        row[c] = v === null || v === undefined || typeof v === 'object' ? '' : String(v);
+      });
+      return row;
+    });
+    return { fileName, table: { columns, rows } };
+  }
+
+  // Code to value map: { "840": 12.5, "FRA": 3.1 }
+  if (isRecord(parsed)) {
+    const entries = Object.entries(parsed).filter(([, v]) => typeof v === 'number' || typeof v === 'string');
+    if (entries.length === 0) throw new Error("JSON object has no code/value pairs");
+    return {
+      fileName,
+      table: {
+        columns: ['code', 'value'],
+        rows: entries.map(([code, value]) => ({ code, value: String(value) })),
+      },
+    };
+  }
+
+  throw new Error("Unsupported JSON structure");
+}
@@ -0,0 +1,70 @@
+import * as topojson from 'topojson-client';
+
+export type GeometryResolution = '110m' | '50m';
+
+export interface GeoFeature {
+  type: 'Feature';
+  id: string; // ISO 3166-1 numeric code, or the join key of a custom boundary layer
+  properties: {
+    name: string;
+    [key: string]: any;
+  };
+  geometry: any;
+}
+
+export interface WorldGeometry {
+  features: GeoFeature[];
+  mesh: any;
+}
+
+// Zoom level at which the renderer swaps to the detailed topology
+export const DETAIL_ZOOM_THRESHOLD = 2.5;
+
+// The topologies ship with the app as separate chunks, so nothing is fetched from a CDN
+const TOPOLOGY_LOADERS: Record<GeometryResolution, () => Promise<any>> = {
+  '110m': () => import('world-atlas/countries-110m.json'),
+  '50m': () => import('world-atlas/countries-50m.json'),
+};
+
+const cache = new Map<GeometryResolution, Promise<WorldGeometry>>();
+
+export function resolutionForZoom(k: number): GeometryResolution {
+  return k >= DETAIL_ZOOM_THRESHOLD ? '50m' : '110m';
+}
+
+function buildWorldGeometry(topology: any): WorldGeometry {
+  const allFeatures = (topojson.feature(topology, topology.objects.countries) as any).features;
+
+  const seenIds = new Set<string>();
+  const features: GeoFeature[] = allFeatures
+    .filter((f: any) => f.id !== undefined && f.id !== null)
+    .map((f: any) => ({
+      ...f,
+      id: String(f.id).padStart(3, '0')
+    }))
+    .filter((f: GeoFeature) => {
+      if (seenIds.has(f.id)) return false;
+      seenIds.add(f.id);
+      return true;
+    })
+    // Antarctica swamps the southern edge of most projections
+    .filter((f: GeoFeature) => f.id !== '010');
+
+  const mesh = topojson.mesh(topology, topology.objects.countries);
+  return { features, mesh };
+}
+
+export function loadWorldGeometry(resolution: GeometryResolution): Promise<WorldGeometry> {
+  const cached = cache.get(resolution);
+  if (cached) return cached;
+
+  const pending = TOPOLOGY_LOADERS[resolution]()
+    .then(module => buildWorldGeometry(module.default || module))
+    .catch(error => {
+      // Drop failed loads so a retry starts fresh
+      cache.delete(resolution);
+      throw error;
+    });
+  cache.set(resolution, pending);
+  return pending;
+}
@@ -0,0 +1,190 @@
+import {
+  MapStyle, LabelSettings, TitleSettings, MapDataState,
+  DEFAULT_MAP_STYLE, DEFAULT_LABEL_SETTINGS, DEFAULT_TITLE_SETTINGS
+} from '../types';
+import { ProjectState } from './project';
+
+// Undo history for everything a user edits: style, data, text and annotations. Each step keeps
+// a whole document; unchanged parts are shared by reference, so a step costs little more than
+// the objects it replaced. The projection and zoom are navigation and stay out of it.
+
+export type MapDocument = Omit<ProjectState, 'view'>;
+
+export const DEFAULT_DOCUMENT: MapDocument = {
+  style: DEFAULT_MAP_STYLE,
+  data: null,
+  styleScope: 'map',
+  boundaries: null,
+  admin1: null,
+  labelSettings: DEFAULT_LABEL_SETTINGS,
+  titleSettings: DEFAULT_TITLE_SETTINGS,
+  annotations: [],
+};
+
+export interface HistoryEntry {
+  label: string;
+  document: MapDocument;
+  time: number;
+  key?: string; // Edits with the same key in quick succession merge into this step
+}
+
+export interface HistoryState {
+  entries: HistoryEntry[]; // Oldest first; entries[0] is the starting document
+  index: number; // The entry on screen; anything after it can be redone
+}
+
+export type HistoryAction =
+  | { type: 'commit'; change: (document: MapDocument) => MapDocument; time: number; label?: string; key?: string }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'jump'; index: number };
+
+// A slider drag or a burst of typing becomes one step as long as the pauses stay shorter than this
+export const COALESCE_MS = 1000;
+export const MAX_HISTORY = 100;
+
+export function createHistory(document: MapDocument): HistoryState {
+  return { entries: [{ label: 'Start', document, time: 0 }], index: 0 };
+}
+
+// -- Labels --
+
+const STYLE_LABELS: Record<keyof MapStyle, string> = {
+  palette: 'palette',
+  customColors: 'custom colours',
+  interpolation: 'colour blending',
+  reversePalette: 'palette direction',
+  classificationMethod: 'classification',
+  classesCount: 'class count',
+  manualBreaks: 'class breaks',
+  diverging: 'diverging midpoint',
+  renderMode: 'map type',
+  bivariate: 'bivariate settings',
+  categoryColors: 'category colours',
+  maxCategories: 'category limit',
+  showFill: 'fill visibility',
+  symbols: 'symbols',
+  legend: 'legend',
+  showBorders: 'border visibility',
+  borderColor: 'border colour',
+  borderWidth: 'border width',
+  backgroundColor: 'background',
+};
+
+const LABEL_SETTING_LABELS: Record<keyof LabelSettings, string> = {
+  showLabels: 'label visibility',
+  fontSize: 'label size',
+  fontFamily: 'label font',
+  color: 'label colour',
+  showOnHover: 'hover labels',
+  smartLabels: 'smart labels',
+};
+
+const TITLE_LABELS: Record<keyof TitleSettings, string> = {
+  title: 'title',
+  subtitle: 'subtitle',
+  position: 'title position',
+  alignment: 'title alignment',
+  color: 'title colour',
+  size: 'title size',
+  source: 'source',
+};
+
+function changedKeys<T extends object>(prev: T, next: T): (keyof T)[] {
+  const keys = new Set([...Object.keys(prev), ...Object.keys(next)] as (keyof T)[]);
+  return Array.from(keys).filter(key => prev[key] !== next[key]);
+}
+
+function describeKeys<T extends object>(verb: string, keys: (keyof T)[], names: Record<keyof T, string>): string {
+  const listed = keys.slice(0, 2).map(key => names[key]).join(' and ');
+  const text = keys.length > 2 ? `${listed} and more` : listed;
+  return `${verb} ${text}`;
+}
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+// Same values on screen; only a metric's style overrides differ
+const sameDataContent = (a: MapDataState, b: MapDataState) =>
+  a.metric === b.metric && a.values === b.values && a.categories === b.categories && a.series === b.series;
+
+function describeDataChange(prev: MapDataState | null, next: MapDataState | null): string {
+  if (!next) return 'Clear data';
+  if (!prev) return `Load ${next.metric}`;
+  if (prev.metric !== next.metric) return `Show ${next.metric}`;
+  return 'Edit data';
+}
+
+// Names a change after the part of the document it touched. The key groups repeated edits of
+// the same setting (a slider, a text field) so they coalesce into one step.
+export function describeChange(prev: MapDocument, next: MapDocument): { label: string; key?: string } {
+  if (prev.data !== next.data && !(prev.data && next.data && sameDataContent(prev.data, next.data))) {
+    return { label: describeDataChange(prev.data, next.data) };
+  }
+  if (prev.boundaries !== next.boundaries) {
+    return { label: next.boundaries ? `Load ${next.boundaries.name} boundaries` : 'Remove boundaries' };
+  }
+  if (prev.admin1 !== next.admin1) {
+    return { label: next.admin1 ? `Show ${next.admin1.name}` : 'Back to world' };
+  }
+  if (prev.annotations !== next.annotations) {
+    if (next.annotations.length > prev.annotations.length) return { label: 'Add annotation' };
+    if (next.annotations.length < prev.annotations.length) return { label: 'Delete annotation' };
+    const moved = next.annotations.find((a, i) => a.coordinates !== prev.annotations[i].coordinates);
+    if (moved) return { label: 'Move annotation', key: `annotation-move:${moved.id}` };
+    const edited = next.annotations.find((a, i) => a.text !== prev.annotations[i].text);
+    return { label: 'Edit annotation', key: edited && `annotation-text:${edited.id}` };
+  }
+  if (prev.titleSettings !== next.titleSettings) {
+    const keys = changedKeys(prev.titleSettings, next.titleSettings);
+    return { label: capitalize(describeKeys('edit', keys, TITLE_LABELS)), key: `title:${keys.join(',')}` };
+  }
+  if (prev.labelSettings !== next.labelSettings) {
+    const keys = changedKeys(prev.labelSettings, next.labelSettings);
+    return { label: capitalize(describeKeys('change', keys, LABEL_SETTING_LABELS)), key: `labels:${keys.join(',')}` };
+  }
+  if (prev.styleScope !== next.styleScope) {
+    return { label: next.styleScope === 'metric' ? 'Style this metric only' : 'Style the whole map' };
+  }
+  // Style edits land on the map style, a metric's overrides (inside the data) or both
+  const styleKeys = new Set(changedKeys(prev.style, next.style));
+  if (prev.data && next.data && prev.data !== next.data) {
+    const metricStyle = (data: MapDataState) => data.metrics?.find(m => m.name === data.metric)?.style || {};
+    changedKeys<MapStyle>(metricStyle(prev.data) as MapStyle, metricStyle(next.data) as MapStyle).forEach(key => styleKeys.add(key));
+  }
+  if (styleKeys.size > 0) {
+    const keys = Array.from(styleKeys);
+    return { label: capitalize(describeKeys('change', keys, STYLE_LABELS)), key: `style:${keys.join(',')}` };
+  }
+  return { label: 'Edit map' };
+}
+
+// -- Reducer --
+
+const sameDocument = (a: MapDocument, b: MapDocument) =>
+  (Object.keys(a) as (keyof MapDocument)[]).every(key => a[key] === b[key]);
+
+export function historyReducer(state: HistoryState, action: HistoryAction): HistoryState {
+  switch (action.type) {
+    case 'undo':
+      return state.index > 0 ? { ...state, index: state.index - 1 } : state;
+    case 'redo':
+      return state.index < state.entries.length - 1 ? { ...state, index: state.index + 1 } : state;
+    case 'jump':
+      return action.index >= 0 && action.index < state.entries.length ? { ...state, index: action.index } : state;
+    case 'commit': {
+      const current = state.entries[state.index];
+      const document = action.change(current.document);
+      if (sameDocument(current.document, document)) return state;
+
+      const { label, key } = action.label ? { label: action.label, key: action.key } : describeChange(current.document, document);
+      // A new edit always discards the redo branch
+      const kept = state.entries.slice(0, state.index + 1);
+      if (key && state.index > 0 && current.key === key && action.time - current.time < COALESCE_MS) {
+        kept[kept.length - 1] = { ...current, document, time: action.time };
+        return { entries: kept, index: kept.length - 1 };
+      }
+      const entries = [...kept, { label, document, time: action.time, key }].slice(-MAX_HISTORY);
+      return { entries, index: entries.length - 1 };
+    }
+  }
+}
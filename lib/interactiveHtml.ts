@@ -0,0 +1,260 @@
+import * as d3 from 'd3';
+import { DEFAULT_MAP_STYLE } from '../types';
+
+// A standalone page around a composed map: the drawing is inlined as SVG (fonts included) and a
+// small script restores zoom, pan and hover tooltips. Nothing is fetched, so it works offline.
+
+export interface TooltipRow {
+  label: string;
+  value: string;
+  color?: string; // Swatch beside the value
+  note?: string; // Class range or bivariate level, shown under the value
+  secondary?: boolean; // Other metrics, listed smaller below the main one
+}
+
+export interface FeatureTooltip {
+  title: string;
+  rows: TooltipRow[];
+}
+
+export type EmbedKind = 'iframe' | 'script';
+
+export interface InteractivePage {
+  svg: string;
+  width: number;
+  height: number;
+  title: string;
+  backgroundColor: string;
+  tooltips: Record<string, FeatureTooltip>;
+}
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 8; // Same range as the live preview
+
+// Safe inside a <script> element: no "</script>" or "<!--" can survive
+const toScriptJson = (value: unknown) => JSON.stringify(value).replace(/</g, '\\u003c');
+
+// Styles arrive from files and links anyone can write, so a colour is re-serialised by d3 rather
+// than trusted to be just a colour inside <style>
+const safeColor = (value: string) => d3.color(value)?.formatRgb() ?? DEFAULT_MAP_STYLE.backgroundColor;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const PAGE_STYLE = `
+html, body { margin: 0; height: 100%; overflow: hidden; }
+body { font-family: Inter, system-ui, sans-serif; }
+body > svg { display: block; width: 100vw; height: 100vh; touch-action: none; cursor: grab; }
+body > svg.dragging { cursor: grabbing; }
+g[data-zoom-layer] text { pointer-events: none; user-select: none; }
+g[data-zoom-layer] [data-id] { cursor: pointer; }
+g[data-zoom-layer] [data-id]:hover { stroke: #fff; stroke-width: 1.5; }
+.tooltip { position: fixed; z-index: 10; pointer-events: none; transform: translate(-50%, calc(-100% - 14px)); min-width: 140px; max-width: 260px; padding: 10px 12px; border-radius: 6px; background: #fff; color: #1e293b; box-shadow: 0 20px 40px rgba(0,0,0,0.35); font-size: 12px; }
+.tooltip[hidden] { display: none; }
+.tooltip .title { font-weight: 700; font-size: 14px; padding-bottom: 4px; margin-bottom: 4px; border-bottom: 1px solid #f1f5f9; }
+.tooltip .row { display: flex; justify-content: space-between; align-items: center; gap: 12px; }
+.tooltip .row .label { color: #64748b; }
+.tooltip .row .value { display: flex; align-items: center; gap: 6px; font-weight: 700; font-family: ui-monospace, monospace; color: #0ea5e9; }
+.tooltip .swatch { width: 8px; height: 8px; border-radius: 2px; }
+.tooltip .note { font-size: 10px; color: #94a3b8; margin-top: 2px; }
+.tooltip .secondary { margin-top: 6px; padding-top: 4px; border-top: 1px solid #f1f5f9; font-size: 10px; }
+.tooltip .secondary .value { font-weight: 400; color: #475569; }
+.tooltip .empty { font-size: 10px; font-style: italic; color: #94a3b8; }
+.controls { position: fixed; right: 12px; bottom: 12px; display: flex; flex-direction: column; border-radius: 8px; overflow: hidden; background: #fff; box-shadow: 0 10px 25px rgba(0,0,0,0.3); }
+.controls button { width: 32px; height: 32px; border: 0; border-top: 1px solid #f1f5f9; background: #fff; color: #475569; font: 700 16px/1 system-ui, sans-serif; cursor: pointer; }
+.controls button:first-child { border-top: 0; }
+.controls button:hover { background: #f8fafc; }
+`;
+
+// Runs in the exported page. Plain ES5 so it works in any browser that can show the SVG.
+const PAGE_SCRIPT = `
+(function () {
+  var MIN_ZOOM = ${MIN_ZOOM}, MAX_ZOOM = ${MAX_ZOOM};
+  var tooltips = JSON.parse(document.getElementById('map-tooltips').textContent);
+  var root = document.querySelector('body > svg');
+  var layer = root.querySelector('g[data-zoom-layer]');
+  var tip = document.querySelector('.tooltip');
+  if (!layer) return;
+  var frame = layer.ownerSVGElement;
+
+  var match = /translate\\(([-\\d.e]+),\\s*([-\\d.e]+)\\)\\s*scale\\(([-\\d.e]+)\\)/.exec(layer.getAttribute('transform') || '');
+  var start = match ? { x: +match[1], y: +match[2], k: +match[3] } : { x: 0, y: 0, k: 1 };
+  var t = { x: start.x, y: start.y, k: start.k };
+
+  // Labels and symbols keep their on-screen size while the map scales, as in the editor
+  var texts = [].slice.call(layer.querySelectorAll('text')).map(function (el) {
+    var size = parseFloat(el.style.fontSize || el.getAttribute('font-size')) || 12;
+    var stroke = parseFloat(el.getAttribute('stroke-width'));
+    var area = parseFloat(el.getAttribute('data-area'));
+    return { el: el, size: size * start.k, stroke: isNaN(stroke) ? null : stroke * start.k, area: isNaN(area) ? null : area };
+  });
+  var circles = [].slice.call(layer.querySelectorAll('circle')).map(function (el) {
+    return { el: el, r: parseFloat(el.getAttribute('r')) * start.k };
+  });
+
+  function apply() {
+    layer.setAttribute('transform', 'translate(' + t.x + ',' + t.y + ') scale(' + t.k + ')');
+    texts.forEach(function (item) {
+      item.el.style.fontSize = item.size / t.k + 'px';
+      if (item.stroke !== null) item.el.setAttribute('stroke-width', item.stroke / t.k);
+      if (item.area !== null) item.el.style.opacity = item.area * t.k > 600 || t.k > 4 ? 1 : 0;
+    });
+    circles.forEach(function (item) { item.el.setAttribute('r', item.r / t.k); });
+  }
+
+  function toMap(event) {
+    var point = frame.createSVGPoint();
+    point.x = event.clientX;
+    point.y = event.clientY;
+    return point.matrixTransform(frame.getScreenCTM().inverse());
+  }
+
+  function zoomAt(point, factor) {
+    var k = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, t.k * factor));
+    t.x = point.x - (point.x - t.x) * k / t.k;
+    t.y = point.y - (point.y - t.y) * k / t.k;
+    t.k = k;
+    apply();
+  }
+
+  function zoomCentre(factor) {
+    var box = frame.getBoundingClientRect();
+    zoomAt(toMap({ clientX: box.left + box.width / 2, clientY: box.top + box.height / 2 }), factor);
+  }
+
+  root.addEventListener('wheel', function (event) {
+    event.preventDefault();
+    zoomAt(toMap(event), Math.pow(2, -event.deltaY * (event.deltaMode ? 0.05 : 0.002)));
+  }, { passive: false });
+
+  root.addEventListener('dblclick', function (event) { zoomAt(toMap(event), 2); });
+
+  var drag = null, current = null;
+  root.addEventListener('pointerdown', function (event) {
+    drag = { from: toMap(event), x: t.x, y: t.y, id: event.pointerId };
+    root.setPointerCapture(event.pointerId);
+    root.classList.add('dragging');
+    current = null;
+    tip.hidden = true;
+  });
+  root.addEventListener('pointermove', function (event) {
+    if (!drag || drag.id !== event.pointerId) return;
+    var point = toMap(event);
+    t.x = drag.x + point.x - drag.from.x;
+    t.y = drag.y + point.y - drag.from.y;
+    apply();
+  });
+  function endDrag() { drag = null; root.classList.remove('dragging'); }
+  root.addEventListener('pointerup', endDrag);
+  root.addEventListener('pointercancel', endDrag);
+
+  document.querySelector('[data-zoom="in"]').addEventListener('click', function () { zoomCentre(1.4); });
+  document.querySelector('[data-zoom="out"]').addEventListener('click', function () { zoomCentre(0.7); });
+  document.querySelector('[data-zoom="reset"]').addEventListener('click', function () {
+    t = { x: start.x, y: start.y, k: start.k };
+    apply();
+  });
+
+  function element(tag, className, text) {
+    var el = document.createElement(tag);
+    if (className) el.className = className;
+    if (text !== undefined) el.textContent = text;
+    return el;
+  }
+
+  function row(data) {
+    var wrapper = element('div');
+    var line = element('div', 'row');
+    line.appendChild(element('span', 'label', data.label));
+    var value = element('span', 'value');
+    if (data.color) {
+      var swatch = element('span', 'swatch');
+      swatch.style.background = data.color;
+      value.appendChild(swatch);
+    }
+    value.appendChild(document.createTextNode(data.value));
+    line.appendChild(value);
+    wrapper.appendChild(line);
+    if (data.note) wrapper.appendChild(element('div', 'note', data.note));
+    return wrapper;
+  }
+
+  function show(id) {
+    var data = tooltips[id];
+    if (!data) return false;
+    tip.textContent = '';
+    tip.appendChild(element('div', 'title', data.title));
+    var main = data.rows.filter(function (r) { return !r.secondary; });
+    var others = data.rows.filter(function (r) { return r.secondary; });
+    if (main.length) main.forEach(function (r) { tip.appendChild(row(r)); });
+    else tip.appendChild(element('div', 'empty', 'No data available'));
+    if (others.length) {
+      var list = element('div', 'secondary');
+      others.forEach(function (r) { list.appendChild(row(r)); });
+      tip.appendChild(list);
+    }
+    return true;
+  }
+
+  layer.addEventListener('pointermove', function (event) {
+    if (drag) return;
+    var target = event.target.closest ? event.target.closest('[data-id]') : null;
+    var id = target && target.getAttribute('data-id');
+    if (id !== current) {
+      current = id;
+      tip.hidden = !id || !show(id);
+    }
+    tip.style.left = event.clientX + 'px';
+    tip.style.top = event.clientY + 'px';
+  });
+  layer.addEventListener('pointerleave', function () {
+    current = null;
+    tip.hidden = true;
+  });
+
+  apply();
+})();
+`;
+
+export function buildInteractiveHtml(page: InteractivePage): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(page.title)}</title>
+<style>${PAGE_STYLE}html, body { background: ${safeColor(page.backgroundColor)}; }</style>
+</head>
+<body>
+${page.svg}
+<div class="tooltip" hidden></div>
+<div class="controls">
+<button type="button" data-zoom="in" title="Zoom in">+</button>
+<button type="button" data-zoom="out" title="Zoom out">&minus;</button>
+<button type="button" data-zoom="reset" title="Back to the exported view">&#8634;</button>
+</div>
+<script type="application/json" id="map-tooltips">${toScriptJson(page.tooltips)}</script>
+<script>${PAGE_SCRIPT}</script>
+</body>
+</html>
+`;
+}
+
+// Both snippets carry the whole page inline (iframe srcdoc), so there is nothing to host
+export function buildEmbedSnippet(html: string, kind: EmbedKind, page: Pick<InteractivePage, 'title' | 'width' | 'height'>): string {
+  const size = `width:100%;max-width:${page.width}px;aspect-ratio:${page.width} / ${page.height};border:0`;
+  if (kind === 'iframe') {
+    return `<iframe title="${escapeHtml(page.title)}" style="${size}" srcdoc="${escapeHtml(html)}"></iframe>`;
+  }
+  return `<div style="${size}"></div>
+<script>
+(function () {
+  var host = document.currentScript.previousElementSibling;
+  var frame = document.createElement('iframe');
+  frame.title = ${toScriptJson(page.title)};
+  frame.style.cssText = 'width:100%;height:100%;border:0';
+  frame.srcdoc = ${toScriptJson(html)};
+  host.appendChild(frame);
+})();
+</script>`;
+}
@@ -0,0 +1,73 @@
+import { LegendSettings, LegendPosition, MapDataState } from '../types';
+import { Classification, NO_DATA_COLOR, getClassRangeLabel, getMidpointPosition } from './classification';
+import { CategoricalClassification } from './categories';
+
+export const DEFAULT_LEGEND: LegendSettings = {
+  visible: true,
+  title: '',
+  kind: 'stepped',
+  orientation: 'horizontal',
+  position: 'bottom-center',
+  showNoData: true,
+};
+
+export const LEGEND_POSITIONS: { value: LegendPosition; label: string }[] = [
+  { value: 'bottom-center', label: 'Bottom center' },
+  { value: 'bottom-left', label: 'Bottom left' },
+  { value: 'bottom-right', label: 'Bottom right' },
+  { value: 'top-left', label: 'Top left' },
+  { value: 'top-right', label: 'Top right' },
+];
+
+export interface LegendEntry {
+  color: string;
+  label: string;
+  detail?: string; // Hover text, e.g. the categories folded into "Other"
+}
+
+// Everything the legend draws, independent of how it is laid out
+export interface LegendModel {
+  title: string;
+  unit: string;
+  entries: LegendEntry[];
+  breaks?: number[]; // Numeric scales only: [min, b1, ..., max]
+  midpoint?: number;
+  midpointPosition?: number; // Along a stepped bar of equal-width classes, from 0 to 1
+  noData: LegendEntry | null;
+}
+
+export function buildLegendModel(
+  settings: LegendSettings,
+  mapData: MapDataState,
+  classification: Classification | null,
+  categorical: CategoricalClassification | null
+): LegendModel | null {
+  const noData = settings.showNoData ? { color: NO_DATA_COLOR, label: 'No data' } : null;
+  const title = settings.title.trim() || mapData.metric;
+
+  if (categorical) {
+    return {
+      title,
+      unit: '',
+      entries: categorical.classes.map(c => ({
+        color: c.color,
+        label: c.label,
+        detail: c.members.length > 1 ? c.members.join(', ') : undefined,
+      })),
+      noData,
+    };
+  }
+  if (!classification) return null;
+  return {
+    title,
+    unit: mapData.unit,
+    entries: classification.colors.map((color, i) => ({ color, label: getClassRangeLabel(classification, i) })),
+    breaks: classification.breaks,
+    midpoint: classification.midpoint,
+    midpointPosition: getMidpointPosition(classification) ?? undefined,
+    noData,
+  };
+}
+
+// Rough width of bold UI text; the legend is SVG, so it has to lay itself out without the DOM
+export const estimateTextWidth = (text: string, fontSize: number) => text.length * fontSize * 0.6;
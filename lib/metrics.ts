@@ -0,0 +1,70 @@
+import { DatasetMetric, MapDataState, MapStyle, MetricStyle } from '../types';
+
+export const METRIC_STYLE_KEYS: (keyof MetricStyle)[] = ['palette', 'customColors', 'interpolation', 'reversePalette', 'classificationMethod', 'classesCount', 'manualBreaks', 'diverging', 'categoryColors', 'maxCategories'];
+
+// Single-metric datasets (AI results, presets) carry their one metric in the top-level fields
+export function getMetrics(data: MapDataState): DatasetMetric[] {
+  if (data.metrics && data.metrics.length > 0) return data.metrics;
+  return [{ name: data.metric, unit: data.unit, values: data.values, categories: data.categories, series: data.series }];
+}
+
+export function getActiveMetric(data: MapDataState): DatasetMetric {
+  const metrics = getMetrics(data);
+  return metrics.find(m => m.name === data.metric) || metrics[0];
+}
+
+// Values of one metric for a period; metrics without a series have a single frame
+export function getMetricFrame(metric: DatasetMetric, period: string | null): Record<string, number> | undefined {
+  if (!metric.series || !period) return metric.values;
+  return metric.series.frames[period];
+}
+
+function mirror(metric: DatasetMetric, metrics: DatasetMetric[]): MapDataState {
+  return {
+    values: metric.values,
+    metric: metric.name,
+    unit: metric.unit,
+    categories: metric.categories,
+    series: metric.series,
+    metrics: metrics.length > 1 || metrics.some(m => m.style) ? metrics : undefined,
+  };
+}
+
+// Writes edits made to the top-level fields back into the metric list
+export function normalizeDataset(data: MapDataState): MapDataState {
+  const metrics = getMetrics(data).map(m => m.name === data.metric
+    ? { ...m, values: data.values, unit: data.unit, categories: data.categories, series: data.series }
+    : m);
+  return mirror(metrics.find(m => m.name === data.metric) || metrics[0], metrics);
+}
+
+export function selectMetric(data: MapDataState, name: string): MapDataState {
+  const metrics = normalizeDataset(data).metrics || getMetrics(data);
+  const target = metrics.find(m => m.name === name);
+  return target ? mirror(target, metrics) : data;
+}
+
+// Adds the incoming metrics to an existing dataset; a metric with the same name is replaced
+export function addMetrics(current: MapDataState, incoming: MapDataState): MapDataState {
+  const added = getMetrics(incoming);
+  const names = new Set(added.map(m => m.name));
+  const kept = getMetrics(normalizeDataset(current)).filter(m => !names.has(m.name));
+  const metrics = [...kept, ...added];
+  return mirror(metrics.find(m => m.name === incoming.metric) || added[0], metrics);
+}
+
+export function setMetricStyle(data: MapDataState, name: string, style: MetricStyle | undefined): MapDataState {
+  const metrics = getMetrics(normalizeDataset(data)).map(m => m.name === name ? { ...m, style } : m);
+  return { ...data, metrics };
+}
+
+export function resolveMetricStyle(style: MapStyle, metric: DatasetMetric | null): MapStyle {
+  return metric?.style ? { ...style, ...metric.style } : style;
+}
+
+export function pickMetricStyle(style: MapStyle): MetricStyle {
+  const picked: MetricStyle = {};
+  const copy = <K extends keyof MetricStyle>(key: K) => { picked[key] = style[key]; };
+  METRIC_STYLE_KEYS.forEach(key => { if (style[key] !== undefined) copy(key); });
+  return picked;
+}
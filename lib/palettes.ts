@@ -0,0 +1,87 @@
+import * as d3 from 'd3';
+import { PaletteType, InterpolationSpace, PALETTES } from '../types';
+import { checkClassSeparation, adjacentPairs } from './accessibility';
+
+export type PaletteFamily = 'Built-in' | 'ColorBrewer' | 'Viridis';
+
+export interface PaletteInfo {
+  label: string;
+  family: PaletteFamily;
+  colorblindSafe: boolean; // Distinguishable with the common forms of colour vision deficiency
+  printFriendly: boolean; // Survives greyscale printing and photocopying
+}
+
+// The hand-made palettes have no published ratings, so they are measured with the same class
+// separation check the accessibility panel runs
+function measureFlags(colors: string[]): Pick<PaletteInfo, 'colorblindSafe' | 'printFriendly'> {
+  const checks = checkClassSeparation(colors, adjacentPairs(colors.length));
+  const passes = (simulation: string) => checks.find(c => c.simulation === simulation)!.collapsed.length === 0;
+  return {
+    colorblindSafe: passes('protanopia') && passes('deuteranopia') && passes('tritanopia'),
+    printFriendly: passes('grayscale'),
+  };
+}
+
+// Flags follow colorbrewer2.org for the 5-class schemes; the viridis family is designed to pass both
+export const PALETTE_INFO: Record<Exclude<PaletteType, 'custom'>, PaletteInfo> = {
+  ocean: { label: 'Ocean', family: 'Built-in', ...measureFlags(PALETTES.ocean) },
+  sunset: { label: 'Sunset', family: 'Built-in', ...measureFlags(PALETTES.sunset) },
+  forest: { label: 'Forest', family: 'Built-in', ...measureFlags(PALETTES.forest) },
+  monochrome: { label: 'Monochrome', family: 'Built-in', ...measureFlags(PALETTES.monochrome) },
+  blues: { label: 'Blues', family: 'ColorBrewer', colorblindSafe: true, printFriendly: true },
+  greens: { label: 'Greens', family: 'ColorBrewer', colorblindSafe: true, printFriendly: true },
+  oranges: { label: 'Oranges', family: 'ColorBrewer', colorblindSafe: true, printFriendly: true },
+  purples: { label: 'Purples', family: 'ColorBrewer', colorblindSafe: true, printFriendly: false },
+  reds: { label: 'Reds', family: 'ColorBrewer', colorblindSafe: true, printFriendly: true },
+  greys: { label: 'Greys', family: 'ColorBrewer', colorblindSafe: true, printFriendly: true },
+  ylGnBu: { label: 'Yellow-Green-Blue', family: 'ColorBrewer', colorblindSafe: true, printFriendly: true },
+  ylOrRd: { label: 'Yellow-Orange-Red', family: 'ColorBrewer', colorblindSafe: true, printFriendly: true },
+  buPu: { label: 'Blue-Purple', family: 'ColorBrewer', colorblindSafe: true, printFriendly: true },
+  rdPu: { label: 'Red-Purple', family: 'ColorBrewer', colorblindSafe: true, printFriendly: true },
+  redBlue: { label: 'Red-Blue', family: 'ColorBrewer', colorblindSafe: true, printFriendly: false },
+  brownTeal: { label: 'Brown-Teal', family: 'ColorBrewer', colorblindSafe: true, printFriendly: true },
+  purpleGreen: { label: 'Purple-Green', family: 'ColorBrewer', colorblindSafe: true, printFriendly: false },
+  piYG: { label: 'Pink-Green', family: 'ColorBrewer', colorblindSafe: true, printFriendly: false },
+  rdYlBu: { label: 'Red-Yellow-Blue', family: 'ColorBrewer', colorblindSafe: true, printFriendly: false },
+  spectral: { label: 'Spectral', family: 'ColorBrewer', colorblindSafe: false, printFriendly: false },
+  viridis: { label: 'Viridis', family: 'Viridis', colorblindSafe: true, printFriendly: true },
+  magma: { label: 'Magma', family: 'Viridis', colorblindSafe: true, printFriendly: true },
+  inferno: { label: 'Inferno', family: 'Viridis', colorblindSafe: true, printFriendly: true },
+  plasma: { label: 'Plasma', family: 'Viridis', colorblindSafe: true, printFriendly: true },
+  cividis: { label: 'Cividis', family: 'Viridis', colorblindSafe: true, printFriendly: true },
+};
+
+export const NAMED_PALETTES = Object.keys(PALETTE_INFO) as Exclude<PaletteType, 'custom'>[];
+
+export const INTERPOLATION_SPACES: { value: InterpolationSpace; label: string }[] = [
+  { value: 'rgb', label: 'RGB' },
+  { value: 'lab', label: 'Lab' },
+  { value: 'hcl', label: 'HCL' },
+];
+
+// RGB keeps the original smooth B-spline ramp; Lab and HCL pass straight through each stop
+export function getInterpolator(colors: string[], space: InterpolationSpace = 'rgb'): (t: number) => string {
+  if (space === 'lab') return d3.piecewise(d3.interpolateLab, colors);
+  if (space === 'hcl') return d3.piecewise(d3.interpolateHcl, colors);
+  return d3.interpolateRgbBasis(colors);
+}
+
+// -- User library --
+
+export interface SavedPalette {
+  id: string;
+  name: string;
+  colors: string[];
+  interpolation: InterpolationSpace;
+}
+
+const LIBRARY_KEY = 'mapviz_palettes';
+
+export function loadPaletteLibrary(): SavedPalette[] {
+  const saved = localStorage.getItem(LIBRARY_KEY);
+  return saved ? JSON.parse(saved) : [];
+}
+
+export function savePaletteLibrary(palettes: SavedPalette[]) {
+  localStorage.setItem(LIBRARY_KEY, JSON.stringify(palettes));
+}
@@ -0,0 +1,245 @@
+import {
+  MapStyle, MapDataState, LabelSettings, TitleSettings, Annotation, ProjectionType,
+  DEFAULT_LABEL_SETTINGS
+} from '../types';
+import { BoundaryLayer } from './boundaries';
+import { Admin1Layer } from './admin1';
+import { normalizeDataset } from './metrics';
+import { downloadBlob } from './exportMap';
+import { sanitizeStyle, sanitizeDataset, sanitizeLabelSettings, sanitizeTitleSettings, sanitizeBoundaryLayer } from './sanitize';
+
+// A project file is the whole workspace as JSON: everything App holds plus the preview's
+// projection, zoom and period. Files carry a schema version and are migrated forward on open,
+// so a file saved by an older build always opens in a newer one.
+
+export const PROJECT_FORMAT = 'mapviz-project';
+export const PROJECT_VERSION = 2;
+export const PROJECT_EXTENSION = '.mapviz';
+
+export interface MapView {
+  projection: ProjectionType;
+  transform: { k: number; x: number; y: number }; // Zoom and pan in preview pixels
+  period: string | null; // Time series frame on screen
+}
+
+export const DEFAULT_VIEW: MapView = { projection: 'mercator', transform: { k: 1, x: 0, y: 0 }, period: null };
+
+// The preview owns its view; App reads and restores it through this handle
+export interface MapViewControl {
+  getView: () => MapView;
+  setView: (view: MapView) => void;
+  // Anchors version 1 notes, drawn in the preview at its current size with the file's projection
+  anchorAnnotations: (notes: ScreenAnnotation[], project: Pick<ProjectState, 'view' | 'boundaries' | 'titleSettings'>) => Annotation[];
+}
+
+export interface ProjectState {
+  style: MapStyle;
+  data: MapDataState | null;
+  styleScope: 'map' | 'metric';
+  boundaries: BoundaryLayer | null;
+  admin1: Admin1Layer | null;
+  labelSettings: LabelSettings;
+  titleSettings: TitleSettings;
+  annotations: Annotation[];
+  view: MapView;
+}
+
+// Version 1 placed notes in the preview's drawing, which only means something for the projection
+// and window size it was saved with
+export interface ScreenAnnotation {
+  id: string;
+  x: number;
+  y: number;
+  text: string;
+}
+
+export interface ProjectFile extends ProjectState {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  savedAt: string; // ISO timestamp
+  // Notes still to be anchored; only the preview can rebuild the projection they were drawn in
+  screenAnnotations?: ScreenAnnotation[];
+}
+
+// -- Versions --
+
+const isRecord = (v: unknown): v is Record<string, any> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+// Each entry upgrades a file from version n to n + 1. Never edit one once it has shipped;
+// bump PROJECT_VERSION and add the next step instead.
+const MIGRATIONS: Record<number, (file: Record<string, any>) => Record<string, any>> = {
+  // Version 0 is a bare MapTemplate (saved templates, template JSON): style, data and title only
+  0: template => ({
+    format: PROJECT_FORMAT,
+    version: 1,
+    savedAt: '',
+    style: template.style,
+    data: template.data,
+    styleScope: 'map',
+    boundaries: null,
+    admin1: null,
+    labelSettings: DEFAULT_LABEL_SETTINGS,
+    titleSettings: template.titleSettings,
+    annotations: [],
+    view: DEFAULT_VIEW,
+  }),
+  // Annotations move from screen positions to longitude/latitude
+  1: file => ({
+    ...file,
+    version: 2,
+    annotations: [],
+    screenAnnotations: Array.isArray(file.annotations) ? file.annotations : [],
+  }),
+};
+
+const isAnchored = (a: unknown): a is Annotation =>
+  isRecord(a) && typeof a.id === 'string' && typeof a.text === 'string' && Array.isArray(a.coordinates) && a.coordinates.length === 2 && a.coordinates.every(Number.isFinite);
+
+const isScreenAnnotation = (a: unknown): a is ScreenAnnotation =>
+  isRecord(a) && typeof a.id === 'string' && typeof a.text === 'string' && Number.isFinite(a.x) && Number.isFinite(a.y);
+
+function sanitizeView(raw: unknown): MapView {
+  const view = isRecord(raw) ? raw : {};
+  const t = isRecord(view.transform) ? view.transform : {};
+  const finite = (v: unknown, fallback: number) => (typeof v === 'number' && Number.isFinite(v) ? v : fallback);
+  return {
+    projection: (['mercator', 'orthographic', 'equalEarth'] as const).includes(view.projection) ? view.projection : DEFAULT_VIEW.projection,
+    // Same zoom range as the preview
+    transform: { k: Math.min(8, Math.max(1, finite(t.k, 1))), x: finite(t.x, 0), y: finite(t.y, 0) },
+    period: typeof view.period === 'string' ? view.period : null,
+  };
+}
+
+function getFileVersion(file: Record<string, any>): number {
+  if (file.format === PROJECT_FORMAT) {
+    if (typeof file.version !== 'number') throw new Error('The project file has no version');
+    return file.version;
+  }
+  if (isRecord(file.style) && isRecord(file.data)) return 0;
+  throw new Error('This is not a MapViz project file');
+}
+
+export function parseProject(text: string): ProjectFile {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The project file is not valid JSON');
+  }
+  if (!isRecord(parsed)) throw new Error('This is not a MapViz project file');
+
+  let file = parsed;
+  let version = getFileVersion(file);
+  if (version > PROJECT_VERSION) {
+    throw new Error(`This project was saved by a newer version of MapViz (format ${version})`);
+  }
+  while (version < PROJECT_VERSION) {
+    file = MIGRATIONS[version](file);
+    version += 1;
+  }
+
+  const admin1 = typeof file.admin1?.countryId === 'string' ? sanitizeBoundaryLayer(file.admin1) : null;
+
+  // Settings added since the file was written fall back to their defaults. Files and links can
+  // come from anyone, so settings are also held to the editor's ranges, boundary layers are rebuilt
+  // as if uploaded, and malformed annotations are dropped.
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: typeof file.savedAt === 'string' ? file.savedAt : '',
+    style: sanitizeStyle(file.style),
+    data: sanitizeDataset(file.data),
+    styleScope: file.styleScope === 'metric' ? 'metric' : 'map',
+    boundaries: sanitizeBoundaryLayer(file.boundaries),
+    admin1: admin1 && { ...admin1, countryId: file.admin1.countryId },
+    labelSettings: sanitizeLabelSettings(file.labelSettings),
+    titleSettings: sanitizeTitleSettings(file.titleSettings),
+    annotations: Array.isArray(file.annotations) ? file.annotations.filter(isAnchored) : [],
+    view: sanitizeView(file.view),
+    ...(Array.isArray(file.screenAnnotations) && file.screenAnnotations.length > 0
+      ? { screenAnnotations: file.screenAnnotations.filter(isScreenAnnotation) }
+      : {}),
+  };
+}
+
+export function serializeProject(state: ProjectState): string {
+  const file: ProjectFile = {
+    ...state,
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: new Date().toISOString(),
+    // Keep every metric (and its style overrides), not just the one on screen
+    data: state.data && normalizeDataset(state.data),
+  };
+  return JSON.stringify(file);
+}
+
+// -- Disk --
+
+// The File System Access API lets Save write back to the file that was opened. Browsers
+// without it fall back to a download and a plain file input.
+interface FilePickerWindow {
+  showSaveFilePicker?: (options: object) => Promise<FileSystemFileHandle>;
+  showOpenFilePicker?: (options: object) => Promise<FileSystemFileHandle[]>;
+}
+
+const PICKER_TYPES = [{ description: 'MapViz project', accept: { 'application/json': [PROJECT_EXTENSION] } }];
+
+export interface ProjectFileRef {
+  name: string;
+  handle: FileSystemFileHandle | null; // Null when the browser can only download
+}
+
+export const isProjectFileName = (name: string) => name.toLowerCase().endsWith(PROJECT_EXTENSION);
+
+const isAbort = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+// Writes to the given handle, or asks where to save. Resolves to null if the user cancels.
+export async function saveProjectFile(contents: string, target: ProjectFileRef | null, suggestedName: string): Promise<ProjectFileRef | null> {
+  const picker = window as unknown as FilePickerWindow;
+  let handle = target?.handle ?? null;
+  if (!handle && picker.showSaveFilePicker) {
+    try {
+      handle = await picker.showSaveFilePicker({ suggestedName: `${suggestedName}${PROJECT_EXTENSION}`, types: PICKER_TYPES });
+    } catch (error) {
+      if (isAbort(error)) return null;
+      throw error;
+    }
+  }
+
+  if (!handle) {
+    const name = target?.name ?? `${suggestedName}${PROJECT_EXTENSION}`;
+    downloadBlob(new Blob([contents], { type: 'application/json' }), name);
+    return { name, handle: null };
+  }
+  const writable = await handle.createWritable();
+  await writable.write(contents);
+  await writable.close();
+  return { name: handle.name, handle };
+}
+
+export async function pickProjectFile(): Promise<{ file: File; ref: ProjectFileRef } | null> {
+  const picker = window as unknown as FilePickerWindow;
+  if (picker.showOpenFilePicker) {
+    try {
+      const [handle] = await picker.showOpenFilePicker({ types: PICKER_TYPES });
+      return { file: await handle.getFile(), ref: { name: handle.name, handle } };
+    } catch (error) {
+      if (isAbort(error)) return null;
+      throw error;
+    }
+  }
+
+  return new Promise(resolve => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = `${PROJECT_EXTENSION},application/json`;
+    input.onchange = () => {
+      const file = input.files?.[0];
+      resolve(file ? { file, ref: { name: file.name, handle: null } } : null);
+    };
+    input.addEventListener('cancel', () => resolve(null));
+    input.click();
+  });
+}
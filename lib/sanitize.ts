@@ -0,0 +1,213 @@
+import * as d3 from 'd3';
+import {
+  MapStyle, MetricStyle, LabelSettings, TitleSettings, MapDataState, DatasetMetric, TimeSeries,
+  PALETTES, DEFAULT_MAP_STYLE, DEFAULT_LABEL_SETTINGS, DEFAULT_TITLE_SETTINGS
+} from '../types';
+import { BIVARIATE_PALETTES } from './bivariate';
+import { BoundaryLayer, buildBoundaryLayer } from './boundaries';
+import { MAX_CATEGORIES } from './categories';
+import { DEFAULT_LEGEND, LEGEND_POSITIONS } from './legend';
+import { DEFAULT_SYMBOLS } from './symbols';
+import { METRIC_STYLE_KEYS } from './metrics';
+
+// Project files, share links and template files are untrusted input. Everything they carry is
+// rebuilt here field by field: unknown values fall back to their defaults and numbers are held
+// to the ranges the editor allows, so a crafted file can't freeze or break the app on open.
+
+const isRecord = (v: unknown): v is Record<string, any> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const oneOf = <T extends string | number>(value: unknown, options: readonly T[], fallback: T): T =>
+  options.includes(value as T) ? value as T : fallback;
+
+const clamp = (value: unknown, min: number, max: number, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+const clampInt = (value: unknown, min: number, max: number, fallback: number): number =>
+  Math.round(clamp(value, min, max, fallback));
+
+const text = (value: unknown, fallback: string): string => (typeof value === 'string' ? value : fallback);
+
+export const isColor = (value: unknown): value is string => typeof value === 'string' && d3.color(value) !== null;
+
+const color = (value: unknown, fallback: string): string => (isColor(value) ? value : fallback);
+
+const flag = (value: unknown, fallback: boolean): boolean => (typeof value === 'boolean' ? value : fallback);
+
+// Limits of the editor's own controls
+const CLASS_RANGE = [2, 9] as const;
+const MAX_PALETTE_STOPS = 9;
+const SYMBOL_RADIUS_RANGE = [8, 60] as const;
+const BORDER_WIDTH_RANGE = [0, 5] as const;
+const LABEL_SIZE_RANGE = [6, 48] as const;
+
+const PALETTE_NAMES = Object.keys(PALETTES) as MapStyle['palette'][];
+const METHODS: MapStyle['classificationMethod'][] = ['equal', 'quantile', 'natural', 'stddev', 'manual'];
+const MIDPOINTS = ['value', 'mean', 'median'] as const;
+
+function finiteNumbers(value: unknown): number[] {
+  return Array.isArray(value) ? value.filter((v): v is number => typeof v === 'number' && Number.isFinite(v)) : [];
+}
+
+function colorRecord(value: unknown): Record<string, string> {
+  const result: Record<string, string> = {};
+  if (isRecord(value)) Object.entries(value).forEach(([key, v]) => { if (isColor(v)) result[key] = v; });
+  return result;
+}
+
+export function sanitizeStyle(raw: unknown): MapStyle {
+  const s = isRecord(raw) ? raw : {};
+  const style: MapStyle = {
+    palette: oneOf(s.palette, PALETTE_NAMES, DEFAULT_MAP_STYLE.palette),
+    classificationMethod: oneOf(s.classificationMethod, METHODS, DEFAULT_MAP_STYLE.classificationMethod),
+    classesCount: clampInt(s.classesCount, CLASS_RANGE[0], CLASS_RANGE[1], DEFAULT_MAP_STYLE.classesCount),
+    showBorders: flag(s.showBorders, DEFAULT_MAP_STYLE.showBorders),
+    borderColor: color(s.borderColor, DEFAULT_MAP_STYLE.borderColor),
+    borderWidth: clamp(s.borderWidth, BORDER_WIDTH_RANGE[0], BORDER_WIDTH_RANGE[1], DEFAULT_MAP_STYLE.borderWidth),
+    backgroundColor: color(s.backgroundColor, DEFAULT_MAP_STYLE.backgroundColor),
+  };
+
+  if (Array.isArray(s.customColors)) style.customColors = s.customColors.filter(isColor).slice(0, MAX_PALETTE_STOPS);
+  if (s.interpolation !== undefined) style.interpolation = oneOf(s.interpolation, ['rgb', 'lab', 'hcl'] as const, 'rgb');
+  if (typeof s.reversePalette === 'boolean') style.reversePalette = s.reversePalette;
+  if (Array.isArray(s.manualBreaks)) {
+    style.manualBreaks = finiteNumbers(s.manualBreaks).sort((a, b) => a - b).slice(0, CLASS_RANGE[1] - 1);
+  }
+  if (isRecord(s.diverging)) {
+    style.diverging = { midpoint: oneOf(s.diverging.midpoint, MIDPOINTS, 'value'), value: clamp(s.diverging.value, -Infinity, Infinity, 0) };
+  }
+  if (s.renderMode !== undefined) style.renderMode = oneOf(s.renderMode, ['choropleth', 'bivariate'] as const, 'choropleth');
+  if (isRecord(s.bivariate) && typeof s.bivariate.xMetric === 'string' && typeof s.bivariate.yMetric === 'string') {
+    style.bivariate = {
+      xMetric: s.bivariate.xMetric,
+      yMetric: s.bivariate.yMetric,
+      size: oneOf(s.bivariate.size, [3, 4] as const, 3),
+      palette: oneOf(s.bivariate.palette, Object.keys(BIVARIATE_PALETTES) as (keyof typeof BIVARIATE_PALETTES)[], 'pinkBlue'),
+    };
+  }
+  if (s.categoryColors !== undefined) style.categoryColors = colorRecord(s.categoryColors);
+  if (s.maxCategories !== undefined) style.maxCategories = clampInt(s.maxCategories, 2, MAX_CATEGORIES, MAX_CATEGORIES);
+  if (typeof s.showFill === 'boolean') style.showFill = s.showFill;
+  if (isRecord(s.symbols)) {
+    style.symbols = {
+      enabled: flag(s.symbols.enabled, DEFAULT_SYMBOLS.enabled),
+      maxRadius: clampInt(s.symbols.maxRadius, SYMBOL_RADIUS_RANGE[0], SYMBOL_RADIUS_RANGE[1], DEFAULT_SYMBOLS.maxRadius),
+      color: color(s.symbols.color, DEFAULT_SYMBOLS.color),
+      ...(typeof s.symbols.metric === 'string' ? { metric: s.symbols.metric } : {}),
+    };
+  }
+  if (isRecord(s.legend)) {
+    style.legend = {
+      visible: flag(s.legend.visible, DEFAULT_LEGEND.visible),
+      title: text(s.legend.title, DEFAULT_LEGEND.title),
+      kind: oneOf(s.legend.kind, ['stepped', 'continuous'] as const, DEFAULT_LEGEND.kind),
+      orientation: oneOf(s.legend.orientation, ['horizontal', 'vertical'] as const, DEFAULT_LEGEND.orientation),
+      position: oneOf(s.legend.position, LEGEND_POSITIONS.map(p => p.value), DEFAULT_LEGEND.position),
+      showNoData: flag(s.legend.showNoData, DEFAULT_LEGEND.showNoData),
+    };
+  }
+  return style;
+}
+
+// Only the overrides the metric actually set survive
+function sanitizeMetricStyle(raw: unknown): MetricStyle | undefined {
+  if (!isRecord(raw)) return undefined;
+  const clean = sanitizeStyle({ ...DEFAULT_MAP_STYLE, ...raw });
+  const picked: MetricStyle = {};
+  const copy = <K extends keyof MetricStyle>(key: K) => { picked[key] = clean[key]; };
+  METRIC_STYLE_KEYS.forEach(key => { if (raw[key] !== undefined) copy(key); });
+  return picked;
+}
+
+export function sanitizeLabelSettings(raw: unknown): LabelSettings {
+  const s = isRecord(raw) ? raw : {};
+  const d = DEFAULT_LABEL_SETTINGS;
+  return {
+    showLabels: flag(s.showLabels, d.showLabels),
+    fontSize: clamp(s.fontSize, LABEL_SIZE_RANGE[0], LABEL_SIZE_RANGE[1], d.fontSize),
+    fontFamily: text(s.fontFamily, d.fontFamily),
+    color: color(s.color, d.color),
+    showOnHover: flag(s.showOnHover, d.showOnHover),
+    smartLabels: flag(s.smartLabels, d.smartLabels),
+  };
+}
+
+export function sanitizeTitleSettings(raw: unknown): TitleSettings {
+  const s = isRecord(raw) ? raw : {};
+  const d = DEFAULT_TITLE_SETTINGS;
+  return {
+    title: text(s.title, d.title),
+    subtitle: text(s.subtitle, d.subtitle),
+    position: oneOf(s.position, ['top', 'bottom', 'none'] as const, d.position),
+    alignment: oneOf(s.alignment, ['left', 'center', 'right'] as const, d.alignment),
+    color: color(s.color, d.color),
+    size: oneOf(s.size, ['small', 'medium', 'large'] as const, d.size),
+    source: text(s.source, d.source || ''),
+  };
+}
+
+// -- Data --
+
+function numberRecord(value: unknown): Record<string, number> {
+  const result: Record<string, number> = {};
+  if (isRecord(value)) {
+    Object.entries(value).forEach(([id, v]) => { if (typeof v === 'number' && Number.isFinite(v)) result[id] = v; });
+  }
+  return result;
+}
+
+function stringRecord(value: unknown): Record<string, string> {
+  const result: Record<string, string> = {};
+  if (isRecord(value)) Object.entries(value).forEach(([id, v]) => { if (typeof v === 'string') result[id] = v; });
+  return result;
+}
+
+function sanitizeSeries(raw: unknown): TimeSeries | undefined {
+  if (!isRecord(raw) || !Array.isArray(raw.periods) || !isRecord(raw.frames)) return undefined;
+  const periods = raw.periods.filter((p: unknown): p is string => typeof p === 'string' && isRecord(raw.frames[p]));
+  if (periods.length === 0) return undefined;
+  const frames: Record<string, Record<string, number>> = {};
+  periods.forEach((p: string) => { frames[p] = numberRecord(raw.frames[p]); });
+  return { periods, frames };
+}
+
+function sanitizeMetric(raw: unknown): DatasetMetric | null {
+  if (!isRecord(raw) || typeof raw.name !== 'string') return null;
+  const metric: DatasetMetric = { name: raw.name, unit: text(raw.unit, ''), values: numberRecord(raw.values) };
+  if (raw.categories !== undefined) metric.categories = stringRecord(raw.categories);
+  const series = sanitizeSeries(raw.series);
+  if (series) metric.series = series;
+  const style = sanitizeMetricStyle(raw.style);
+  if (style) metric.style = style;
+  return metric;
+}
+
+// Null when there is nothing that could be drawn
+export function sanitizeDataset(raw: unknown): MapDataState | null {
+  if (!isRecord(raw) || !isRecord(raw.values) || typeof raw.metric !== 'string') return null;
+  const main = sanitizeMetric({ ...raw, name: raw.metric, style: undefined })!;
+  const data: MapDataState = { values: main.values, metric: main.name, unit: main.unit };
+  if (main.categories) data.categories = main.categories;
+  if (main.series) data.series = main.series;
+  if (Array.isArray(raw.metrics)) {
+    const metrics = raw.metrics.map(sanitizeMetric).filter((m: DatasetMetric | null): m is DatasetMetric => m !== null);
+    if (metrics.length > 0) data.metrics = metrics;
+  }
+  return data;
+}
+
+// -- Boundaries --
+
+// A saved layer is rebuilt with the builder an upload goes through, joined on the same properties,
+// so it comes back exactly as it was uploaded. Features without geometry are dropped; null when
+// nothing usable is left.
+export function sanitizeBoundaryLayer(raw: unknown): BoundaryLayer | null {
+  if (!isRecord(raw) || typeof raw.name !== 'string' || !Array.isArray(raw.features)) return null;
+  const features = raw.features.filter((f: unknown) => isRecord(f) && isRecord(f.geometry));
+  try {
+    return buildBoundaryLayer(raw.name, features, text(raw.idProperty, 'id'), text(raw.nameProperty, 'name'));
+  } catch (error) {
+    console.error('Could not restore the boundary layer', error);
+    return null;
+  }
+}
@@ -0,0 +1,149 @@
+import { MapDataState, SAMPLE_DATASET, PRESET_TEMPLATES } from '../types';
+import { ProjectFile, ProjectState, PROJECT_FORMAT, PROJECT_VERSION, parseProject } from './project';
+import { getMetrics, normalizeDataset } from './metrics';
+
+// A share link carries a project file in the URL fragment, deflated and base64url-encoded, so
+// nothing is uploaded anywhere. Data the app already ships (the sample, preset templates,
+// admin-1 regions) travels as a reference. When the data is still too big for a link, the link
+// keeps the style and view and the recipient is asked to supply the data.
+
+export const SHARE_HASH_PREFIX = '#map=';
+// Chat apps, mail clients and some servers cut long URLs; a link that arrives truncated is useless
+export const MAX_LINK_LENGTH = 8192;
+
+// What a link left out, so the recipient knows what to upload
+export interface MissingData {
+  metrics: string[];
+  regions: number;
+  boundaries: string | null; // Name of a custom boundary layer that was also left out
+}
+
+interface ShareReferences {
+  data?: string; // 'sample' or a preset template id
+  admin1?: string; // Parent country of the drilled-down regions
+  missing?: MissingData;
+}
+
+export interface SharedMap {
+  project: ProjectFile; // Referenced data is already resolved into it
+  admin1Country: string | null; // Regions to load before the view is restored
+  missing: MissingData | null;
+}
+
+export interface ShareLinkResult {
+  url: string;
+  missing: MissingData | null; // Set when the data had to be left out
+}
+
+// -- Encoding --
+
+async function pipe(bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+async function encodePayload(payload: object): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify(payload));
+  return toBase64Url(await pipe(json, new CompressionStream('deflate-raw')));
+}
+
+async function decodePayload(encoded: string): Promise<string> {
+  return new TextDecoder().decode(await pipe(fromBase64Url(encoded), new DecompressionStream('deflate-raw')));
+}
+
+// -- References --
+
+const sameData = (a: MapDataState, b: MapDataState) =>
+  JSON.stringify(normalizeDataset(a)) === JSON.stringify(normalizeDataset(b));
+
+function findDataReference(data: MapDataState): string | undefined {
+  if (sameData(data, SAMPLE_DATASET)) return 'sample';
+  return PRESET_TEMPLATES.find(t => sameData(data, t.data))?.id;
+}
+
+function resolveDataReference(ref: string | undefined): MapDataState | null {
+  if (!ref) return null;
+  if (ref === 'sample') return SAMPLE_DATASET;
+  return PRESET_TEMPLATES.find(t => t.id === ref)?.data ?? null;
+}
+
+// -- Links --
+
+export async function buildShareLink(state: ProjectState, baseUrl: string): Promise<ShareLinkResult> {
+  const dataRef = state.data ? findDataReference(state.data) : undefined;
+  const file: ProjectFile = {
+    ...state,
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: new Date().toISOString(),
+    data: dataRef ? null : state.data && normalizeDataset(state.data),
+    admin1: null,
+  };
+  const links: ShareReferences = { data: dataRef, admin1: state.admin1?.countryId };
+  const toUrl = async (payload: object) => `${baseUrl}${SHARE_HASH_PREFIX}${await encodePayload(payload)}`;
+
+  const full = await toUrl({ ...file, links });
+  if (full.length <= MAX_LINK_LENGTH) return { url: full, missing: null };
+
+  // Data keyed to a custom boundary layer is useless without it, so both are left out together
+  if (file.data || file.boundaries) {
+    const missing: MissingData = {
+      metrics: file.data ? getMetrics(file.data).map(m => m.name) : [],
+      regions: file.data ? Object.keys(file.data.categories || file.data.values).length : 0,
+      boundaries: file.boundaries?.name ?? null,
+    };
+    const url = await toUrl({ ...file, data: null, boundaries: null, links: { ...links, missing } });
+    if (url.length <= MAX_LINK_LENGTH) return { url, missing };
+  }
+  throw new Error('The map settings alone are too large for a link. Save a project file instead.');
+}
+
+export const hasSharedMap = (hash: string) => hash.startsWith(SHARE_HASH_PREFIX);
+
+export async function readShareLink(hash: string): Promise<SharedMap> {
+  let text: string;
+  try {
+    text = await decodePayload(hash.slice(SHARE_HASH_PREFIX.length));
+  } catch {
+    throw new Error('This map link is damaged or incomplete');
+  }
+  // Links are project files underneath, so old links go through the same migrations
+  const project = parseProject(text);
+  const links = readReferences(JSON.parse(text).links);
+  const dataRef = resolveDataReference(links.data);
+  return {
+    project: dataRef ? { ...project, data: dataRef } : project,
+    admin1Country: links.admin1 ?? null,
+    missing: links.missing ?? null,
+  };
+}
+
+// The references come from the link too, so only well-formed ones are used
+function readReferences(raw: any): ShareReferences {
+  if (typeof raw !== 'object' || raw === null) return {};
+  const missing = raw.missing;
+  return {
+    data: typeof raw.data === 'string' ? raw.data : undefined,
+    admin1: typeof raw.admin1 === 'string' ? raw.admin1 : undefined,
+    missing: typeof missing === 'object' && missing !== null && Array.isArray(missing.metrics)
+      ? {
+        metrics: missing.metrics.filter((m: unknown) => typeof m === 'string'),
+        regions: Number.isFinite(missing.regions) ? missing.regions : 0,
+        boundaries: typeof missing.boundaries === 'string' ? missing.boundaries : null,
+      }
+      : undefined,
+  };
+}
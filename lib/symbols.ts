@@ -0,0 +1,125 @@
+import * as d3 from 'd3';
+import { MapStyle, SymbolSettings, DatasetMetric } from '../types';
+import { GeoFeature } from './geometry';
+
+export const DEFAULT_SYMBOLS: SymbolSettings = {
+  enabled: false,
+  maxRadius: 28,
+  color: '#f97316',
+};
+
+export interface SymbolScale {
+  max: number;
+  radius: (value: number) => number;
+}
+
+type Point = [number, number];
+type Ring = Point[];
+
+const anchorCache = new WeakMap<GeoFeature, Point | null>();
+
+// Planar distance from a point to the nearest edge of a polygon, in degrees
+function distanceToEdge(point: Point, rings: Ring[]): number {
+  let min = Infinity;
+  for (const ring of rings) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [ax, ay] = ring[j];
+      const [bx, by] = ring[i];
+      const dx = bx - ax;
+      const dy = by - ay;
+      const t = dx || dy ? Math.max(0, Math.min(1, ((point[0] - ax) * dx + (point[1] - ay) * dy) / (dx * dx + dy * dy))) : 0;
+      min = Math.min(min, Math.hypot(point[0] - (ax + t * dx), point[1] - (ay + t * dy)));
+    }
+  }
+  return min;
+}
+
+const insidePolygon = (point: Point, rings: Ring[]) =>
+  d3.polygonContains(rings[0], point) && !rings.slice(1).some(hole => d3.polygonContains(hole, point));
+
+// Grid search for the point deepest inside the polygon, refined once around the best cell
+function poleOfInaccessibility(rings: Ring[]): Point | null {
+  const xs = rings[0].map(p => p[0]);
+  const ys = rings[0].map(p => p[1]);
+  let [minX, maxX, minY, maxY] = [d3.min(xs)!, d3.max(xs)!, d3.min(ys)!, d3.max(ys)!];
+  let best: Point | null = null;
+  let bestDistance = -1;
+
+  for (let pass = 0; pass < 2; pass++) {
+    const steps = 12;
+    const stepX = (maxX - minX) / steps;
+    const stepY = (maxY - minY) / steps;
+    for (let i = 0; i <= steps; i++) {
+      for (let j = 0; j <= steps; j++) {
+        const candidate: Point = [minX + i * stepX, minY + j * stepY];
+        if (!insidePolygon(candidate, rings)) continue;
+        const distance = distanceToEdge(candidate, rings);
+        if (distance > bestDistance) {
+          best = candidate;
+          bestDistance = distance;
+        }
+      }
+    }
+    if (!best) break;
+    [minX, maxX, minY, maxY] = [best[0] - stepX, best[0] + stepX, best[1] - stepY, best[1] + stepY];
+  }
+  return best;
+}
+
+// Where a feature's symbol sits, in longitude/latitude. The centroid of the largest part is used
+// when it falls inside that part; crescents, archipelagos and the like get their deepest interior point.
+export function getSymbolAnchor(feature: GeoFeature): Point | null {
+  if (anchorCache.has(feature)) return anchorCache.get(feature)!;
+
+  const geometry = (feature as any).geometry;
+  const polygons: Ring[][] = geometry?.type === 'Polygon'
+    ? [geometry.coordinates]
+    : geometry?.type === 'MultiPolygon' ? geometry.coordinates : [];
+  const largest = d3.greatest(polygons, (rings: Ring[]) => Math.abs(d3.polygonArea(rings[0])));
+
+  let anchor: Point | null = null;
+  if (largest) {
+    const centroid = d3.polygonCentroid(largest[0]) as Point;
+    const size = Math.sqrt(Math.abs(d3.polygonArea(largest[0])));
+    // A centroid hugging the coastline reads as belonging to the neighbour
+    anchor = insidePolygon(centroid, largest) && distanceToEdge(centroid, largest) > size * 0.1
+      ? centroid
+      : poleOfInaccessibility(largest) || centroid;
+  }
+  anchorCache.set(feature, anchor);
+  return anchor;
+}
+
+// Symbol area is proportional to the value, so the radius follows a square-root scale
+export function buildSymbolScale(values: number[], maxRadius: number): SymbolScale | null {
+  const max = d3.max(values.filter(v => v > 0));
+  if (!max) return null;
+  const scale = d3.scaleSqrt().domain([0, max]).range([0, maxRadius]).clamp(true);
+  return { max, radius: (value: number) => (value > 0 ? scale(value) : 0) };
+}
+
+// Draw the largest symbols first so smaller ones stay visible (and hoverable) on top of them
+export function orderSymbols<T extends { value: number }>(symbols: T[]): T[] {
+  return symbols.slice().sort((a, b) => b.value - a.value);
+}
+
+const roundDown = (value: number) => {
+  const magnitude = Math.pow(10, Math.floor(Math.log10(value)));
+  return Math.floor(value / magnitude) * magnitude;
+};
+
+// Round reference values for the size legend, largest first
+export function getSymbolLegendValues(scale: SymbolScale): number[] {
+  const top = roundDown(scale.max);
+  return Array.from(new Set([top, roundDown(top / 4), roundDown(top / 16)])).filter(v => v > 0);
+}
+
+// The sized metric falls back to the one on screen when it is unset or no longer in the dataset,
+// and to the first numeric metric when the one on screen is categorical
+export function resolveSymbolMetric(style: MapStyle, metrics: DatasetMetric[], activeMetric: string): DatasetMetric | null {
+  if (!style.symbols?.enabled) return null;
+  return metrics.find(m => m.name === style.symbols!.metric)
+    || metrics.find(m => m.name === activeMetric)
+    || metrics[0]
+    || null;
+}
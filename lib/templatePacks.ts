@@ -0,0 +1,181 @@
+import { MapTemplate, TEMPLATE_CATEGORIES } from '../types';
+import { normalizeDataset } from './metrics';
+import { sanitizeStyle, sanitizeDataset, sanitizeTitleSettings } from './sanitize';
+import { downloadBlob } from './exportMap';
+
+// A template pack is a set of saved templates as JSON, versioned like project files so a pack
+// written by an older build still loads. The gallery keeps its own templates in localStorage in
+// the same format, which also moves templates stored as a raw array onto the versioned format.
+
+export const TEMPLATE_PACK_FORMAT = 'mapviz-template-pack';
+export const TEMPLATE_PACK_VERSION = 1;
+export const TEMPLATE_PACK_EXTENSION = '.mapviz-templates';
+
+const STORAGE_KEY = 'mapviz_my_templates';
+// Saved templates are told apart from the presets by this id prefix
+export const CUSTOM_TEMPLATE_PREFIX = 'custom-';
+
+export interface TemplatePack {
+  format: typeof TEMPLATE_PACK_FORMAT;
+  version: number;
+  exportedAt: string; // ISO timestamp
+  templates: MapTemplate[];
+}
+
+export const DEFAULT_TEMPLATE_GRADIENT = 'linear-gradient(135deg, #6366f1, #a855f7)';
+
+export const isCustomTemplate = (template: MapTemplate) => template.id.startsWith(CUSTOM_TEMPLATE_PREFIX);
+
+export const createTemplateId = () => `${CUSTOM_TEMPLATE_PREFIX}${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+
+// "Europe, GDP,  europe" -> ['europe', 'gdp']
+export function parseTags(text: string): string[] {
+  const tags = text.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean);
+  return Array.from(new Set(tags));
+}
+
+// -- Versions --
+
+const isRecord = (v: unknown): v is Record<string, any> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+// Each entry upgrades a pack from version n to n + 1. Never edit one once it has shipped;
+// bump TEMPLATE_PACK_VERSION and add the next step instead.
+const MIGRATIONS: Record<number, (pack: Record<string, any>) => Record<string, any>> = {
+  // Version 0 is the bare MapTemplate array the gallery used to store
+  0: pack => ({
+    format: TEMPLATE_PACK_FORMAT,
+    version: 1,
+    exportedAt: '',
+    templates: pack.templates,
+  }),
+};
+
+function getPackVersion(pack: unknown): number {
+  if (Array.isArray(pack)) return 0;
+  if (isRecord(pack) && pack.format === TEMPLATE_PACK_FORMAT) {
+    if (typeof pack.version !== 'number') throw new Error('The template pack has no version');
+    return pack.version;
+  }
+  throw new Error('This is not a MapViz template pack');
+}
+
+// Settings added since the template was written fall back to their defaults; a template without
+// usable data can't be applied, so it is dropped
+export function normalizeTemplate(raw: unknown): MapTemplate | null {
+  const data = isRecord(raw) ? sanitizeDataset(raw.data) : null;
+  if (!isRecord(raw) || !data) return null;
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : createTemplateId(),
+    name: typeof raw.name === 'string' && raw.name ? raw.name : 'Untitled template',
+    description: typeof raw.description === 'string' ? raw.description : '',
+    category: TEMPLATE_CATEGORIES.includes(raw.category) ? raw.category : 'Other',
+    tags: Array.isArray(raw.tags) ? parseTags(raw.tags.filter((t: unknown) => typeof t === 'string').join(',')) : [],
+    style: sanitizeStyle(raw.style),
+    data,
+    titleSettings: sanitizeTitleSettings(raw.titleSettings),
+    thumbnailGradient: typeof raw.thumbnailGradient === 'string' ? raw.thumbnailGradient : DEFAULT_TEMPLATE_GRADIENT,
+    ...(raw.isPopular ? { isPopular: true } : {}),
+  };
+}
+
+function migratePack(parsed: unknown): MapTemplate[] {
+  let version = getPackVersion(parsed);
+  if (version > TEMPLATE_PACK_VERSION) {
+    throw new Error(`This template pack was made by a newer version of MapViz (format ${version})`);
+  }
+  // Version 0 has no envelope; give it one so every migration takes and returns an object
+  let pack: Record<string, any> = Array.isArray(parsed) ? { templates: parsed } : parsed as Record<string, any>;
+  while (version < TEMPLATE_PACK_VERSION) {
+    pack = MIGRATIONS[version](pack);
+    version += 1;
+  }
+  if (!Array.isArray(pack.templates)) throw new Error('The template pack has no template list');
+  return pack.templates.map(normalizeTemplate).filter((t): t is MapTemplate => t !== null);
+}
+
+export function parseTemplatePack(text: string): MapTemplate[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The template pack is not valid JSON');
+  }
+  const templates = migratePack(parsed);
+  if (templates.length === 0) throw new Error('The template pack contains no usable templates');
+  return templates;
+}
+
+export function serializeTemplatePack(templates: MapTemplate[]): string {
+  const pack: TemplatePack = {
+    format: TEMPLATE_PACK_FORMAT,
+    version: TEMPLATE_PACK_VERSION,
+    exportedAt: new Date().toISOString(),
+    // Keep every metric (and its style overrides), not just the one on screen
+    templates: templates.map(t => ({ ...t, data: normalizeDataset(t.data) })),
+  };
+  return JSON.stringify(pack);
+}
+
+export function downloadTemplatePack(templates: MapTemplate[], name: string) {
+  const blob = new Blob([serializeTemplatePack(templates)], { type: 'application/json' });
+  downloadBlob(blob, `${name}${TEMPLATE_PACK_EXTENSION}`);
+}
+
+// -- Storage --
+
+export function loadStoredTemplates(): MapTemplate[] {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return [];
+  try {
+    return migratePack(JSON.parse(saved));
+  } catch (error) {
+    // Leave the stored value alone so a newer build can still read it
+    console.error('Could not read saved templates', error);
+    return [];
+  }
+}
+
+export function storeTemplates(templates: MapTemplate[]) {
+  localStorage.setItem(STORAGE_KEY, serializeTemplatePack(templates));
+}
+
+// -- Import --
+
+export type ConflictResolution = 'replace' | 'keep-both' | 'skip';
+
+export interface TemplateImport {
+  template: MapTemplate;
+  conflict: MapTemplate | null; // Saved template with the same id
+  resolution: ConflictResolution;
+}
+
+// Pairs each incoming template with the saved one it would overwrite. Ids are moved under the
+// custom prefix so imported copies of presets show up with the user's own templates, and an id
+// repeated within the pack is replaced so its templates don't overwrite each other.
+export function planTemplateImport(incoming: MapTemplate[], existing: MapTemplate[]): TemplateImport[] {
+  const seen = new Set<string>();
+  return incoming.map(raw => {
+    let template = raw.id.startsWith(CUSTOM_TEMPLATE_PREFIX) ? raw : { ...raw, id: `${CUSTOM_TEMPLATE_PREFIX}${raw.id}` };
+    while (seen.has(template.id)) template = { ...template, id: createTemplateId() };
+    seen.add(template.id);
+    const conflict = existing.find(t => t.id === template.id) ?? null;
+    return { template, conflict, resolution: conflict ? 'keep-both' : 'replace' };
+  });
+}
+
+export function applyTemplateImport(existing: MapTemplate[], plan: TemplateImport[]): MapTemplate[] {
+  const result = [...existing];
+  for (const { template, resolution } of plan) {
+    if (resolution === 'skip') continue;
+    const index = result.findIndex(t => t.id === template.id);
+    if (index !== -1 && resolution === 'replace') {
+      result[index] = template;
+    } else if (index !== -1) {
+      result.push({ ...template, id: createTemplateId(), name: `${template.name} (imported)` });
+    } else {
+      result.push(template);
+    }
+  }
+  return result;
+}
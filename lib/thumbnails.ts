@@ -0,0 +1,175 @@
+import * as d3 from 'd3';
+import { MapTemplate } from '../types';
+import { WorldGeometry } from './geometry';
+import { classify, NO_DATA_COLOR } from './classification';
+import { classifyCategories, isCategorical } from './categories';
+import { classifyBivariate, resolveBivariateMetrics } from './bivariate';
+import { getActiveMetric, getMetrics, resolveMetricStyle } from './metrics';
+import { getClassificationValues } from './timeSeries';
+
+// Miniature renders of a template's style and data for the gallery. Card thumbnails are cached
+// in localStorage under a fingerprint of what they were drawn from, so they are only redrawn
+// when the template (or this renderer) changes.
+
+export interface ThumbnailSize {
+  width: number;
+  height: number;
+}
+
+export const CARD_THUMBNAIL: ThumbnailSize = { width: 320, height: 160 };
+export const PREVIEW_THUMBNAIL: ThumbnailSize = { width: 560, height: 290 };
+
+// Bump when the drawing changes so every cached thumbnail is redrawn
+const RENDERER_VERSION = 1;
+const STORAGE_KEY = 'mapviz_template_thumbnails';
+
+interface CachedThumbnail {
+  hash: string;
+  url: string;
+}
+
+// -- Drawing --
+
+// Colours each country for the latest frame of the template's active metric, classified the
+// same way as the editor. Symbols and labels are left out; they don't read at this size.
+function buildFill(template: MapTemplate): (id: string) => string {
+  const { data } = template;
+  const style = resolveMetricStyle(template.style, getActiveMetric(data));
+  if (style.showFill === false) return () => NO_DATA_COLOR;
+
+  const bivariateMetrics = resolveBivariateMetrics(style, getMetrics(data).filter(m => !isCategorical(m)));
+  if (bivariateMetrics && style.bivariate) {
+    const bivariate = classifyBivariate(
+      getClassificationValues(bivariateMetrics.x),
+      getClassificationValues(bivariateMetrics.y),
+      style,
+      style.bivariate
+    );
+    if (bivariate) {
+      return id => bivariate.colorFor(bivariateMetrics.x.values[id], bivariateMetrics.y.values[id]) || NO_DATA_COLOR;
+    }
+  }
+
+  if (data.categories) {
+    const categorical = classifyCategories(data.categories, style);
+    return id => categorical?.colorFor(data.categories![id]) || NO_DATA_COLOR;
+  }
+
+  const classification = classify(getClassificationValues(data), style);
+  return id => {
+    const value = data.values[id];
+    return classification && value !== undefined ? classification.colorFor(value) : NO_DATA_COLOR;
+  };
+}
+
+function renderThumbnail(template: MapTemplate, world: WorldGeometry, size: ThumbnailSize): string {
+  const scale = Math.min(2, window.devicePixelRatio || 1);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(size.width * scale);
+  canvas.height = Math.round(size.height * scale);
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not available');
+  context.scale(scale, scale);
+
+  const style = template.style;
+  context.fillStyle = style.backgroundColor;
+  context.fillRect(0, 0, size.width, size.height);
+
+  // Equal Earth fills a wide card far better than the editor's default Mercator
+  const pad = size.width * 0.03;
+  const projection = d3.geoEqualEarth().fitExtent([[pad, pad], [size.width - pad, size.height - pad]], { type: 'Sphere' });
+  const path = d3.geoPath(projection, context);
+  const fill = buildFill(template);
+
+  world.features.forEach(feature => {
+    context.beginPath();
+    path(feature);
+    context.fillStyle = fill(feature.id);
+    context.fill();
+  });
+
+  if (style.showBorders) {
+    context.beginPath();
+    path(world.mesh);
+    context.strokeStyle = style.borderColor;
+    context.lineWidth = Math.max(0.3, style.borderWidth * size.width / 1000);
+    context.stroke();
+  }
+
+  return canvas.toDataURL('image/webp', 0.85);
+}
+
+// -- Cache --
+
+// Short, stable digest of everything the drawing depends on (FNV-1a)
+function fingerprint(template: MapTemplate): string {
+  const text = JSON.stringify([RENDERER_VERSION, template.style, template.data]);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+function readCache(): Record<string, CachedThumbnail> {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+// Thumbnails for every given template, keyed by id. Templates that fail to draw are left out
+// and keep their gradient.
+export function getTemplateThumbnails(templates: MapTemplate[], world: WorldGeometry): Record<string, string> {
+  const cached = readCache();
+  const next: Record<string, CachedThumbnail> = {};
+  let changed = Object.keys(cached).length !== templates.length;
+
+  templates.forEach(template => {
+    const hash = fingerprint(template);
+    const hit = cached[template.id];
+    if (hit && hit.hash === hash) {
+      next[template.id] = hit;
+      return;
+    }
+    try {
+      next[template.id] = { hash, url: renderThumbnail(template, world, CARD_THUMBNAIL) };
+      changed = true;
+    } catch (error) {
+      console.error(`Could not draw a thumbnail for "${template.name}"`, error);
+    }
+  });
+
+  // Entries of deleted templates drop out here, since only the given templates are kept
+  if (changed) {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } catch (error) {
+      // Storage full: the thumbnails still show, they are just redrawn next time
+      console.error('Could not cache template thumbnails', error);
+    }
+  }
+
+  const urls: Record<string, string> = {};
+  Object.entries(next).forEach(([id, entry]) => { urls[id] = entry.url; });
+  return urls;
+}
+
+// Hover previews are larger and drawn on demand, so they are only kept for the session
+const previews = new Map<string, string>();
+
+export function getTemplatePreview(template: MapTemplate, world: WorldGeometry): string | null {
+  const key = `${template.id}:${fingerprint(template)}`;
+  const cached = previews.get(key);
+  if (cached) return cached;
+  try {
+    const url = renderThumbnail(template, world, PREVIEW_THUMBNAIL);
+    previews.set(key, url);
+    return url;
+  } catch (error) {
+    console.error(`Could not draw a preview for "${template.name}"`, error);
+    return null;
+  }
+}
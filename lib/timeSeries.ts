@@ -0,0 +1,78 @@
+import { MapDataState, TimeSeries } from '../types';
+
+// Recognised period labels, normalised so that plain string order is chronological
+const YEAR = /^(\d{4})$/;
+const QUARTER = /^(\d{4})[\s\-_/]*Q([1-4])$/i;
+const QUARTER_FIRST = /^Q([1-4])[\s\-_/]*(\d{4})$/i;
+const MONTH = /^(\d{4})[-/.](\d{1,2})$/;
+const DATE = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T\s].*)?$/;
+
+const pad = (n: string) => n.padStart(2, '0');
+const plausibleYear = (y: string) => +y >= 1000 && +y <= 2999;
+
+export function normalizePeriod(raw: string | number | null | undefined): string | null {
+  if (raw === null || raw === undefined) return null;
+  const clean = String(raw).trim();
+  if (!clean) return null;
+
+  let m = clean.match(YEAR);
+  if (m) return plausibleYear(m[1]) ? m[1] : null;
+  m = clean.match(QUARTER);
+  if (m) return `${m[1]}-Q${m[2]}`;
+  m = clean.match(QUARTER_FIRST);
+  if (m) return `${m[2]}-Q${m[1]}`;
+  m = clean.match(MONTH);
+  if (m && +m[2] >= 1 && +m[2] <= 12) return `${m[1]}-${pad(m[2])}`;
+  m = clean.match(DATE);
+  if (m && +m[2] >= 1 && +m[2] <= 12 && +m[3] >= 1 && +m[3] <= 31) return `${m[1]}-${pad(m[2])}-${pad(m[3])}`;
+  return null;
+}
+
+export const isPeriodLabel = (raw: string) => normalizePeriod(raw) !== null;
+
+// Four digits alone could as well be a count or a price, so bare years only read as periods when
+// there are few of them and no long gaps between them (annual to decadal data)
+const MAX_YEAR_PERIODS = 60;
+const MAX_YEAR_GAP = 10;
+
+export const isYearLabel = (raw: string) => YEAR.test(raw.trim());
+
+export function isPlausibleYearSet(labels: string[]): boolean {
+  const years = sortPeriods(labels.filter(isYearLabel).map(l => l.trim())).map(Number);
+  if (years.length > MAX_YEAR_PERIODS) return false;
+  return years.every((year, i) => i === 0 || year - years[i - 1] <= MAX_YEAR_GAP);
+}
+
+export function sortPeriods(periods: Iterable<string>): string[] {
+  return Array.from(new Set(periods)).sort();
+}
+
+export function formatPeriod(period: string): string {
+  const quarter = period.match(/^(\d{4})-Q([1-4])$/);
+  if (quarter) return `Q${quarter[2]} ${quarter[1]}`;
+  return period;
+}
+
+export function buildSeries(frames: Record<string, Record<string, number>>): TimeSeries {
+  const periods = sortPeriods(Object.keys(frames).filter(p => Object.keys(frames[p]).length > 0));
+  const kept: TimeSeries['frames'] = {};
+  periods.forEach(p => { kept[p] = frames[p]; });
+  return { periods, frames: kept };
+}
+
+export const latestFrame = (series: TimeSeries): Record<string, number> =>
+  series.frames[series.periods[series.periods.length - 1]] || {};
+
+// Values shown for one period; data without a series has a single frame
+export function getFrameValues(data: MapDataState, period: string | null): Record<string, number> {
+  if (!data.series || !period) return data.values;
+  return data.series.frames[period] || {};
+}
+
+// Classes are computed over every period so colours mean the same thing in each frame
+export function getClassificationValues(data: Pick<MapDataState, 'values' | 'series'>): number[] {
+  const frames = data.series ? data.series.periods.map(p => data.series!.frames[p]) : [data.values];
+  return frames
+    .flatMap(frame => Object.values(frame))
+    .filter(v => typeof v === 'number' && !isNaN(v));
+}
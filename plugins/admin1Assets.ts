@@ -0,0 +1,81 @@
+import fs from 'fs';
+import { createRequire } from 'module';
+import type { Plugin, ResolvedConfig } from 'vite';
+import { getCountryIdByCode } from '../lib/countryMapping';
+
+// Natural Earth ships every state and province in one 35 MB file. This plugin splits it into
+// one small asset per country at build time (and serves the same files in dev), and exposes
+// `virtual:admin1-index`, mapping each ISO 3166-1 numeric code to its asset URL, so a
+// drill-down only fetches the country it opens.
+
+const VIRTUAL_ID = 'virtual:admin1-index';
+const RESOLVED_ID = `\0${VIRTUAL_ID}`;
+const DEV_PATH = '@admin1/';
+
+// Natural Earth marks subdivisions without an official code with a trailing "~"
+const subdivisionCode = (props: any): string | null => {
+  const code = String(props.iso_3166_2 || '');
+  if (code && !code.endsWith('~')) return code;
+  return props.adm1_code ? String(props.adm1_code) : null;
+};
+
+// Country id -> FeatureCollection JSON. Only the join code and display name are kept; the other
+// Natural Earth properties make up most of the file and are never read.
+function splitByCountry(): Map<string, string> {
+  const source = createRequire(import.meta.url).resolve('geojson-places/data/states/admin1.json');
+  const collection = JSON.parse(fs.readFileSync(source, 'utf8'));
+  const byCountry = new Map<string, any[]>();
+  (collection.features || []).forEach((f: any) => {
+    const props = f.properties || {};
+    const countryId = getCountryIdByCode(String(props.iso_a2 || ''), 'alpha2')
+      || getCountryIdByCode(String(props.adm0_a3 || ''), 'alpha3');
+    const code = subdivisionCode(props);
+    if (!countryId || !code || !f.geometry) return;
+    const feature = { type: 'Feature', properties: { code, name: props.name_en || props.name || code }, geometry: f.geometry };
+    if (!byCountry.has(countryId)) byCountry.set(countryId, []);
+    byCountry.get(countryId)!.push(feature);
+  });
+
+  const files = new Map<string, string>();
+  byCountry.forEach((features, countryId) => {
+    files.set(countryId, JSON.stringify({ type: 'FeatureCollection', features }));
+  });
+  return files;
+}
+
+export function admin1Assets(): Plugin {
+  let config: ResolvedConfig;
+  let files: Map<string, string> | null = null;
+  const getFiles = () => files || (files = splitByCountry());
+
+  return {
+    name: 'mapviz-admin1-assets',
+    configResolved(resolved) {
+      config = resolved;
+    },
+    resolveId(id) {
+      return id === VIRTUAL_ID ? RESOLVED_ID : null;
+    },
+    load(id) {
+      if (id !== RESOLVED_ID) return null;
+      const entries = Array.from(getFiles().entries()).map(([countryId, json]) => {
+        if (config.command === 'serve') {
+          return `${JSON.stringify(countryId)}: ${JSON.stringify(`${config.base}${DEV_PATH}${countryId}.json`)}`;
+        }
+        const ref = this.emitFile({ type: 'asset', name: `admin1-${countryId}.json`, source: json });
+        return `${JSON.stringify(countryId)}: import.meta.ROLLUP_FILE_URL_${ref}`;
+      });
+      return `export default {\n${entries.join(',\n')}\n};\n`;
+    },
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => {
+        const prefix = `${config.base}${DEV_PATH}`;
+        if (!req.url || !req.url.startsWith(prefix)) return next();
+        const json = getFiles().get(req.url.slice(prefix.length).replace(/\.json(\?.*)?$/, ''));
+        if (!json) return next();
+        res.setHeader('Content-Type', 'application/json');
+        res.end(json);
+      });
+    },
+  };
+}
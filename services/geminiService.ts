@@ -1,5 +1,11 @@
 import { GoogleGenAI, Type } from "@google/genai";
 import { MapDataState, MapStyle, TitleSettings } from "../types";
+import { Admin1Layer } from "../lib/admin1";
+import { NAMED_PALETTES, PALETTE_INFO } from "../lib/palettes";
+import { DIVERGING_PALETTES } from "../types";
+
+const paletteList = (filter: (p: typeof NAMED_PALETTES[number]) => boolean) =>
+  NAMED_PALETTES.filter(filter).map(p => `"${p}"`).join(", ");
 
 const apiKey = process.env.GEMINI_API_KEY || "";
 const ai = new GoogleGenAI({ apiKey });
@@ -10,6 +16,9 @@ export interface GenerationResult {
   titleSettings?: Partial<TitleSettings>;
 }
 
+// The model can't be trusted to name a real source for figures it generated, so the map says so
+const AI_SOURCE = "Data: AI-generated";
+
 const SYSTEM_INSTRUCTION = `
 You are a data visualization assistant for MapViz AI. Your task is to generate global map data based on user prompts.
 Return a JSON object with the following structure:
@@ -20,9 +29,10 @@ Return a JSON object with the following structure:
     "unit": "UNIT_OF_MEASURE"
   },
   "mapStyle": {
-    "palette": "ocean" | "sunset" | "forest" | "monochrome",
-    "classificationMethod": "equal" | "quantile" | "natural",
-    "classesCount": number
+    "palette": PALETTE_NAME,
+    "classificationMethod": "equal" | "quantile" | "natural" | "stddev",
+    "classesCount": number,
+    "diverging": { "midpoint": "value" | "mean" | "median", "value": number } (optional)
   },
   "titleSettings": {
     "title": "MAIN_TITLE",
@@ -34,10 +44,21 @@ Provide data for as many countries as possible (aim for 50+) to ensure a rich vi
 Common ISO numeric codes: USA: "840", Canada: "124", China: "156", India: "356", Brazil: "076", Russia: "643", Australia: "036", Germany: "276", France: "250", UK: "826", Japan: "392", South Africa: "710", Italy: "380", Spain: "724", Mexico: "484", Argentina: "032", Indonesia: "360", Turkey: "792", Saudi Arabia: "682", South Korea: "410", Nigeria: "566", Egypt: "818".
 For "GDP by country 2024", provide real GDP figures in USD (Trillions or Billions).
 For "Population density global", provide people per sq km.
+Sequential palettes: ${paletteList(p => !DIVERGING_PALETTES.includes(p))}.
+Diverging palettes: ${paletteList(p => DIVERGING_PALETTES.includes(p))}. Use one only for data centred on a meaningful value (0% growth, a 50/50 split) and set "diverging" with that midpoint.
+Prefer colorblind-safe palettes: ${paletteList(p => PALETTE_INFO[p].colorblindSafe)}.
 Ensure the JSON is valid and follows the schema exactly.
 `;
 
-export async function generateMapData(prompt: string): Promise<GenerationResult> {
+// Swaps the country-level keys for the ISO 3166-2 codes of one country's states or provinces
+const regionInstruction = (regions: Admin1Layer) => `
+This map shows the states/provinces of ${regions.name}, not countries.
+Use ISO 3166-2 subdivision codes as keys for the values object instead of ISO numeric codes.
+Only use these keys: ${regions.features.map(f => `"${f.id}" (${f.properties.name})`).join(', ')}.
+Provide data for every subdivision where a reasonable figure exists.
+`;
+
+export async function generateMapData(prompt: string, regions?: Admin1Layer | null): Promise<GenerationResult> {
   if (!apiKey) {
     throw new Error("Gemini API key is missing. Please configure it in the settings.");
   }
@@ -47,7 +68,7 @@ export async function generateMapData(prompt: string): Promise<GenerationResult>
       model: "gemini-3-flash-preview",
       contents: prompt,
       config: {
-        systemInstruction: SYSTEM_INSTRUCTION,
+        systemInstruction: regions ? SYSTEM_INSTRUCTION + regionInstruction(regions) : SYSTEM_INSTRUCTION,
         responseMimeType: "application/json",
         responseSchema: {
           type: Type.OBJECT,
@@ -57,7 +78,9 @@ export async function generateMapData(prompt: string): Promise<GenerationResult>
               properties: {
                 values: {
                   type: Type.OBJECT,
-                  description: "ISO numeric codes as keys, numeric values as values",
+                  description: regions
+                    ? "ISO 3166-2 subdivision codes as keys, numeric values as values"
+                    : "ISO numeric codes as keys, numeric values as values",
                 },
                 metric: { type: Type.STRING },
                 unit: { type: Type.STRING },
@@ -67,9 +90,17 @@ export async function generateMapData(prompt: string): Promise<GenerationResult>
             mapStyle: {
               type: Type.OBJECT,
               properties: {
-                palette: { type: Type.STRING, enum: ["ocean", "sunset", "forest", "monochrome"] },
-                classificationMethod: { type: Type.STRING, enum: ["equal", "quantile", "natural"] },
+                palette: { type: Type.STRING, enum: NAMED_PALETTES },
+                classificationMethod: { type: Type.STRING, enum: ["equal", "quantile", "natural", "stddev"] },
                 classesCount: { type: Type.NUMBER },
+                diverging: {
+                  type: Type.OBJECT,
+                  properties: {
+                    midpoint: { type: Type.STRING, enum: ["value", "mean", "median"] },
+                    value: { type: Type.NUMBER },
+                  },
+                  required: ["midpoint", "value"],
+                },
               },
             },
             titleSettings: {
@@ -90,7 +121,8 @@ export async function generateMapData(prompt: string): Promise<GenerationResult>
       throw new Error("No response from Gemini");
     }
 
-    return JSON.parse(text) as GenerationResult;
+    const result = JSON.parse(text) as GenerationResult;
+    return { ...result, titleSettings: { ...result.titleSettings, source: AI_SOURCE } };
   } catch (error) {
     console.error("Error generating map data:", error);
     throw error;
@@ -1,11 +1,68 @@
-export type PaletteType = 'ocean' | 'sunset' | 'forest' | 'monochrome' | 'custom';
-export type ClassificationMethod = 'equal' | 'quantile' | 'natural';
+export type PaletteType =
+  | 'ocean' | 'sunset' | 'forest' | 'monochrome'
+  // ColorBrewer sequential
+  | 'blues' | 'greens' | 'oranges' | 'purples' | 'reds' | 'greys' | 'ylGnBu' | 'ylOrRd' | 'buPu' | 'rdPu'
+  // ColorBrewer diverging
+  | 'redBlue' | 'brownTeal' | 'purpleGreen' | 'piYG' | 'rdYlBu' | 'spectral'
+  // Viridis family
+  | 'viridis' | 'magma' | 'inferno' | 'plasma' | 'cividis'
+  | 'custom';
+export type InterpolationSpace = 'rgb' | 'lab' | 'hcl';
+export type ClassificationMethod = 'equal' | 'quantile' | 'natural' | 'stddev' | 'manual';
+export type RenderMode = 'choropleth' | 'bivariate';
+export type ProjectionType = 'mercator' | 'orthographic' | 'equalEarth';
+export type MidpointType = 'value' | 'mean' | 'median';
+
+// Classes split evenly on either side of a midpoint, which gets the palette's neutral colour
+export interface DivergingSettings {
+  midpoint: MidpointType;
+  value: number; // Used when midpoint is 'value'
+}
+export type BivariatePaletteType = 'pinkBlue' | 'tealRed' | 'greenPurple';
+
+// Two metrics classified independently and crossed into a size x size colour grid
+export interface BivariateSettings {
+  xMetric: string;
+  yMetric: string;
+  size: 3 | 4;
+  palette: BivariatePaletteType;
+}
+
+// Circles sized by an absolute quantity, drawn over (or instead of) the choropleth fill
+export interface SymbolSettings {
+  enabled: boolean;
+  metric?: string; // Defaults to the metric on screen
+  maxRadius: number; // Screen pixels for the largest value
+  color: string;
+}
+
+export type LegendPosition = 'bottom-center' | 'bottom-left' | 'bottom-right' | 'top-left' | 'top-right';
+
+export interface LegendSettings {
+  visible: boolean;
+  title: string; // Empty uses the metric name
+  kind: 'stepped' | 'continuous'; // Continuous draws the classes as a ramp along the value axis
+  orientation: 'horizontal' | 'vertical';
+  position: LegendPosition;
+  showNoData: boolean;
+}
 
 export interface MapStyle {
   palette: PaletteType;
   customColors?: string[];
+  interpolation?: InterpolationSpace; // How colours between the palette stops are blended; defaults to 'rgb'
+  reversePalette?: boolean;
   classificationMethod: ClassificationMethod;
   classesCount: number;
+  manualBreaks?: number[]; // Inner class boundaries used by the 'manual' method
+  diverging?: DivergingSettings; // Unset for a sequential scale
+  renderMode?: RenderMode; // Defaults to 'choropleth'
+  bivariate?: BivariateSettings;
+  categoryColors?: Record<string, string>; // Per-category overrides of the qualitative palette
+  maxCategories?: number; // Rarer categories are merged into "Other"
+  showFill?: boolean; // Defaults to true; off leaves only the symbol layer
+  symbols?: SymbolSettings;
+  legend?: LegendSettings;
   showBorders: boolean;
   borderColor: string;
   borderWidth: number;
@@ -28,19 +85,40 @@ export interface TitleSettings {
   alignment: 'left' | 'center' | 'right';
   color: string;
   size: 'small' | 'medium' | 'large';
+  source?: string; // Attribution footer, e.g. "Source: World Bank"
 }
 
 export interface Annotation {
   id: string;
-  x: number;
-  y: number;
+  coordinates: [number, number]; // Longitude, latitude, so the note stays put across projections and resizes
   text: string;
 }
 
-export interface MapDataState {
+// Values keyed by period (year "2020", quarter "2020-Q1", month "2020-03" or date "2020-03-15")
+export interface TimeSeries {
+  periods: string[]; // Sorted oldest first
+  frames: Record<string, Record<string, number>>; // Period -> region id -> value
+}
+
+// Style settings a single metric can override (e.g. a diverging palette just for growth rates)
+export type MetricStyle = Partial<Pick<MapStyle, 'palette' | 'customColors' | 'interpolation' | 'reversePalette' | 'classificationMethod' | 'classesCount' | 'manualBreaks' | 'diverging' | 'categoryColors' | 'maxCategories'>>;
+
+export interface DatasetMetric {
+  name: string;
+  unit: string;
   values: Record<string, number>;
+  categories?: Record<string, string>; // Region id -> category label; categorical metrics leave `values` empty
+  series?: TimeSeries;
+  style?: MetricStyle;
+}
+
+export interface MapDataState {
+  values: Record<string, number>; // For time series, the latest period
   metric: string;
   unit: string;
+  metrics?: DatasetMetric[]; // Every metric in the dataset; the one named by `metric` is mirrored in values/unit/categories/series
+  categories?: Record<string, string>;
+  series?: TimeSeries;
 }
 
 export interface Insight {
@@ -57,11 +135,16 @@ export interface Suggestion {
   icon?: any;
 }
 
+export type TemplateCategory = 'Demographics' | 'Economics' | 'Politics' | 'Environment' | 'Other';
+
+export const TEMPLATE_CATEGORIES: TemplateCategory[] = ['Demographics', 'Economics', 'Politics', 'Environment', 'Other'];
+
 export interface MapTemplate {
   id: string;
   name: string;
   description: string;
-  category: 'Demographics' | 'Economics' | 'Politics' | 'Environment' | 'Other';
+  category: TemplateCategory;
+  tags?: string[];
   style: MapStyle;
   data: MapDataState;
   titleSettings: TitleSettings;
@@ -74,9 +157,33 @@ export const PALETTES: Record<PaletteType, string[]> = {
   sunset: ['#fefce8', '#fde047', '#f97316', '#dc2626', '#7f1d1d'],
   forest: ['#f0fdf4', '#86efac', '#22c55e', '#15803d', '#14532d'],
   monochrome: ['#f8fafc', '#cbd5e1', '#64748b', '#334155', '#0f172a'],
+  blues: ['#eff3ff', '#bdd7e7', '#6baed6', '#3182bd', '#08519c'],
+  greens: ['#edf8e9', '#bae4b3', '#74c476', '#31a354', '#006d2c'],
+  oranges: ['#feedde', '#fdbe85', '#fd8d3c', '#e6550d', '#a63603'],
+  purples: ['#f2f0f7', '#cbc9e2', '#9e9ac8', '#756bb1', '#54278f'],
+  reds: ['#fee5d9', '#fcae91', '#fb6a4a', '#de2d26', '#a50f15'],
+  greys: ['#f7f7f7', '#cccccc', '#969696', '#636363', '#252525'],
+  ylGnBu: ['#ffffcc', '#a1dab4', '#41b6c4', '#2c7fb8', '#253494'],
+  ylOrRd: ['#ffffb2', '#fecc5c', '#fd8d3c', '#f03b20', '#bd0026'],
+  buPu: ['#edf8fb', '#b3cde3', '#8c96c6', '#8856a7', '#810f7c'],
+  rdPu: ['#feebe2', '#fbb4b9', '#f768a1', '#c51b8a', '#7a0177'],
+  // Diverging (ColorBrewer RdBu, BrBG, PRGn, ...): the middle stop is the neutral colour
+  redBlue: ['#b2182b', '#ef8a62', '#f7f7f7', '#67a9cf', '#2166ac'],
+  brownTeal: ['#8c510a', '#d8b365', '#f5f5f5', '#5ab4ac', '#01665e'],
+  purpleGreen: ['#762a83', '#af8dc3', '#f7f7f7', '#7fbf7b', '#1b7837'],
+  piYG: ['#d01c8b', '#f1b6da', '#f7f7f7', '#b8e186', '#4dac26'],
+  rdYlBu: ['#d7191c', '#fdae61', '#ffffbf', '#abd9e9', '#2c7bb6'],
+  spectral: ['#d7191c', '#fdae61', '#ffffbf', '#abdda4', '#2b83ba'],
+  viridis: ['#440154', '#3b528b', '#21918c', '#5ec962', '#fde725'],
+  magma: ['#000004', '#51127c', '#b73779', '#fc8961', '#fcfdbf'],
+  inferno: ['#000004', '#57106e', '#bc3754', '#f98e09', '#fcffa4'],
+  plasma: ['#0d0887', '#7e03a8', '#cc4778', '#f89540', '#f0f921'],
+  cividis: ['#002051', '#3c4d6e', '#7f7c75', '#bbaf71', '#fdea45'],
   custom: ['#f0f9ff', '#0c4a6e'] // Fallback
 };
 
+export const DIVERGING_PALETTES: PaletteType[] = ['redBlue', 'brownTeal', 'purpleGreen', 'piYG', 'rdYlBu', 'spectral'];
+
 export const DEFAULT_MAP_STYLE: MapStyle = {
   palette: 'ocean',
   classificationMethod: 'quantile',
@@ -103,6 +210,7 @@ export const DEFAULT_TITLE_SETTINGS: TitleSettings = {
   alignment: 'center',
   color: '#ffffff',
   size: 'large',
+  source: '',
 };
 
 export const SAMPLE_DATASET: MapDataState = {
@@ -151,25 +259,39 @@ export const PRESET_TEMPLATES: MapTemplate[] = [
     description: 'Categorical visualization of major climate regions.',
     category: 'Environment',
     thumbnailGradient: 'linear-gradient(135deg, #f97316, #06b6d4)',
-    style: { ...DEFAULT_MAP_STYLE, palette: 'sunset', classificationMethod: 'natural', classesCount: 4 },
+    style: {
+      ...DEFAULT_MAP_STYLE,
+      palette: 'sunset',
+      classificationMethod: 'natural',
+      classesCount: 4,
+      categoryColors: { Tropical: '#15803d', Arid: '#f59e0b', Temperate: '#84cc16', Continental: '#0ea5e9', Polar: '#e2e8f0' }
+    },
     data: {
-      metric: 'Avg Temperature', unit: '°C',
-      values: { '124': -5, '643': -3, '578': 1, '276': 9, '840': 12, '156': 14, '076': 24, '356': 26, '566': 28, '360': 27, '036': 21 }
+      metric: 'Climate Zone', unit: '',
+      values: {},
+      // Dominant Köppen group per country
+      categories: {
+        '076': 'Tropical', '356': 'Tropical', '566': 'Tropical', '360': 'Tropical', '180': 'Tropical', '170': 'Tropical',
+        '036': 'Arid', '682': 'Arid', '818': 'Arid', '012': 'Arid', '484': 'Arid', '364': 'Arid', '398': 'Arid',
+        '276': 'Temperate', '250': 'Temperate', '826': 'Temperate', '840': 'Temperate', '156': 'Temperate', '392': 'Temperate', '032': 'Temperate',
+        '124': 'Continental', '643': 'Continental', '578': 'Continental', '752': 'Continental', '246': 'Continental', '496': 'Continental',
+        '304': 'Polar'
+      }
     },
-    titleSettings: { ...DEFAULT_TITLE_SETTINGS, title: 'Average Temperatures', subtitle: 'Annual Mean' }
+    titleSettings: { ...DEFAULT_TITLE_SETTINGS, title: 'Climate Zones', subtitle: 'Dominant Köppen climate group' }
   },
   {
     id: 'election-results',
     name: 'Election Results',
-    description: 'Diverging red-blue scale for political analysis.',
+    description: 'Diverging red-blue scale centred on an even split.',
     category: 'Politics',
     thumbnailGradient: 'linear-gradient(90deg, #ef4444 50%, #3b82f6 50%)',
     style: { 
       ...DEFAULT_MAP_STYLE, 
-      palette: 'custom', 
-      customColors: ['#3b82f6', '#ef4444'], // Blue to Red
+      palette: 'redBlue', 
       classificationMethod: 'equal', 
-      classesCount: 3 
+      classesCount: 5,
+      diverging: { midpoint: 'value', value: 50 } // 50 is the neutral class
     },
     data: {
       metric: 'Political Leaning', unit: 'Index',
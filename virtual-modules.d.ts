@@ -0,0 +1,5 @@
+// Generated by plugins/admin1Assets.ts: ISO 3166-1 numeric code -> URL of that country's admin-1 regions
+declare module 'virtual:admin1-index' {
+  const index: Record<string, string>;
+  export default index;
+}